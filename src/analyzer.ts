@@ -1,9 +1,9 @@
 import Anthropic from "@anthropic-ai/sdk";
-import type { Config, ManifoldMarket, ClaudeEstimate } from "./types.js";
+import type { Config, Market, ClaudeEstimate, DistributionEstimate } from "./types.js";
 import { fetchFinanceContext } from "./finance-tool.js";
 import { fetchSportsContext } from "./sports-tool.js";
 
-const SYSTEM_PROMPT = `You are an expert superforecaster trained in the methodology of Philip Tetlock's Good Judgment Project. Your task is to estimate the probability that a prediction market question resolves YES.
+const FORECASTER_PROMPT = `You are an expert superforecaster trained in the methodology of Philip Tetlock's Good Judgment Project. Your task is to estimate the probability that a prediction market question resolves YES.
 
 ## Your Process
 
@@ -27,30 +27,58 @@ const SYSTEM_PROMPT = `You are an expert superforecaster trained in the methodol
 - Do NOT anchor to any market price. Form your estimate independently.
 - Consider base rates before specific details.
 - Think about the strongest argument AGAINST your position.
-- Be honest about your uncertainty — don't pretend to know more than you do.
+- Be honest about your uncertainty — don't pretend to know more than you do.`;
+
+const SYSTEM_PROMPT = `${FORECASTER_PROMPT}
 
 ## Output Format
 
 Respond with ONLY a JSON object (no markdown, no code fences):
 {"probability": 0.XX, "confidence": "low|medium|high", "reasoning": "Your 2-3 sentence reasoning"}`;
 
+const DISTRIBUTION_PROMPT = `${FORECASTER_PROMPT}
+
+## Multiple Outcomes
+
+The question has several mutually exclusive outcomes, exactly one of which will happen. Estimate a probability for every outcome; they must sum to 1. Apply the base-rate and calibration rules to each outcome, and don't spread probability evenly just because you're unsure.
+
+## Output Format
+
+Respond with ONLY a JSON object (no markdown, no code fences), keyed by outcome number:
+{"probabilities": {"1": 0.XX, "2": 0.XX, ...}, "confidence": "low|medium|high", "reasoning": "Your 2-3 sentence reasoning"}`;
+
+/**
+ * An earlier estimate for the same market, shown when re-assessing an open
+ * position so the model can say whether its thesis still holds.
+ */
+export interface PriorAssessment {
+  probability: number;
+  reasoning: string;
+  timestamp: string;
+}
+
+/**
+ * Finance and sports data for the question, as prompt sections.
+ */
+async function fetchDataContext(question: string): Promise<string> {
+  let dataContext = "";
+  const [financeCtx, sportsCtx] = await Promise.all([
+    fetchFinanceContext(question).catch(() => null),
+    fetchSportsContext(question).catch(() => null),
+  ]);
+  if (financeCtx) dataContext += "\n\n" + financeCtx;
+  if (sportsCtx) dataContext += "\n\n" + sportsCtx;
+  return dataContext;
+}
+
 export async function estimateProbability(
   config: Config,
-  market: ManifoldMarket,
-  calibrationFeedback?: string
+  market: Market,
+  calibrationFeedback?: string,
+  prior?: PriorAssessment
 ): Promise<ClaudeEstimate> {
   const client = new Anthropic({ apiKey: config.anthropicApiKey });
-
-  // Extract text description, handling various formats
-  let description = "";
-  if (market.textDescription) {
-    description = market.textDescription;
-  } else if (typeof market.description === "string") {
-    description = market.description;
-  } else if (market.description && typeof market.description === "object") {
-    // Manifold uses TipTap JSON format — extract text nodes
-    description = extractText(market.description);
-  }
+  const description = market.description;
 
   let systemPrompt = SYSTEM_PROMPT;
   if (calibrationFeedback) {
@@ -58,13 +86,17 @@ export async function estimateProbability(
   }
 
   // Fetch real-time data from tools
-  let dataContext = "";
-  const [financeCtx, sportsCtx] = await Promise.all([
-    fetchFinanceContext(market.question).catch(() => null),
-    fetchSportsContext(market.question).catch(() => null),
-  ]);
-  if (financeCtx) dataContext += "\n\n" + financeCtx;
-  if (sportsCtx) dataContext += "\n\n" + sportsCtx;
+  const dataContext = await fetchDataContext(market.question);
+
+  let priorContext = "";
+  if (prior) {
+    priorContext = `
+**Your earlier assessment (${prior.timestamp.split("T")[0]}):** ${(prior.probability * 100).toFixed(0)}%
+**Earlier reasoning:** ${prior.reasoning}
+
+We hold a position based on that assessment. Re-assess from the latest information above: keep the estimate if the reasoning still holds, move it if something has changed. Don't defend the earlier number for its own sake.
+`;
+  }
 
   const userPrompt = `Estimate the probability that this question resolves YES:
 
@@ -72,10 +104,11 @@ export async function estimateProbability(
 
 ${description ? `**Description/Context:** ${description.slice(0, 3000)}` : ""}
 
-**Created by:** ${market.creatorUsername}
+**Created by:** ${market.creator}
 **Market closes:** ${new Date(market.closeTime).toISOString().split("T")[0]}
 **Today's date:** ${new Date().toISOString().split("T")[0]}
 ${dataContext}
+${priorContext}
 Respond with ONLY a JSON object: {"probability": 0.XX, "confidence": "low|medium|high", "reasoning": "..."}`;
 
   const response = await client.messages.create({
@@ -95,6 +128,100 @@ Respond with ONLY a JSON object: {"probability": 0.XX, "confidence": "low|medium
   return parseEstimate(text);
 }
 
+/**
+ * Estimate a probability for every outcome of a multi-outcome market.
+ */
+export async function estimateDistribution(
+  config: Config,
+  market: Market,
+  calibrationFeedback?: string
+): Promise<DistributionEstimate> {
+  const outcomes = market.outcomes ?? [];
+  if (outcomes.length < 2) {
+    throw new Error(`Market ${market.id} has no outcomes to estimate`);
+  }
+  const client = new Anthropic({ apiKey: config.anthropicApiKey });
+
+  let systemPrompt = DISTRIBUTION_PROMPT;
+  if (calibrationFeedback) {
+    systemPrompt += "\n\n" + calibrationFeedback;
+  }
+
+  const dataContext = await fetchDataContext(market.question);
+  const outcomeList = outcomes.map((o, i) => `${i + 1}. ${o.label}`).join("\n");
+
+  const userPrompt = `Estimate the probability of each outcome of this question:
+
+**Question:** ${market.question}
+
+**Outcomes:**
+${outcomeList}
+
+${market.description ? `**Description/Context:** ${market.description.slice(0, 3000)}` : ""}
+
+**Created by:** ${market.creator}
+**Market closes:** ${new Date(market.closeTime).toISOString().split("T")[0]}
+**Today's date:** ${new Date().toISOString().split("T")[0]}
+${dataContext}
+Respond with ONLY a JSON object: {"probabilities": {"1": 0.XX, ...}, "confidence": "low|medium|high", "reasoning": "..."}`;
+
+  const response = await client.messages.create({
+    model: config.claudeModel,
+    max_tokens: 1024,
+    system: systemPrompt,
+    messages: [{ role: "user", content: userPrompt }],
+  });
+
+  const text =
+    response.content[0]?.type === "text" ? response.content[0].text : "";
+
+  if (!text) {
+    throw new Error(`Empty response from Claude for market: ${market.id}`);
+  }
+
+  return parseDistribution(text, outcomes.map((o) => o.id));
+}
+
+/**
+ * Parse a distribution keyed by 1-based outcome number into one keyed by
+ * outcome id, renormalized to sum to 1. Missing outcomes count as 0.
+ */
+export function parseDistribution(text: string, outcomeIds: string[]): DistributionEstimate {
+  // Nested object — match through the outermost closing brace
+  const jsonMatch = text.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    throw new Error(`Could not parse Claude response as JSON: ${text.slice(0, 200)}`);
+  }
+
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(jsonMatch[0]);
+  } catch {
+    throw new Error(`Malformed JSON in Claude response: ${jsonMatch[0].slice(0, 200)}`);
+  }
+
+  const raw = (parsed.probabilities ?? {}) as Record<string, unknown>;
+  const values = outcomeIds.map((_, i) => Number(raw[String(i + 1)] ?? 0));
+  if (values.some((v) => isNaN(v) || v < 0)) {
+    throw new Error(`Invalid probabilities: ${JSON.stringify(raw).slice(0, 200)}`);
+  }
+  const total = values.reduce((sum, v) => sum + v, 0);
+  if (total <= 0) {
+    throw new Error(`Probabilities sum to ${total}`);
+  }
+
+  const confidence = String(parsed.confidence ?? "");
+  if (!["low", "medium", "high"].includes(confidence)) {
+    throw new Error(`Invalid confidence: ${confidence}`);
+  }
+
+  return {
+    probabilities: Object.fromEntries(outcomeIds.map((id, i) => [id, values[i]! / total])),
+    confidence: confidence as DistributionEstimate["confidence"],
+    reasoning: String(parsed.reasoning || ""),
+  };
+}
+
 function parseEstimate(text: string): ClaudeEstimate {
   // Try to extract JSON from the response
   const jsonMatch = text.match(/\{[\s\S]*?\}/);
@@ -126,12 +253,48 @@ function parseEstimate(text: string): ClaudeEstimate {
   };
 }
 
-function extractText(node: unknown): string {
-  if (!node || typeof node !== "object") return "";
-  const n = node as Record<string, unknown>;
-  if (n.type === "text" && typeof n.text === "string") return n.text;
-  if (Array.isArray(n.content)) {
-    return n.content.map(extractText).join(" ");
+const EQUIVALENCE_PROMPT = `You compare prediction market questions from two different exchanges. Decide whether the two markets resolve YES in exactly the same circumstances: same event, same threshold or outcome, same deadline and time zone, same resolution source where it matters. Markets that are merely about the same topic are NOT equivalent.
+
+Respond with ONLY a JSON object (no markdown, no code fences):
+{"equivalent": true|false, "reasoning": "One or two sentences naming any difference"}`;
+
+/**
+ * Ask Claude whether two markets on different venues resolve identically —
+ * the check that makes a price gap between them an arbitrage.
+ */
+export async function confirmSameResolution(
+  config: Config,
+  a: Market,
+  b: Market
+): Promise<{ equivalent: boolean; reasoning: string }> {
+  const client = new Anthropic({ apiKey: config.anthropicApiKey });
+  const describe = (m: Market) => `**Venue:** ${m.venue}
+**Question:** ${m.question}
+**Closes:** ${new Date(m.closeTime).toISOString().split("T")[0]}
+${m.description ? `**Resolution details:** ${m.description.slice(0, 2000)}` : ""}`;
+
+  const response = await client.messages.create({
+    model: config.claudeModel,
+    max_tokens: 256,
+    system: EQUIVALENCE_PROMPT,
+    messages: [{ role: "user", content: `Market A:\n${describe(a)}\n\nMarket B:\n${describe(b)}` }],
+  });
+
+  const text = response.content[0]?.type === "text" ? response.content[0].text : "";
+  const jsonMatch = text.match(/\{[\s\S]*?\}/);
+  if (!jsonMatch) {
+    throw new Error(`Could not parse Claude response as JSON: ${text.slice(0, 200)}`);
   }
-  return "";
+
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(jsonMatch[0]);
+  } catch {
+    throw new Error(`Malformed JSON in Claude response: ${jsonMatch[0].slice(0, 200)}`);
+  }
+  if (typeof parsed.equivalent !== "boolean") {
+    throw new Error(`Invalid equivalent: ${parsed.equivalent}`);
+  }
+
+  return { equivalent: parsed.equivalent, reasoning: String(parsed.reasoning || "") };
 }
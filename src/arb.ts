@@ -0,0 +1,282 @@
+/**
+ * Cross-venue arbitrage between Manifold and Polymarket.
+ *
+ * Markets are paired when their questions share most of their words and they
+ * close within ARB_MAX_CLOSE_GAP_DAYS of each other; Claude then confirms the
+ * two resolve identically, and the verdict is cached in the ledger. For each
+ * confirmed pair we quote buying YES on one venue and NO on the other for the
+ * same number of shares. Exactly one leg pays out, so whatever the pair costs
+ * below 1 per share (after fees and slippage) is the gap. Each venue pays in
+ * its own currency (M$ vs USDC), so the gap is per share, not in one money.
+ */
+
+import { randomUUID } from "crypto";
+import type { Config, Market, TradeDecision, Venue } from "./types.js";
+import { confirmSameResolution } from "./analyzer.js";
+import { feePerShare } from "./strategy.js";
+import { getArbPair, saveArbPair, loadHeldMarketIds } from "./data.js";
+import { executeBets, recoverPendingOrders } from "./executor.js";
+import { createVenue } from "./venue.js";
+import { logDecision, logInfo, logError } from "./logger.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const STOPWORDS = new Set([
+  "a", "an", "the", "will", "be", "is", "are", "of", "in", "on", "at", "by", "to", "for",
+  "or", "and", "before", "after", "than", "this", "that", "with", "does", "do", "end",
+]);
+
+export interface CandidatePair {
+  manifold: Market;
+  polymarket: Market;
+  similarity: number;
+}
+
+export interface ArbOpportunity {
+  manifold: Market;
+  polymarket: Market;
+  manifoldDirection: "YES" | "NO"; // polymarket leg takes the other side
+  manifoldPrice: number; // average fill per share, before fees
+  polymarketPrice: number;
+  shares: number;
+  manifoldAmount: number;
+  polymarketAmount: number;
+  gap: number; // 1 − cost of one YES+NO share pair, after fees and slippage
+}
+
+function words(question: string): Set<string> {
+  return new Set(
+    question
+      .toLowerCase()
+      .replace(/[^a-z0-9$%.\s]/g, " ")
+      .split(/\s+/)
+      .map((w) => w.replace(/\.$/, ""))
+      .filter((w) => w && !STOPWORDS.has(w))
+  );
+}
+
+/**
+ * Word overlap between two questions (Jaccard), ignoring case, punctuation
+ * and filler words.
+ */
+export function questionSimilarity(a: string, b: string): number {
+  const wa = words(a);
+  const wb = words(b);
+  if (wa.size === 0 || wb.size === 0) return 0;
+  const shared = [...wa].filter((w) => wb.has(w)).length;
+  return shared / (wa.size + wb.size - shared);
+}
+
+/**
+ * Best Polymarket match for each Manifold market, if it's similar enough and
+ * closes close enough. A Polymarket market is used by at most one pair.
+ */
+export function matchMarkets(manifold: Market[], polymarket: Market[], config: Config): CandidatePair[] {
+  const scored: CandidatePair[] = [];
+  for (const m of manifold) {
+    for (const p of polymarket) {
+      if (Math.abs(m.closeTime - p.closeTime) > config.arbMaxCloseGapDays * DAY_MS) continue;
+      const similarity = questionSimilarity(m.question, p.question);
+      if (similarity >= config.arbMinSimilarity) scored.push({ manifold: m, polymarket: p, similarity });
+    }
+  }
+
+  const used = new Set<string>();
+  const pairs: CandidatePair[] = [];
+  for (const pair of scored.sort((a, b) => b.similarity - a.similarity)) {
+    if (used.has(pair.manifold.id) || used.has(pair.polymarket.id)) continue;
+    used.add(pair.manifold.id);
+    used.add(pair.polymarket.id);
+    pairs.push(pair);
+  }
+  return pairs;
+}
+
+/**
+ * Quote one orientation: `manifoldDirection` on Manifold, the other side on
+ * Polymarket, as many share pairs as both venues' max bet allows.
+ */
+async function quoteOrientation(
+  pair: CandidatePair,
+  manifoldDirection: "YES" | "NO",
+  manifold: Venue,
+  polymarket: Venue,
+): Promise<ArbOpportunity | null> {
+  const polyDirection = manifoldDirection === "YES" ? "NO" : "YES";
+  const [mPrice, pPrice] = await Promise.all([
+    manifold.quoteFillPrice(pair.manifold, manifoldDirection, manifold.maxBetAmount),
+    polymarket.quoteFillPrice(pair.polymarket, polyDirection, polymarket.maxBetAmount),
+  ]);
+  if (mPrice === null || pPrice === null || mPrice <= 0 || pPrice <= 0) return null;
+
+  // Equal share counts on both sides, limited by the tighter venue; Manifold bets whole M$
+  const manifoldAmount = Math.floor(Math.min(manifold.maxBetAmount, (polymarket.maxBetAmount / pPrice) * mPrice));
+  if (manifoldAmount < 1) return null;
+  const shares = manifoldAmount / mPrice;
+  const mFees = pair.manifold.fees;
+  const pFees = pair.polymarket.fees;
+  // Only the winning leg pays to settle, so charge the dearer of the two
+  const settlement = Math.max(mFees?.settlementCost ?? 0, pFees?.settlementCost ?? 0) / shares;
+  const cost = mPrice + feePerShare(mFees, mPrice) + pPrice + feePerShare(pFees, pPrice) + settlement;
+
+  return {
+    manifold: pair.manifold,
+    polymarket: pair.polymarket,
+    manifoldDirection,
+    manifoldPrice: mPrice,
+    polymarketPrice: pPrice,
+    shares,
+    manifoldAmount,
+    polymarketAmount: Math.floor(shares * pPrice * 100) / 100,
+    gap: 1 - cost,
+  };
+}
+
+/**
+ * The better of the two orientations for a confirmed pair, or null if
+ * neither side can be quoted.
+ */
+export async function quoteArb(pair: CandidatePair, manifold: Venue, polymarket: Venue): Promise<ArbOpportunity | null> {
+  const quotes = await Promise.all([
+    quoteOrientation(pair, "YES", manifold, polymarket),
+    quoteOrientation(pair, "NO", manifold, polymarket),
+  ]);
+  const valid = quotes.filter((q): q is ArbOpportunity => q !== null);
+  if (valid.length === 0) return null;
+  return valid.reduce((best, q) => (q.gap > best.gap ? q : best));
+}
+
+/**
+ * BET decisions for both legs of an opportunity, linked by `groupId`. Each
+ * leg's estimate is the other venue's price for YES — the fair value the
+ * hedge locks in.
+ */
+export function arbDecisions(opp: ArbOpportunity, groupId: string): { manifold: TradeDecision; polymarket: TradeDecision } {
+  const polyDirection = opp.manifoldDirection === "YES" ? "NO" : "YES";
+  const yesPrice = (direction: "YES" | "NO", price: number) => (direction === "YES" ? price : 1 - price);
+  const manifoldYes = yesPrice(opp.manifoldDirection, opp.manifoldPrice);
+  const polyYes = yesPrice(polyDirection, opp.polymarketPrice);
+
+  const leg = (market: Market, direction: "YES" | "NO", marketProb: number, estimate: number, betAmount: number): TradeDecision => ({
+    traceId: randomUUID(),
+    timestamp: new Date().toISOString(),
+    marketId: market.id,
+    question: market.question,
+    marketUrl: market.url,
+    marketProb,
+    estimate,
+    confidence: "high",
+    reasoning: `Arbitrage: ${opp.manifoldDirection} on Manifold at ${opp.manifoldPrice.toFixed(3)}, ${polyDirection} on Polymarket at ${opp.polymarketPrice.toFixed(3)} — ${(opp.gap * 100).toFixed(1)}¢ per share pair after fees`,
+    edge: opp.gap,
+    direction,
+    kellyFraction: 0,
+    effectiveProb: marketProb,
+    betAmount,
+    action: "BET",
+    venue: market.venue,
+    polyTokenId: market.tokenIds?.[direction],
+    groupId,
+    liquidity: market.liquidity,
+    closeTime: new Date(market.closeTime).toISOString(),
+    uniqueBettorCount: market.uniqueBettorCount ?? 0,
+    description: "",
+  });
+
+  return {
+    manifold: leg(opp.manifold, opp.manifoldDirection, manifoldYes, polyYes, opp.manifoldAmount),
+    polymarket: leg(opp.polymarket, polyDirection, polyYes, manifoldYes, opp.polymarketAmount),
+  };
+}
+
+/**
+ * Claude's cached verdict on a pair, asking for one if we don't have it yet.
+ * Returns null if Claude couldn't be reached — the pair is retried next run.
+ */
+async function confirmPair(config: Config, pair: CandidatePair): Promise<boolean | null> {
+  const cached = getArbPair(pair.manifold.id, pair.polymarket.id);
+  if (cached) return cached.equivalent;
+
+  try {
+    const verdict = await confirmSameResolution(config, pair.manifold, pair.polymarket);
+    saveArbPair({
+      manifoldId: pair.manifold.id,
+      polymarketId: pair.polymarket.id,
+      manifoldQuestion: pair.manifold.question,
+      polymarketQuestion: pair.polymarket.question,
+      similarity: pair.similarity,
+      equivalent: verdict.equivalent,
+      reasoning: verdict.reasoning,
+      checkedAt: new Date().toISOString(),
+    });
+    if (!verdict.equivalent) logInfo(`  Not the same question: ${pair.manifold.question.slice(0, 60)} — ${verdict.reasoning}`);
+    return verdict.equivalent;
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    logError(`  Could not confirm pair for ${pair.manifold.question.slice(0, 60)}: ${msg}`);
+    return null;
+  }
+}
+
+/**
+ * Arb command: pair markets, report price gaps, and trade those above
+ * ARB_MIN_GAP. The Polymarket leg goes first — its FOK order is the one that
+ * can come back unfilled — and the Manifold leg is only placed once it fills.
+ */
+export async function runArb(config: Config): Promise<void> {
+  // Pairs are binary market to binary market
+  const manifold = createVenue("manifold", { ...config, maxMarketsPerRun: config.arbMaxMarkets, multiOutcome: false });
+  const polymarket = createVenue("polymarket", { ...config, polyMaxMarketsPerRun: config.arbMaxMarkets, multiOutcome: false });
+  await recoverPendingOrders(new Map([[manifold.name, manifold], [polymarket.name, polymarket]]));
+
+  const [manifoldMarkets, polyMarkets] = await Promise.all([
+    manifold.listMarkets(loadHeldMarketIds("manifold")),
+    polymarket.listMarkets(loadHeldMarketIds("polymarket")),
+  ]);
+  const candidates = matchMarkets(manifoldMarkets, polyMarkets, config);
+  logInfo(`${candidates.length} candidate pair(s) from ${manifoldMarkets.length} Manifold × ${polyMarkets.length} Polymarket markets`);
+
+  const opportunities: ArbOpportunity[] = [];
+  for (const pair of candidates) {
+    if (!(await confirmPair(config, pair))) continue;
+    try {
+      const opp = await quoteArb(pair, manifold, polymarket);
+      if (opp) opportunities.push(opp);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      logError(`  Could not quote ${pair.manifold.question.slice(0, 60)}: ${msg}`);
+    }
+  }
+
+  opportunities.sort((a, b) => b.gap - a.gap);
+  logInfo(`\n--- ${opportunities.length} confirmed pair(s) ---`);
+  for (const opp of opportunities) {
+    const polyDirection = opp.manifoldDirection === "YES" ? "NO" : "YES";
+    console.log(`  ${opp.gap >= config.arbMinGap ? ">>>" : "---"} ${opp.manifold.question.slice(0, 70)}`);
+    console.log(
+      `      Manifold ${opp.manifoldDirection} @ ${opp.manifoldPrice.toFixed(3)} + Polymarket ${polyDirection} @ ${opp.polymarketPrice.toFixed(3)} | Gap: ${(opp.gap * 100).toFixed(1)}¢ × ${opp.shares.toFixed(1)} shares`
+    );
+  }
+
+  const tradable = opportunities.filter((o) => o.gap >= config.arbMinGap && o.polymarketAmount >= 1);
+  if (tradable.length === 0) {
+    logInfo("No gaps above ARB_MIN_GAP this run.");
+    return;
+  }
+
+  for (const opp of tradable) {
+    const groupId = randomUUID();
+    const legs = arbDecisions(opp, groupId);
+    logDecision(legs.polymarket, polymarket.currency);
+    logDecision(legs.manifold, manifold.currency);
+
+    const [polyFill] = await executeBets([legs.polymarket], polymarket, config);
+    if (!polyFill || polyFill.result?.error) {
+      logInfo(`  Polymarket leg not filled — skipping the Manifold leg (group ${groupId})`);
+      continue;
+    }
+    const [manifoldFill] = await executeBets([legs.manifold], manifold, config);
+    if (!manifoldFill || manifoldFill.result?.error) {
+      logError(`  Manifold leg failed after the Polymarket leg filled — group ${groupId} is unhedged`);
+    }
+  }
+}
@@ -0,0 +1,303 @@
+/**
+ * Offline backtest — replays logged Claude estimates through `makeDecision`
+ * with alternative EDGE_THRESHOLD, KELLY_FRACTION and MAX_POSITION_PCT values.
+ *
+ * Each logged estimate whose market has a known outcome is replayed in time
+ * order against a simulated bankroll. Outcomes come from the ledger's
+ * resolutions and, optionally, the resolved-market corpus `market-analysis.ts`
+ * saves, which also covers markets we analyzed but never bet on. A simulated
+ * bet fills at the decision's modelled fill price (fees and approximate
+ * slippage included) and settles when its market resolved. While it's open
+ * the market isn't bet again, as a live scan would hold it. Nothing here
+ * touches the network.
+ *
+ * Not modelled: portfolio scaling, risk limits, limit orders (every bet is a
+ * taker fill) and the exact AMM pool (Manifold slippage is approximated from
+ * liquidity). Venues share one bankroll, so replay one venue at a time when
+ * their currencies differ.
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import type { ClaudeEstimate, Confidence, Config, LiveVenueName, Market, MarketFees, TradeDecision } from "./types.js";
+import { makeDecision } from "./strategy.js";
+import { loadDecisions, loadResolutions, readJsonl, DATA_DIR } from "./data.js";
+import { liveVenueName } from "./paper-venue.js";
+import { logInfo } from "./logger.js";
+
+/** Where `market-analysis.ts` saves the resolved Manifold markets it fetched. */
+export const RESOLVED_MARKETS_FILE = join(DATA_DIR, "resolved-markets.json");
+
+export interface BacktestParams {
+  edgeThreshold: number;
+  kellyFraction: number;
+  maxPositionPct: number;
+  edgeThresholdByConfidence?: Partial<Record<Confidence, number>>; // absent = as configured
+}
+
+/** Values to try for each parameter; a parameter without values keeps its configured value. */
+export interface BacktestGrid {
+  edgeThreshold?: number[];
+  kellyFraction?: number[];
+  maxPositionPct?: number[];
+}
+
+export interface KnownOutcome {
+  resolution: "YES" | "NO";
+  resolvedAt: number;
+}
+
+export interface BacktestResult {
+  params: BacktestParams;
+  bets: number;
+  wins: number;
+  staked: number;
+  pnl: number;
+  roi: number; // pnl / staked
+  brier: number; // of the estimates we bet on
+  maxDrawdown: number; // largest peak-to-trough fall in equity, as a fraction of the peak
+  finalBankroll: number;
+}
+
+interface SimBet {
+  marketId: string;
+  amount: number;
+  payout: number;
+  settleAt: number;
+}
+
+/**
+ * Known YES/NO outcomes by market id: the ledger's resolutions, plus the
+ * corpus at `corpusFile` when it exists. CANCEL and MKT resolutions are left
+ * out — there's no clean payout to replay.
+ */
+export function loadOutcomes(corpusFile?: string): Map<string, KnownOutcome> {
+  const outcomes = new Map<string, KnownOutcome>();
+  if (corpusFile && existsSync(corpusFile)) {
+    const corpus = JSON.parse(readFileSync(corpusFile, "utf-8")) as {
+      id: string;
+      resolution?: string;
+      resolutionTime?: number;
+      closeTime?: number;
+    }[];
+    for (const m of corpus) {
+      const resolvedAt = m.resolutionTime ?? m.closeTime;
+      if ((m.resolution === "YES" || m.resolution === "NO") && resolvedAt !== undefined) {
+        outcomes.set(m.id, { resolution: m.resolution, resolvedAt });
+      }
+    }
+  }
+  // Our own records win over the corpus
+  for (const r of loadResolutions()) {
+    if (r.resolution === "YES" || r.resolution === "NO") {
+      outcomes.set(r.marketId, { resolution: r.resolution, resolvedAt: Date.parse(r.resolvedAt) });
+    }
+  }
+  return outcomes;
+}
+
+/**
+ * Decisions carrying a single-market Claude estimate, oldest first. Seller
+ * re-evaluations, errors, arbitrage legs, market-making quotes and
+ * multi-outcome decisions aren't replayed.
+ */
+export function replayableDecisions(decisions: TradeDecision[]): TradeDecision[] {
+  return decisions
+    .filter((d) =>
+      !d.action.startsWith("REEVAL_") && d.action !== "SKIP_ERROR" &&
+      !d.groupId && !d.quoteSide && !d.outcome && !d.answerId
+    )
+    .sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+}
+
+function feesFor(venue: LiveVenueName, config: Config): MarketFees | undefined {
+  if (venue === "kalshi") return { takerRate: config.kalshiTakerFee, curve: "variance", settlementCost: 0 };
+  if (venue === "polymarket") return { takerRate: 0, curve: "min", settlementCost: config.polyRedeemGas };
+  return undefined;
+}
+
+function venueMaxBet(venue: LiveVenueName, config: Config): number {
+  if (venue === "polymarket") return config.polyMaxBetAmount;
+  if (venue === "kalshi") return config.kalshiMaxBetAmount;
+  return config.maxBetAmount;
+}
+
+/**
+ * The market as the decision saw it. `makeDecision` measures time to close
+ * from now, so the close is shifted to leave the same time as at the decision.
+ * Paper-account decisions are priced as on the live venue.
+ */
+function marketAt(d: TradeDecision, config: Config): Market {
+  const at = Date.parse(d.timestamp);
+  const venue = liveVenueName(d.venue);
+  return {
+    id: d.marketId,
+    venue: d.venue,
+    question: d.question,
+    description: d.description,
+    url: d.marketUrl,
+    probability: d.marketProb,
+    liquidity: d.liquidity,
+    volume: 0,
+    closeTime: Date.now() + (Date.parse(d.closeTime) - at),
+    mechanism: venue === "manifold" ? "cpmm" : "clob",
+    creator: "",
+    uniqueBettorCount: d.uniqueBettorCount,
+    isResolved: false,
+    eventId: d.eventId,
+    fees: feesFor(venue, config),
+  };
+}
+
+/**
+ * Replay `decisions` with `params` from a bankroll of `startBankroll`.
+ * Decisions without a known outcome, or made after their market resolved,
+ * are ignored.
+ */
+export function replay(
+  decisions: TradeDecision[],
+  outcomes: Map<string, KnownOutcome>,
+  config: Config,
+  params: BacktestParams,
+  startBankroll: number
+): BacktestResult {
+  const cfg: Config = { ...config, ...params, manifoldOrderType: "market", polyOrderType: "fok", oracleMode: "off" };
+  const open: SimBet[] = [];
+  let cash = startBankroll;
+  let peak = startBankroll;
+  let maxDrawdown = 0;
+  let bets = 0;
+  let wins = 0;
+  let staked = 0;
+  let pnl = 0;
+  let brierSum = 0;
+
+  const openCost = () => open.reduce((sum, b) => sum + b.amount, 0);
+  const settle = (until: number) => {
+    open.sort((a, b) => a.settleAt - b.settleAt);
+    while (open.length > 0 && open[0]!.settleAt <= until) {
+      const bet = open.shift()!;
+      cash += bet.payout;
+      pnl += bet.payout - bet.amount;
+      if (bet.payout > 0) wins++;
+      const equity = cash + openCost();
+      peak = Math.max(peak, equity);
+      maxDrawdown = Math.max(maxDrawdown, (peak - equity) / peak);
+    }
+  };
+
+  for (const d of decisions) {
+    const outcome = outcomes.get(d.marketId);
+    const at = Date.parse(d.timestamp);
+    if (!outcome || outcome.resolvedAt <= at) continue;
+    settle(at);
+    if (open.some((b) => b.marketId === d.marketId)) continue;
+
+    const bankroll = cash + openCost();
+    const decision = makeDecision(
+      marketAt(d, cfg),
+      { probability: d.estimate, confidence: d.confidence as ClaudeEstimate["confidence"], reasoning: "" },
+      bankroll,
+      cfg,
+      { maxBetAmount: venueMaxBet(liveVenueName(d.venue), cfg) }
+    );
+    const amount = Math.min(decision.betAmount, Math.floor(cash));
+    if (decision.action !== "BET" || !decision.direction || amount < 1) continue;
+
+    const price = decision.direction === "YES" ? decision.effectiveProb : 1 - decision.effectiveProb;
+    const won = outcome.resolution === decision.direction;
+    open.push({ marketId: d.marketId, amount, payout: won ? amount / price : 0, settleAt: outcome.resolvedAt });
+    cash -= amount;
+    bets++;
+    staked += amount;
+    brierSum += (d.estimate - (outcome.resolution === "YES" ? 1 : 0)) ** 2;
+  }
+  settle(Infinity);
+
+  return {
+    params,
+    bets,
+    wins,
+    staked,
+    pnl,
+    roi: staked > 0 ? pnl / staked : 0,
+    brier: bets > 0 ? brierSum / bets : 0,
+    maxDrawdown,
+    finalBankroll: cash,
+  };
+}
+
+/**
+ * Every combination of the given values, each falling back to the configured
+ * value when none are given.
+ */
+export function paramGrid(config: Config, values: BacktestGrid): BacktestParams[] {
+  const grid: BacktestParams[] = [];
+  for (const edgeThreshold of values.edgeThreshold ?? [config.edgeThreshold]) {
+    for (const kellyFraction of values.kellyFraction ?? [config.kellyFraction]) {
+      for (const maxPositionPct of values.maxPositionPct ?? [config.maxPositionPct]) {
+        grid.push({ edgeThreshold, kellyFraction, maxPositionPct });
+      }
+    }
+  }
+  return grid;
+}
+
+/** Where replayed decisions and their outcomes come from. */
+export interface ReplaySource {
+  decisionsFile?: string; // JSONL of decisions; default is the ledger
+  marketsFile?: string; // resolved-market corpus; default is RESOLVED_MARKETS_FILE if present
+  venue?: LiveVenueName; // also takes its paper account's decisions
+}
+
+/**
+ * Replayable decisions with a known outcome, oldest first, and the outcomes.
+ */
+export function loadReplayData(source: ReplaySource): { decisions: TradeDecision[]; outcomes: Map<string, KnownOutcome> } {
+  if (source.decisionsFile && !existsSync(source.decisionsFile)) {
+    throw new Error(`Decisions file not found: ${source.decisionsFile}`);
+  }
+  if (source.marketsFile && !existsSync(source.marketsFile)) {
+    throw new Error(`Markets file not found: ${source.marketsFile}`);
+  }
+  const all = source.decisionsFile ? readJsonl(source.decisionsFile, "decision") : loadDecisions();
+  const outcomes = loadOutcomes(source.marketsFile ?? RESOLVED_MARKETS_FILE);
+  const decisions = replayableDecisions(all)
+    .filter((d) => (!source.venue || liveVenueName(d.venue) === source.venue) && outcomes.has(d.marketId));
+  return { decisions, outcomes };
+}
+
+export interface BacktestOptions extends ReplaySource {
+  grid: BacktestGrid;
+  bankroll: number;
+}
+
+/**
+ * `backtest` command — replay every parameter set in the grid and print one
+ * row per set, best P&L first.
+ */
+export function runBacktest(config: Config, options: BacktestOptions): BacktestResult[] {
+  const { decisions, outcomes } = loadReplayData(options);
+  const markets = new Set(decisions.map((d) => d.marketId)).size;
+  logInfo(`Replaying ${decisions.length} decision(s) on ${markets} resolved market(s) from a bankroll of ${options.bankroll}`);
+  if (decisions.length === 0) return [];
+
+  const results = paramGrid(config, options.grid)
+    .map((params) => replay(decisions, outcomes, config, params, options.bankroll))
+    .sort((a, b) => b.pnl - a.pnl);
+
+  console.log("\n=== Backtest ===\n");
+  console.log("Edge   | Kelly | MaxPos | Bets | Win%  | Staked   | P&L       | ROI     | Brier  | MaxDD");
+  console.log("-".repeat(92));
+  for (const r of results) {
+    const { edgeThreshold, kellyFraction, maxPositionPct } = r.params;
+    console.log(
+      `${edgeThreshold.toFixed(3).padEnd(6)} | ${kellyFraction.toFixed(2).padEnd(5)} | ${maxPositionPct.toFixed(2).padEnd(6)} | ` +
+        `${String(r.bets).padStart(4)} | ${(r.bets > 0 ? (r.wins / r.bets) * 100 : 0).toFixed(1).padStart(5)} | ` +
+        `${r.staked.toFixed(0).padStart(8)} | ${((r.pnl >= 0 ? "+" : "") + r.pnl.toFixed(2)).padStart(9)} | ` +
+        `${((r.roi * 100).toFixed(1) + "%").padStart(7)} | ${r.brier.toFixed(4)} | ${(r.maxDrawdown * 100).toFixed(1)}%`
+    );
+  }
+  console.log("");
+  return results;
+}
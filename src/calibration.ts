@@ -18,6 +18,16 @@ export function computeCalibration(resolutions: Resolution[]): CalibrationReport
   const buckets = computeBuckets(valid);
   const byConfidence = computeByConfidence(valid);
   const recentTrend = computeRecentTrend(valid);
+  const bySource = {
+    claude: groupStats(valid.filter((r) => !r.oracle)),
+    oracle: groupStats(valid.filter((r) => r.oracle)),
+  };
+  const recalibrated = valid.filter((r) => r.rawBrierScore !== undefined);
+  const recalibration = {
+    count: recalibrated.length,
+    avgBrier: average(recalibrated.map((r) => r.brierScore)),
+    avgRawBrier: average(recalibrated.map((r) => r.rawBrierScore!)),
+  };
 
   return {
     totalResolved,
@@ -28,9 +38,15 @@ export function computeCalibration(resolutions: Resolution[]): CalibrationReport
     buckets,
     byConfidence,
     recentTrend,
+    bySource,
+    recalibration,
   };
 }
 
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
 function computeBuckets(resolutions: Resolution[]): CalibrationBucket[] {
   const buckets: CalibrationBucket[] = [];
 
@@ -76,24 +92,27 @@ function computeByConfidence(
   const result = {} as CalibrationReport["byConfidence"];
 
   for (const level of levels) {
-    const group = resolutions.filter((r) => r.confidence === level);
-    const count = group.length;
-    const wins = group.filter((r) => r.won).length;
-    const winRate = count > 0 ? wins / count : 0;
-    const avgBrier =
-      count > 0
-        ? group.reduce((sum, r) => sum + r.brierScore, 0) / count
-        : 0;
-    const wagered = group.reduce((sum, r) => sum + r.amount, 0);
-    const pnl = group.reduce((sum, r) => sum + r.pnl, 0);
-    const roi = wagered > 0 ? pnl / wagered : 0;
-
-    result[level] = { count, winRate, avgBrier, roi };
+    result[level] = groupStats(resolutions.filter((r) => r.confidence === level));
   }
 
   return result;
 }
 
+function groupStats(group: Resolution[]): { count: number; winRate: number; avgBrier: number; roi: number } {
+  const count = group.length;
+  const wins = group.filter((r) => r.won).length;
+  const winRate = count > 0 ? wins / count : 0;
+  const avgBrier =
+    count > 0
+      ? group.reduce((sum, r) => sum + r.brierScore, 0) / count
+      : 0;
+  const wagered = group.reduce((sum, r) => sum + r.amount, 0);
+  const pnl = group.reduce((sum, r) => sum + r.pnl, 0);
+  const roi = wagered > 0 ? pnl / wagered : 0;
+
+  return { count, winRate, avgBrier, roi };
+}
+
 function computeRecentTrend(
   resolutions: Resolution[]
 ): CalibrationReport["recentTrend"] {
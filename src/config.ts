@@ -1,5 +1,7 @@
 import "dotenv/config";
-import type { Config } from "./types.js";
+import type { Config, Confidence, VenueName } from "./types.js";
+import { loadExitRules } from "./exit-rules.js";
+import { VENUE_NAMES, PAPER_VENUE_NAMES } from "./venue.js";
 
 function requireEnv(key: string): string {
   const val = process.env[key];
@@ -23,6 +25,14 @@ function envFloatRange(key: string, fallback: number, min: number, max: number):
   return n;
 }
 
+function envFloatMin(key: string, fallback: number, min: number): number {
+  const n = envFloat(key, fallback);
+  if (n < min) {
+    throw new Error(`${key} must be >= ${min}, got ${n}`);
+  }
+  return n;
+}
+
 function envInt(key: string, fallback: number): number {
   const val = process.env[key];
   if (!val) return fallback;
@@ -45,17 +55,98 @@ function envBool(key: string, fallback: boolean): boolean {
   return val === "true" || val === "1";
 }
 
+function envList(key: string, fallback: string[]): string[] {
+  const val = process.env[key];
+  if (val === undefined) return fallback;
+  return val.split(",").map((s) => s.trim()).filter(Boolean);
+}
+
+/**
+ * Per-venue amounts written as `venue:amount` pairs, e.g. `polymarket:100,paper-kalshi:50`.
+ */
+function envVenueAmounts(key: string): Partial<Record<VenueName, number>> {
+  const names: VenueName[] = [...VENUE_NAMES, ...PAPER_VENUE_NAMES];
+  const amounts: Partial<Record<VenueName, number>> = {};
+  for (const entry of envList(key, [])) {
+    const [venue, amount] = entry.split(":").map((s) => s.trim());
+    const n = parseFloat(amount ?? "");
+    if (!names.includes(venue as VenueName) || isNaN(n) || n < 0) {
+      throw new Error(`Invalid ${key} entry "${entry}" (expected venue:amount with venue one of ${names.join(", ")})`);
+    }
+    amounts[venue as VenueName] = n;
+  }
+  return amounts;
+}
+
+/**
+ * EDGE_THRESHOLD_LOW / _MEDIUM / _HIGH: thresholds for estimates of that
+ * confidence, in the same units as EDGE_THRESHOLD. Unset levels use EDGE_THRESHOLD.
+ */
+function envConfidenceThresholds(edgeMode: Config["edgeMode"]): Config["edgeThresholdByConfidence"] {
+  const thresholds: Config["edgeThresholdByConfidence"] = {};
+  for (const level of ["low", "medium", "high"] as Confidence[]) {
+    const key = `EDGE_THRESHOLD_${level.toUpperCase()}`;
+    if (!process.env[key]) continue;
+    thresholds[level] = edgeMode === "raw" ? envFloatRange(key, 0, 0, 1) : envFloatMin(key, 0, 0);
+  }
+  return thresholds;
+}
+
 export function loadConfig(): Config {
+  const edgeMode = process.env.EDGE_THRESHOLD_MODE || "raw";
+  if (edgeMode !== "raw" && edgeMode !== "annualized") {
+    throw new Error(`EDGE_THRESHOLD_MODE must be raw or annualized, got ${edgeMode}`);
+  }
+  const manifoldOrderType = process.env.MANIFOLD_ORDER_TYPE || "market";
+  if (manifoldOrderType !== "market" && manifoldOrderType !== "limit") {
+    throw new Error(`MANIFOLD_ORDER_TYPE must be market or limit, got ${manifoldOrderType}`);
+  }
+  const polyOrderType = process.env.POLY_ORDER_TYPE || "fok";
+  if (polyOrderType !== "fok" && polyOrderType !== "gtc" && polyOrderType !== "gtd") {
+    throw new Error(`POLY_ORDER_TYPE must be fok, gtc or gtd, got ${polyOrderType}`);
+  }
+  const oracleMode = process.env.ORACLE_MODE || "off";
+  if (oracleMode !== "off" && oracleMode !== "blend" && oracleMode !== "replace") {
+    throw new Error(`ORACLE_MODE must be off, blend or replace, got ${oracleMode}`);
+  }
+  const recalibration = process.env.RECALIBRATION || "off";
+  if (recalibration !== "off" && recalibration !== "platt" && recalibration !== "isotonic") {
+    throw new Error(`RECALIBRATION must be off, platt or isotonic, got ${recalibration}`);
+  }
+  const recalibrationBy = envList("RECALIBRATION_BY", []);
+  for (const group of recalibrationBy) {
+    if (group !== "category" && group !== "confidence") {
+      throw new Error(`RECALIBRATION_BY takes category and/or confidence, got ${group}`);
+    }
+  }
+  const paperFills = process.env.PAPER_FILLS || "live";
+  if (paperFills !== "live" && paperFills !== "recorded") {
+    throw new Error(`PAPER_FILLS must be live or recorded, got ${paperFills}`);
+  }
+
   return {
     manifoldApiKey: process.env.MANIFOLD_API_KEY || "",
     anthropicApiKey: requireEnv("ANTHROPIC_API_KEY"),
     dryRun: envBool("DRY_RUN", true),
-    edgeThreshold: envFloatRange("EDGE_THRESHOLD", 0.1, 0, 1),
+    edgeMode,
+    // Raw edge is a probability; annualized return can be any positive multiple
+    edgeThreshold: edgeMode === "raw"
+      ? envFloatRange("EDGE_THRESHOLD", 0.1, 0, 1)
+      : envFloatMin("EDGE_THRESHOLD", 0.1, 0),
+    edgeThresholdByConfidence: envConfidenceThresholds(edgeMode),
     kellyFraction: envFloatRange("KELLY_FRACTION", 0.25, 0, 1),
     maxPositionPct: envFloatRange("MAX_POSITION_PCT", 0.2, 0, 1),
     maxBetAmount: envIntMin("MAX_BET_AMOUNT", 50, 1),
     minLiquidity: envIntMin("MIN_LIQUIDITY", 100, 0),
     maxMarketsPerRun: envIntMin("MAX_MARKETS_PER_RUN", 20, 1),
+    portfolioMaxPct: envFloatRange("PORTFOLIO_MAX_PCT", 0.5, 0, 1),
+    portfolioCorrelation: envBool("PORTFOLIO_CORRELATION", true),
+    oracleMode,
+    oracleWeight: envFloatRange("ORACLE_WEIGHT", 0.7, 0, 1),
+    multiOutcome: envBool("MULTI_OUTCOME", false),
+    manifoldOrderType,
+    manifoldLimitOffset: envFloatRange("MANIFOLD_LIMIT_OFFSET", 0.02, 0, 1),
+    manifoldLimitExpiryHours: envFloatMin("MANIFOLD_LIMIT_EXPIRY_HOURS", 24, 0),
     claudeModel: process.env.CLAUDE_MODEL || "claude-sonnet-4-20250514",
     // Polymarket
     polyPrivateKey: process.env.POLY_PRIVATE_KEY || undefined,
@@ -65,5 +156,53 @@ export function loadConfig(): Config {
     polyMinLiquidity: envIntMin("POLY_MIN_LIQUIDITY", 5000, 0),
     polyMaxMarketsPerRun: envIntMin("POLY_MAX_MARKETS_PER_RUN", 20, 1),
     polyMaxBetAmount: envIntMin("POLY_MAX_BET_AMOUNT", 25, 1),
+    polyBankrollReserve: envFloatMin("POLY_BANKROLL_RESERVE", 5, 0),
+    polyRedeemGas: envFloatMin("POLY_REDEEM_GAS", 0.01, 0),
+    polyOrderType,
+    polyLimitFraction: envFloatRange("POLY_LIMIT_FRACTION", 0.25, 0, 1),
+    polyGtdExpiryHours: envFloatMin("POLY_GTD_EXPIRY_HOURS", 24, 0),
+    polyOrderMaxAgeHours: envFloatMin("POLY_ORDER_MAX_AGE_HOURS", 12, 0),
+    // Kalshi
+    kalshiApiBase: process.env.KALSHI_API_BASE || undefined,
+    kalshiApiKeyId: process.env.KALSHI_API_KEY_ID || undefined,
+    kalshiPrivateKeyPath: process.env.KALSHI_PRIVATE_KEY_PATH || undefined,
+    kalshiSeries: envList("KALSHI_SERIES", ["KXBTCD", "KXETHD", "KXFED"]),
+    kalshiMinVolume24hr: envIntMin("KALSHI_MIN_VOLUME_24HR", 500, 0),
+    kalshiMaxMarketsPerRun: envIntMin("KALSHI_MAX_MARKETS_PER_RUN", 20, 1),
+    kalshiMaxBetAmount: envIntMin("KALSHI_MAX_BET_AMOUNT", 25, 1),
+    kalshiTakerFee: envFloatRange("KALSHI_TAKER_FEE", 0.07, 0, 1),
+    // Seller
+    exitRules: loadExitRules(process.env.EXIT_RULES_FILE || undefined),
+    sellReevaluate: envBool("SELL_REEVALUATE", false),
+    // Risk
+    risk: {
+      tradingEnabled: envBool("TRADING_ENABLED", true),
+      killSwitchFile: process.env.KILL_SWITCH_FILE || "KILL_SWITCH",
+      maxDailyLoss: envVenueAmounts("RISK_MAX_DAILY_LOSS"),
+      maxOpenPositions: envIntMin("RISK_MAX_OPEN_POSITIONS", 0, 0),
+      maxVenueExposure: envVenueAmounts("RISK_MAX_VENUE_EXPOSURE"),
+      maxMarketExposure: envVenueAmounts("RISK_MAX_MARKET_EXPOSURE"),
+    },
+    // Arbitrage
+    arbMinSimilarity: envFloatRange("ARB_MIN_SIMILARITY", 0.5, 0, 1),
+    arbMaxCloseGapDays: envFloatMin("ARB_MAX_CLOSE_GAP_DAYS", 7, 0),
+    arbMinGap: envFloatRange("ARB_MIN_GAP", 0.03, 0, 1),
+    arbMaxMarkets: envIntMin("ARB_MAX_MARKETS", 50, 1),
+    // Market making
+    mmHalfSpread: envFloatRange("MM_HALF_SPREAD", 0.02, 0.01, 0.5),
+    mmMaxSkew: envFloatRange("MM_MAX_SKEW", 0.02, 0, 0.5),
+    mmQuoteSize: envFloatMin("MM_QUOTE_SIZE", 10, 1),
+    mmMaxInventory: envFloatMin("MM_MAX_INVENTORY", 100, 1),
+    mmPullHours: envFloatMin("MM_PULL_HOURS", 24, 0),
+    mmPullMove: envFloatRange("MM_PULL_MOVE", 0.05, 0, 1),
+    mmIntervalSeconds: envIntMin("MM_INTERVAL_SECONDS", 60, 5),
+    mmMaxMarkets: envIntMin("MM_MAX_MARKETS", 5, 1),
+    // Paper trading
+    paperBankroll: envFloatMin("PAPER_BANKROLL", 1000, 0),
+    paperFills,
+    // Recalibration
+    recalibration,
+    recalibrationBy: recalibrationBy as Config["recalibrationBy"],
+    recalibrationMinSamples: envIntMin("RECALIBRATION_MIN_SAMPLES", 50, 2),
   };
 }
@@ -0,0 +1,83 @@
+/**
+ * Manifold CPMM math — pure functions over a market's pool state.
+ *
+ * Manifold binary markets (mechanism "cpmm-1") hold a pool of YES and NO
+ * shares and keep y^p · n^(1-p) constant. Buying YES with M$A mints A YES+NO
+ * pairs into the pool and takes out enough YES shares to restore the
+ * invariant; buying NO is symmetric. Fees are not modelled.
+ */
+
+export interface CpmmState {
+  pool: { YES: number; NO: number };
+  p: number;
+}
+
+/**
+ * Market probability implied by the pool.
+ */
+export function cpmmProbability({ pool, p }: CpmmState): number {
+  return (p * pool.NO) / (p * pool.NO + (1 - p) * pool.YES);
+}
+
+function invariant({ pool, p }: CpmmState): number {
+  return pool.YES ** p * pool.NO ** (1 - p);
+}
+
+/**
+ * Shares received for spending `amount` on `outcome`, and the state after.
+ */
+export function cpmmBuy(
+  state: CpmmState,
+  outcome: "YES" | "NO",
+  amount: number,
+): { shares: number; probAfter: number; after: CpmmState } {
+  const { pool, p } = state;
+  const k = invariant(state);
+
+  let after: CpmmState;
+  let shares: number;
+  if (outcome === "YES") {
+    const no = pool.NO + amount;
+    const yes = (k / no ** (1 - p)) ** (1 / p);
+    shares = pool.YES + amount - yes;
+    after = { pool: { YES: yes, NO: no }, p };
+  } else {
+    const yes = pool.YES + amount;
+    const no = (k / yes ** p) ** (1 / (1 - p));
+    shares = pool.NO + amount - no;
+    after = { pool: { YES: yes, NO: no }, p };
+  }
+
+  return { shares, probAfter: cpmmProbability(after), after };
+}
+
+/**
+ * Mana received for selling `shares` of `outcome` back to the pool.
+ *
+ * Selling puts the shares into the pool and redeems M$ as YES+NO pairs until
+ * the invariant holds again. There's no closed form for general p, so we
+ * bisect on the amount redeemed.
+ */
+export function cpmmSell(
+  state: CpmmState,
+  outcome: "YES" | "NO",
+  shares: number,
+): { proceeds: number; probAfter: number } {
+  const { pool, p } = state;
+  const k = invariant(state);
+  const poolAfter = (amount: number) =>
+    outcome === "YES"
+      ? { YES: pool.YES + shares - amount, NO: pool.NO - amount }
+      : { YES: pool.YES - amount, NO: pool.NO + shares - amount };
+
+  // invariant(poolAfter(A)) falls as A grows; it's above k at 0 and below at the upper bound
+  let lo = 0;
+  let hi = Math.min(shares, outcome === "YES" ? pool.NO : pool.YES);
+  for (let i = 0; i < 100; i++) {
+    const mid = (lo + hi) / 2;
+    if (invariant({ pool: poolAfter(mid), p }) > k) lo = mid;
+    else hi = mid;
+  }
+
+  return { proceeds: lo, probAfter: cpmmProbability({ pool: poolAfter(lo), p }) };
+}
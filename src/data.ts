@@ -1,9 +1,32 @@
-import { readFileSync, mkdirSync, existsSync, appendFileSync } from "fs";
+/**
+ * Trade ledger — an embedded SQLite database (node:sqlite) in data/.
+ *
+ * Each table keeps the full record as JSON plus the columns we filter and join
+ * on (traceId, marketId, venue, action), so commands can ask for just the rows
+ * they need instead of re-reading every file. The legacy append-only JSONL
+ * files are still readable for the one-shot importer.
+ */
+
+import { readFileSync, mkdirSync, existsSync, appendFileSync, rmSync } from "fs";
 import { join, dirname } from "path";
 import { fileURLToPath } from "url";
+import { DatabaseSync } from "node:sqlite";
+import type {
+  TradeDecision,
+  TradeExecution,
+  Resolution,
+  PositionSnapshot,
+  PendingOrder,
+  OpenOrder,
+  ArbPair,
+  VenueName,
+} from "./types.js";
+import { isFilledTrade } from "./positions.js";
+import { parseRecord, SchemaError, SCHEMA_VERSION, type RecordKind, type RecordTypes } from "./schema.js";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
-const DATA_DIR = join(__dirname, "..", "data");
+export const DATA_DIR = join(__dirname, "..", "data");
+export const DB_FILE = process.env.POLYEDGE_DB ?? join(DATA_DIR, "polyedge.db");
 export const DECISIONS_FILE = join(DATA_DIR, "decisions.jsonl");
 export const TRADES_FILE = join(DATA_DIR, "trades.jsonl");
 export const RESOLUTIONS_FILE = join(DATA_DIR, "resolutions.jsonl");
@@ -11,16 +34,21 @@ export const SNAPSHOTS_FILE = join(DATA_DIR, "snapshots.jsonl");
 
 mkdirSync(DATA_DIR, { recursive: true });
 
-export function readJsonl<T>(filePath: string): T[] {
+// === JSONL (legacy files) ===
+
+/**
+ * Raw JSON objects from a JSONL file, unvalidated. Malformed lines are skipped.
+ */
+export function readJsonlRaw(filePath: string): Record<string, unknown>[] {
   if (!existsSync(filePath)) return [];
   const content = readFileSync(filePath, "utf-8").trim();
   if (!content) return [];
-  const results: T[] = [];
+  const results: Record<string, unknown>[] = [];
   for (const line of content.split("\n")) {
     const trimmed = line.trim();
     if (!trimmed) continue;
     try {
-      results.push(JSON.parse(trimmed) as T);
+      results.push(JSON.parse(trimmed));
     } catch {
       process.stderr.write(`Warning: skipping malformed JSONL line in ${filePath}\n`);
     }
@@ -28,6 +56,445 @@ export function readJsonl<T>(filePath: string): T[] {
   return results;
 }
 
+/**
+ * Records from a JSONL file, migrated to the current schema and validated.
+ * Records that fail validation are skipped with a warning.
+ */
+export function readJsonl<K extends RecordKind>(filePath: string, kind: K): RecordTypes[K][] {
+  return readJsonlRaw(filePath).flatMap((raw) => tryParse(kind, raw, filePath));
+}
+
 export function appendJsonl(filePath: string, record: unknown): void {
   appendFileSync(filePath, JSON.stringify(record) + "\n", "utf-8");
 }
+
+// === Database ===
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS decisions (
+  id        INTEGER PRIMARY KEY AUTOINCREMENT,
+  traceId   TEXT NOT NULL,
+  timestamp TEXT NOT NULL,
+  venue     TEXT NOT NULL,
+  marketId  TEXT NOT NULL,
+  action    TEXT NOT NULL,
+  record    TEXT NOT NULL,
+  UNIQUE (traceId, timestamp)
+);
+CREATE INDEX IF NOT EXISTS idx_decisions_trace  ON decisions(traceId);
+CREATE INDEX IF NOT EXISTS idx_decisions_market ON decisions(marketId);
+
+CREATE TABLE IF NOT EXISTS trades (
+  id        INTEGER PRIMARY KEY AUTOINCREMENT,
+  traceId   TEXT NOT NULL,
+  timestamp TEXT NOT NULL,
+  venue     TEXT NOT NULL,
+  marketId  TEXT NOT NULL,
+  action    TEXT NOT NULL,          -- BUY | SELL
+  dryRun    INTEGER NOT NULL,
+  record    TEXT NOT NULL,
+  UNIQUE (traceId, timestamp, action)
+);
+CREATE INDEX IF NOT EXISTS idx_trades_trace  ON trades(traceId);
+CREATE INDEX IF NOT EXISTS idx_trades_market ON trades(marketId);
+
+CREATE TABLE IF NOT EXISTS resolutions (
+  id         INTEGER PRIMARY KEY AUTOINCREMENT,
+  traceId    TEXT NOT NULL UNIQUE,
+  resolvedAt TEXT NOT NULL,
+  venue      TEXT NOT NULL,
+  marketId   TEXT NOT NULL,
+  record     TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_resolutions_market ON resolutions(marketId);
+
+CREATE TABLE IF NOT EXISTS snapshots (
+  id        INTEGER PRIMARY KEY AUTOINCREMENT,
+  traceId   TEXT NOT NULL,
+  timestamp TEXT NOT NULL,
+  marketId  TEXT NOT NULL,
+  record    TEXT NOT NULL,
+  UNIQUE (traceId, timestamp)
+);
+CREATE INDEX IF NOT EXISTS idx_snapshots_market ON snapshots(marketId);
+
+CREATE TABLE IF NOT EXISTS arb_pairs (
+  manifoldId   TEXT NOT NULL,
+  polymarketId TEXT NOT NULL,
+  equivalent   INTEGER NOT NULL,
+  checkedAt    TEXT NOT NULL,
+  record       TEXT NOT NULL,
+  PRIMARY KEY (manifoldId, polymarketId)
+);
+
+CREATE TABLE IF NOT EXISTS pending_orders (
+  key       TEXT PRIMARY KEY,       -- idempotency key sent with the order
+  traceId   TEXT NOT NULL,
+  venue     TEXT NOT NULL,
+  createdAt TEXT NOT NULL,
+  decision  TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS open_orders (
+  orderId   TEXT PRIMARY KEY,       -- venue's id for the resting order
+  traceId   TEXT NOT NULL,
+  venue     TEXT NOT NULL,
+  marketId  TEXT NOT NULL,
+  createdAt TEXT NOT NULL,
+  decision  TEXT NOT NULL,
+  record    TEXT NOT NULL           -- OpenOrder without the decision
+);
+`;
+
+let db: DatabaseSync | undefined;
+
+function getDb(): DatabaseSync {
+  if (!db) {
+    db = new DatabaseSync(DB_FILE);
+    db.exec("PRAGMA journal_mode = WAL");
+    db.exec(SCHEMA);
+  }
+  return db;
+}
+
+/**
+ * Run `fn` inside a transaction — all writes land or none do.
+ */
+export function transaction<T>(fn: () => T): T {
+  const conn = getDb();
+  conn.exec("BEGIN");
+  try {
+    const result = fn();
+    conn.exec("COMMIT");
+    return result;
+  } catch (err) {
+    conn.exec("ROLLBACK");
+    throw err;
+  }
+}
+
+function tryParse<K extends RecordKind>(
+  kind: K,
+  raw: unknown,
+  source: string,
+  related?: Record<string, unknown>
+): RecordTypes[K][] {
+  try {
+    return [parseRecord(kind, raw, related)];
+  } catch (err) {
+    if (!(err instanceof SchemaError)) throw err;
+    process.stderr.write(`Warning: skipping record in ${source}: ${err.message}\n`);
+    return [];
+  }
+}
+
+function parseRows<K extends RecordKind>(kind: K, rows: unknown[]): RecordTypes[K][] {
+  return rows.flatMap((r) => {
+    const row = r as { id?: number; record: string };
+    return tryParse(kind, JSON.parse(row.record), `${kind}s${row.id ? ` row ${row.id}` : ""}`);
+  });
+}
+
+function stamp(record: object): string {
+  return JSON.stringify({ ...record, schemaVersion: SCHEMA_VERSION });
+}
+
+// === Writes ===
+
+export function insertDecision(d: TradeDecision, ignoreDuplicate = false): void {
+  getDb()
+    .prepare(`INSERT ${ignoreDuplicate ? "OR IGNORE " : ""}INTO decisions (traceId, timestamp, venue, marketId, action, record) VALUES (?, ?, ?, ?, ?, ?)`)
+    .run(d.traceId, d.timestamp, d.venue, d.marketId, d.action, stamp(d));
+}
+
+export function insertTrade(t: TradeExecution, ignoreDuplicate = false): void {
+  getDb()
+    .prepare(`INSERT ${ignoreDuplicate ? "OR IGNORE " : ""}INTO trades (traceId, timestamp, venue, marketId, action, dryRun, record) VALUES (?, ?, ?, ?, ?, ?, ?)`)
+    .run(t.traceId, t.timestamp, t.venue, t.marketId, t.action ?? "BUY", t.dryRun ? 1 : 0, stamp(t));
+}
+
+export function insertResolution(r: Resolution, ignoreDuplicate = false): void {
+  getDb()
+    .prepare(`INSERT ${ignoreDuplicate ? "OR IGNORE " : ""}INTO resolutions (traceId, resolvedAt, venue, marketId, record) VALUES (?, ?, ?, ?, ?)`)
+    .run(r.traceId, r.resolvedAt, r.venue, r.marketId, stamp(r));
+}
+
+export function insertSnapshot(s: PositionSnapshot, ignoreDuplicate = false): void {
+  getDb()
+    .prepare(`INSERT ${ignoreDuplicate ? "OR IGNORE " : ""}INTO snapshots (traceId, timestamp, marketId, record) VALUES (?, ?, ?, ?)`)
+    .run(s.traceId, s.timestamp, s.marketId, stamp(s));
+}
+
+/**
+ * Rewrite a trade row in place, keyed on (traceId, timestamp, action).
+ * Only reconcile and limit-order fills use this — everything else appends.
+ */
+export function amendTrade(t: TradeExecution): void {
+  getDb()
+    .prepare("UPDATE trades SET record = ? WHERE traceId = ? AND timestamp = ? AND action = ?")
+    .run(stamp(t), t.traceId, t.timestamp, t.action ?? "BUY");
+}
+
+// === Pending-order journal ===
+
+export function insertPendingOrder(p: PendingOrder): void {
+  getDb()
+    .prepare("INSERT INTO pending_orders (key, traceId, venue, createdAt, decision) VALUES (?, ?, ?, ?, ?)")
+    .run(p.key, p.decision.traceId, p.venue, p.createdAt, stamp(p.decision));
+}
+
+export function deletePendingOrder(key: string): void {
+  getDb().prepare("DELETE FROM pending_orders WHERE key = ?").run(key);
+}
+
+export function loadPendingOrders(): PendingOrder[] {
+  const rows = getDb()
+    .prepare("SELECT key, venue, createdAt, decision FROM pending_orders ORDER BY createdAt")
+    .all() as { key: string; venue: string; createdAt: string; decision: string }[];
+  return rows.flatMap((r) =>
+    tryParse("decision", JSON.parse(r.decision), `pending order ${r.key}`).map((decision) => ({
+      key: r.key,
+      venue: decision.venue,
+      createdAt: r.createdAt,
+      decision,
+    }))
+  );
+}
+
+// === Resting limit orders ===
+
+export function saveOpenOrder(o: OpenOrder): void {
+  const { decision, ...rest } = o;
+  getDb()
+    .prepare("INSERT OR REPLACE INTO open_orders (orderId, traceId, venue, marketId, createdAt, decision, record) VALUES (?, ?, ?, ?, ?, ?, ?)")
+    .run(o.orderId, decision.traceId, o.venue, decision.marketId, o.createdAt, stamp(decision), JSON.stringify(rest));
+}
+
+export function deleteOpenOrder(orderId: string): void {
+  getDb().prepare("DELETE FROM open_orders WHERE orderId = ?").run(orderId);
+}
+
+export function loadOpenOrders(venue?: VenueName): OpenOrder[] {
+  const rows = getDb()
+    .prepare("SELECT orderId, decision, record FROM open_orders WHERE ? IS NULL OR venue = ? ORDER BY createdAt")
+    .all(venue ?? null, venue ?? null) as { orderId: string; decision: string; record: string }[];
+  return rows.flatMap((r) =>
+    tryParse("decision", JSON.parse(r.decision), `open order ${r.orderId}`).map((decision) => ({
+      ...(JSON.parse(r.record) as Omit<OpenOrder, "decision">),
+      decision,
+    }))
+  );
+}
+
+// === Arbitrage pairs ===
+
+export function saveArbPair(p: ArbPair): void {
+  getDb()
+    .prepare("INSERT OR REPLACE INTO arb_pairs (manifoldId, polymarketId, equivalent, checkedAt, record) VALUES (?, ?, ?, ?, ?)")
+    .run(p.manifoldId, p.polymarketId, p.equivalent ? 1 : 0, p.checkedAt, JSON.stringify(p));
+}
+
+export function getArbPair(manifoldId: string, polymarketId: string): ArbPair | undefined {
+  const row = getDb()
+    .prepare("SELECT record FROM arb_pairs WHERE manifoldId = ? AND polymarketId = ?")
+    .get(manifoldId, polymarketId) as { record: string } | undefined;
+  return row ? JSON.parse(row.record) as ArbPair : undefined;
+}
+
+/**
+ * The Polymarket market confirmed to resolve like a Manifold market, if any.
+ */
+export function findConfirmedPolymarketId(manifoldId: string): string | undefined {
+  const row = getDb()
+    .prepare("SELECT polymarketId FROM arb_pairs WHERE manifoldId = ? AND equivalent = 1 ORDER BY checkedAt DESC LIMIT 1")
+    .get(manifoldId) as { polymarketId: string } | undefined;
+  return row?.polymarketId;
+}
+
+// === Queries ===
+
+export function loadDecisions(): TradeDecision[] {
+  return parseRows("decision", getDb().prepare("SELECT id, record FROM decisions ORDER BY id").all());
+}
+
+/**
+ * The original decision for a traceId (earliest if re-evaluated).
+ */
+export function getDecision(traceId: string): TradeDecision | undefined {
+  const row = getDb()
+    .prepare("SELECT id, record FROM decisions WHERE traceId = ? ORDER BY id LIMIT 1")
+    .get(traceId);
+  return row ? parseRows("decision", [row])[0] : undefined;
+}
+
+export function loadTrades(): TradeExecution[] {
+  return parseRows("trade", getDb().prepare("SELECT id, record FROM trades ORDER BY id").all());
+}
+
+export function loadResolutions(): Resolution[] {
+  return parseRows("resolution", getDb().prepare("SELECT id, record FROM resolutions ORDER BY id").all());
+}
+
+/**
+ * Filled buys that have neither resolved nor been sold.
+ * SELL records share the traceId of the position they closed.
+ */
+export function loadOpenTrades(venue?: VenueName): TradeExecution[] {
+  const rows = getDb().prepare(`
+    SELECT t.id, t.record FROM trades t
+    WHERE t.action = 'BUY' AND t.dryRun = 0
+      AND (? IS NULL OR t.venue = ?)
+      AND NOT EXISTS (SELECT 1 FROM resolutions r WHERE r.traceId = t.traceId)
+      AND NOT EXISTS (SELECT 1 FROM trades s WHERE s.traceId = t.traceId AND s.action = 'SELL')
+    ORDER BY t.id
+  `).all(venue ?? null, venue ?? null);
+  return parseRows("trade", rows).filter(isFilledTrade);
+}
+
+/**
+ * Markets on `venue` with a live (non-errored, unresolved) buy or a resting
+ * order — scan skips these.
+ */
+export function loadHeldMarketIds(venue: VenueName): Set<string> {
+  const rows = getDb().prepare(`
+    SELECT DISTINCT t.marketId FROM trades t
+    WHERE t.venue = ? AND t.dryRun = 0
+      AND json_extract(t.record, '$.result.error') IS NULL
+      AND NOT EXISTS (SELECT 1 FROM resolutions r WHERE r.traceId = t.traceId)
+    UNION
+    SELECT marketId FROM open_orders WHERE venue = ?
+  `).all(venue, venue) as { marketId: string }[];
+  return new Set(rows.map((r) => r.marketId));
+}
+
+export function latestSnapshot(traceId: string): PositionSnapshot | undefined {
+  const row = getDb()
+    .prepare("SELECT id, record FROM snapshots WHERE traceId = ? ORDER BY timestamp DESC LIMIT 1")
+    .get(traceId);
+  return row ? parseRows("snapshot", [row])[0] : undefined;
+}
+
+/**
+ * Unrealized P&L from the last snapshot taken at or before `at`, if any.
+ */
+export function unrealizedPnlAt(traceId: string, at: string): number | undefined {
+  const row = getDb()
+    .prepare("SELECT json_extract(record, '$.unrealizedPnl') AS pnl FROM snapshots WHERE traceId = ? AND timestamp <= ? ORDER BY timestamp DESC LIMIT 1")
+    .get(traceId, at) as { pnl: number } | undefined;
+  return row?.pnl;
+}
+
+/**
+ * Live positions on `venue` closed since `since` — sold or resolved — with
+ * their realized P&L.
+ */
+export function loadClosedSince(venue: VenueName, since: string): { traceId: string; pnl: number }[] {
+  return getDb().prepare(`
+    SELECT traceId, json_extract(record, '$.realizedPnl') AS pnl FROM trades
+    WHERE venue = ? AND action = 'SELL' AND dryRun = 0 AND timestamp >= ?
+    UNION ALL
+    SELECT traceId, json_extract(record, '$.pnl') AS pnl FROM resolutions
+    WHERE venue = ? AND resolvedAt >= ?
+  `).all(venue, since, venue, since) as { traceId: string; pnl: number }[];
+}
+
+/**
+ * Highest unrealized P&L recorded for a position, for trailing stops.
+ */
+export function peakUnrealizedPnl(traceId: string): number | undefined {
+  const row = getDb()
+    .prepare("SELECT MAX(json_extract(record, '$.unrealizedPnl')) AS peak FROM snapshots WHERE traceId = ?")
+    .get(traceId) as { peak: number | null } | undefined;
+  return row?.peak ?? undefined;
+}
+
+/**
+ * Downsample hourly snapshots older than `keepHourlyDays` to the last one per
+ * position per day, so the table stops growing by one row per position per hour.
+ */
+export function compactSnapshots(keepHourlyDays = 7): number {
+  const cutoff = new Date(Date.now() - keepHourlyDays * 24 * 60 * 60 * 1000).toISOString();
+  const result = getDb().prepare(`
+    DELETE FROM snapshots
+    WHERE timestamp < ?
+      AND id NOT IN (
+        SELECT MAX(id) FROM snapshots WHERE timestamp < ?
+        GROUP BY traceId, substr(timestamp, 1, 10)
+      )
+  `).run(cutoff, cutoff);
+  return Number(result.changes);
+}
+
+// === Import ===
+
+/**
+ * One-shot import of the legacy JSONL files into the ledger. Safe to re-run:
+ * rows already present (same traceId + timestamp) are skipped.
+ */
+export function importJsonlFiles(): Record<"decisions" | "trades" | "resolutions" | "snapshots", number> {
+  const decisions = readJsonl(DECISIONS_FILE, "decision");
+  // Old SELL rows lack estimate/edge — borrow them from the BUY they closed
+  const rawTrades = readJsonlRaw(TRADES_FILE);
+  const buys = new Map(rawTrades.filter((t) => t.action !== "SELL").reverse().map((t) => [t.traceId, t]));
+  const trades = rawTrades.flatMap((t) =>
+    tryParse("trade", t, TRADES_FILE, t.action === "SELL" ? buys.get(t.traceId) : undefined)
+  );
+  const resolutions = readJsonl(RESOLUTIONS_FILE, "resolution");
+  const snapshots = readJsonl(SNAPSHOTS_FILE, "snapshot");
+
+  transaction(() => {
+    for (const d of decisions) insertDecision(d, true);
+    for (const t of trades) insertTrade(t, true);
+    for (const r of resolutions) insertResolution(r, true);
+    for (const s of snapshots) insertSnapshot(s, true);
+  });
+
+  return {
+    decisions: decisions.length,
+    trades: trades.length,
+    resolutions: resolutions.length,
+    snapshots: snapshots.length,
+  };
+}
+
+// === Migration ===
+
+export const LEDGER_TABLES: Record<RecordKind, string> = {
+  decision: "decisions",
+  trade: "trades",
+  resolution: "resolutions",
+  snapshot: "snapshots",
+};
+
+/**
+ * Write a consistent copy of the ledger to `dest` (overwrites).
+ */
+export function backupLedger(dest: string): void {
+  rmSync(dest, { force: true });
+  getDb().prepare("VACUUM INTO ?").run(dest);
+}
+
+/**
+ * Raw (unvalidated) records of one kind, for migration.
+ */
+export function loadRawRecords(kind: RecordKind): { id: number; record: Record<string, unknown> }[] {
+  const rows = getDb()
+    .prepare(`SELECT id, record FROM ${LEDGER_TABLES[kind]} ORDER BY id`)
+    .all() as { id: number; record: string }[];
+  return rows.map((r) => ({ id: r.id, record: JSON.parse(r.record) }));
+}
+
+/**
+ * Replace the stored JSON of one row. Indexed columns are derived from fields
+ * that migrations never change, so only `record` (and `venue`) are rewritten.
+ */
+export function updateRawRecord(kind: RecordKind, id: number, record: Record<string, unknown>): void {
+  const table = LEDGER_TABLES[kind];
+  if (kind === "snapshot") {
+    getDb().prepare(`UPDATE ${table} SET record = ? WHERE id = ?`).run(JSON.stringify(record), id);
+  } else {
+    getDb()
+      .prepare(`UPDATE ${table} SET record = ?, venue = ? WHERE id = ?`)
+      .run(JSON.stringify(record), String(record.venue), id);
+  }
+}
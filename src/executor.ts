@@ -1,96 +1,224 @@
-import type { Config, TradeDecision, TradeExecution } from "./types.js";
-import { placeBet } from "./manifold.js";
-import { createClobClient, placePolyOrder } from "./polymarket.js";
-import { logTrade, logInfo, logError } from "./logger.js";
+import type { Config, OrderFill, TradeDecision, TradeExecution, Venue, VenueName } from "./types.js";
+import { logTrade, logDecision, logInfo, logError } from "./logger.js";
+import { insertPendingOrder, deletePendingOrder, loadPendingOrders, saveOpenOrder, transaction } from "./data.js";
+import { loadRiskState, checkRisk, recordExposure } from "./risk.js";
+
+const MAX_ORDER_ATTEMPTS = 3;
+// Venue clocks drift from ours; look a little further back in order history
+const HISTORY_SLACK_MS = 60_000;
+
+/**
+ * Raised when an order may or may not have executed and the venue's history
+ * couldn't be checked. Its journal entry is kept for the next start to settle.
+ */
+class OrderUncertainError extends Error {}
+
+/**
+ * Client-side idempotency key for the buy that opens `traceId`.
+ */
+export function orderKey(traceId: string): string {
+  return `${traceId}-buy`;
+}
+
+export function toExecution(decision: TradeDecision, venue: Venue, dryRun: boolean, timestamp: string): TradeExecution {
+  return {
+    traceId: decision.traceId,
+    timestamp,
+    marketId: decision.marketId,
+    question: decision.question,
+    direction: decision.direction!,
+    amount: decision.betAmount,
+    marketProb: decision.marketProb,
+    estimate: decision.estimate,
+    edge: decision.edge,
+    dryRun,
+    venue: venue.name,
+    polyTokenId: decision.polyTokenId,
+    groupId: decision.groupId,
+    answerId: decision.answerId,
+    limitProb: decision.limitProb,
+  };
+}
+
+/**
+ * Record a fill on the execution. An accepted order that matched nothing is
+ * logged as an error so it never becomes a position.
+ */
+function applyFill(execution: TradeExecution, fill: OrderFill): void {
+  execution.shares = fill.shares;
+  if (fill.shares === 0) {
+    execution.result = { betId: fill.betId, orderId: fill.orderId, error: "Order not filled" };
+    return;
+  }
+  execution.result = { betId: fill.betId, orderId: fill.orderId };
+  if (fill.cost !== undefined) execution.amount = fill.cost;
+}
+
+/**
+ * Write an order's outcome and clear its journal entry, atomically. A limit
+ * order with a resting remainder is kept as an open order instead; its trade
+ * row is only written once something has filled (see orders.ts).
+ */
+function recordOrder(execution: TradeExecution, decision: TradeDecision, key: string, fill?: OrderFill | null): void {
+  const orderId = fill?.resting ? fill.betId ?? fill.orderId : undefined;
+  transaction(() => {
+    if (orderId) {
+      saveOpenOrder({
+        orderId,
+        venue: execution.venue,
+        createdAt: execution.timestamp,
+        expiresAt: fill!.expiresAt,
+        decision,
+        filledShares: fill!.shares ?? 0,
+        filledCost: fill!.cost ?? 0,
+        tradeTimestamp: fill!.shares ? execution.timestamp : undefined,
+      });
+      if (fill!.shares) logTrade(execution);
+    } else {
+      logTrade(execution);
+    }
+    deletePendingOrder(key);
+  });
+}
+
+/**
+ * Place an order, retrying transient failures only after the venue's history
+ * shows the previous attempt did not land. A 4xx is a definitive rejection
+ * and is never retried.
+ */
+async function placeOnce(venue: Venue, decision: TradeDecision, key: string, since: Date): Promise<OrderFill> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await venue.placeOrder(decision, key);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      if (/\b4\d\d\b/.test(msg)) throw err;
+
+      let landed: OrderFill | null;
+      try {
+        landed = await venue.findFill(decision, key, since);
+      } catch (checkErr) {
+        const checkMsg = checkErr instanceof Error ? checkErr.message : String(checkErr);
+        throw new OrderUncertainError(`${msg}; could not check order history: ${checkMsg}`);
+      }
+      if (landed) {
+        logInfo(`  Attempt ${attempt} landed despite "${msg}" — not retrying`);
+        return landed;
+      }
+      if (attempt >= MAX_ORDER_ATTEMPTS) throw err;
+      await new Promise((r) => setTimeout(r, 1000 * 2 ** (attempt - 1)));
+    }
+  }
+}
 
 export async function executeBets(
   decisions: TradeDecision[],
+  venue: Venue,
   config: Config
 ): Promise<TradeExecution[]> {
   const bets = decisions.filter((d) => d.action === "BET" && d.direction);
   const executions: TradeExecution[] = [];
-
-  // Lazily create CLOB client only if we have Polymarket bets
-  let clobClient: Awaited<ReturnType<typeof createClobClient>> | undefined;
+  const risk = loadRiskState(venue.name);
+  // Paper fills are simulated, so there's nothing for a dry run to hold back
+  const dryRun = config.dryRun && !venue.paper;
 
   for (const decision of bets) {
-    const venue = decision.venue ?? "manifold";
-    const currencyLabel = venue === "polymarket" ? "$" : "M$";
-
-    const execution: TradeExecution = {
-      traceId: decision.traceId,
-      timestamp: new Date().toISOString(),
-      marketId: decision.marketId,
-      question: decision.question,
-      direction: decision.direction!,
-      amount: decision.betAmount,
-      marketProb: decision.marketProb,
-      estimate: decision.estimate,
-      edge: decision.edge,
-      dryRun: config.dryRun,
-      venue,
-      polyTokenId: decision.polyTokenId,
-    };
-
-    if (config.dryRun) {
+    const timestamp = new Date().toISOString();
+
+    // Blocked orders are logged against the BET's traceId so we can see what the limits cost
+    const block = checkRisk(config.risk, risk, decision);
+    if (block) {
+      logInfo(`Risk limit: not betting on ${decision.question.slice(0, 60)} — ${block.reason}`);
+      logDecision({ ...decision, timestamp, action: block.action }, venue.currency);
+      continue;
+    }
+
+    const execution = toExecution(decision, venue, dryRun, timestamp);
+
+    if (dryRun) {
+      const limit = decision.limitProb !== undefined ? ` limit ${(decision.limitProb * 100).toFixed(0)}%` : "";
       logInfo(
-        `[DRY RUN] Would bet ${currencyLabel}${decision.betAmount} on ${decision.direction} for: ${decision.question.slice(0, 60)}`
+        `[DRY RUN] Would bet ${venue.currency}${decision.betAmount} on ${decision.direction}${limit} for: ${decision.question.slice(0, 60)}`
       );
       execution.result = { betId: "dry-run" };
-    } else if (venue === "polymarket") {
-      try {
-        if (!decision.polyTokenId) {
-          throw new Error("Missing polyTokenId for Polymarket order");
-        }
-        if (!clobClient) {
-          clobClient = await createClobClient(config);
-        }
-        const price = decision.direction === "YES" ? decision.marketProb : 1 - decision.marketProb;
-        const result = await placePolyOrder(
-          clobClient,
-          decision.polyTokenId,
-          "BUY",
-          decision.betAmount,
-          price,
-        );
-        if ("error" in result) {
-          execution.result = { error: result.error };
-          logError(`Failed Polymarket order: ${decision.question.slice(0, 60)}: ${result.error}`);
-        } else {
-          execution.result = { orderId: result.orderId };
-          logInfo(
-            `Placed $${decision.betAmount} on ${decision.direction} — ${decision.question.slice(0, 60)} (order: ${result.orderId})`
-          );
-        }
-      } catch (err) {
-        const msg = err instanceof Error ? err.message : String(err);
-        execution.result = { error: msg };
-        logError(`Failed Polymarket order: ${decision.question.slice(0, 60)}: ${msg}`);
-      }
-    } else {
-      // Manifold
-      try {
-        const result = await placeBet(
-          config.manifoldApiKey,
-          decision.marketId,
-          decision.direction!,
-          decision.betAmount
+      logTrade(execution);
+      recordExposure(risk, decision.marketId, execution.amount);
+      executions.push(execution);
+      continue;
+    }
+
+    // Journal first, so a crash mid-request leaves a record to reconcile
+    const key = orderKey(decision.traceId);
+    insertPendingOrder({ key, venue: venue.name, createdAt: timestamp, decision });
+
+    let fill: OrderFill | undefined;
+    try {
+      fill = await placeOnce(venue, decision, key, new Date(Date.parse(timestamp) - HISTORY_SLACK_MS));
+      applyFill(execution, fill);
+      if (fill.resting) {
+        // Count the whole order: the remainder can fill any time
+        recordExposure(risk, decision.marketId, decision.betAmount);
+        logInfo(
+          `Limit order at ${((decision.limitProb ?? 0) * 100).toFixed(0)}% for ${venue.currency}${decision.betAmount} on ${decision.direction} — ${decision.question.slice(0, 60)} (${fill.shares?.toFixed(2) ?? 0} shares filled, rest resting)`
         );
-        execution.result = { betId: result.betId };
-        execution.shares = result.shares;
+      } else if (execution.result?.error) {
+        logInfo(`Not filled: ${decision.direction} on ${decision.question.slice(0, 60)} — no position taken`);
+      } else {
+        recordExposure(risk, decision.marketId, execution.amount);
         logInfo(
-          `Placed M$${decision.betAmount} on ${decision.direction} — ${decision.question.slice(0, 60)} (bet: ${result.betId})`
+          `Placed ${venue.currency}${execution.amount.toFixed(2)} on ${decision.direction} — ${decision.question.slice(0, 60)} (${fill.betId ? `bet: ${fill.betId}` : `order: ${fill.orderId}`}, ${fill.shares?.toFixed(2) ?? "?"} shares)`
         );
-      } catch (err) {
-        const msg = err instanceof Error ? err.message : String(err);
-        execution.result = { error: msg };
-        logError(`Failed to bet on ${decision.question.slice(0, 60)}: ${msg}`);
       }
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      if (err instanceof OrderUncertainError) {
+        logError(`Order for ${decision.question.slice(0, 60)} is unconfirmed (${msg}) — will reconcile on next start`);
+        // Assume it filled until we know otherwise
+        recordExposure(risk, decision.marketId, execution.amount);
+        continue;
+      }
+      execution.result = { error: msg };
+      logError(`Failed to bet on ${decision.question.slice(0, 60)}: ${msg}`);
     }
 
-    logTrade(execution);
-    executions.push(execution);
+    recordOrder(execution, decision, key, fill);
+    if (!fill?.resting || fill.shares) executions.push(execution);
   }
 
   return executions;
 }
+
+/**
+ * Settle journal entries left by a run that died between sending an order
+ * and logging its outcome: record the fill if the venue has one, otherwise
+ * record the order as failed. Entries for venues not in `venues`, or whose
+ * history can't be reached, are left for a later run.
+ */
+export async function recoverPendingOrders(venues: Map<VenueName, Venue>): Promise<void> {
+  const pending = loadPendingOrders().filter((p) => venues.has(p.venue));
+  if (pending.length === 0) return;
+
+  logInfo(`Reconciling ${pending.length} pending order(s) from an interrupted run...`);
+  for (const p of pending) {
+    const venue = venues.get(p.venue)!;
+    let fill: OrderFill | null;
+    try {
+      fill = await venue.findFill(p.decision, p.key, new Date(Date.parse(p.createdAt) - HISTORY_SLACK_MS));
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      logError(`  Could not check ${p.key}: ${msg} — leaving it pending`);
+      continue;
+    }
+
+    const execution = toExecution(p.decision, venue, false, p.createdAt);
+    if (fill) {
+      applyFill(execution, fill);
+      logInfo(`  ${p.decision.question.slice(0, 60)}: order landed — recorded`);
+    } else {
+      execution.result = { error: "Interrupted before confirmation; no fill found on venue" };
+      logInfo(`  ${p.decision.question.slice(0, 60)}: no fill found — recorded as failed`);
+    }
+
+    recordOrder(execution, p.decision, p.key, fill);
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * Exit rules — declarative sell triggers evaluated by the seller.
+ *
+ * Rules come from EXIT_RULES_FILE (a JSON array, see exit-rules.example.json)
+ * or DEFAULT_EXIT_RULES. Each has a unique name, a priority (lower fires
+ * first in the report) and optional venue/category scope. Every rule that
+ * fires is returned — none overwrites another.
+ */
+
+import { readFileSync } from "fs";
+import type { Market, Position, VenueName } from "./types.js";
+
+interface ExitRuleBase {
+  name: string;
+  priority: number;
+  venues?: VenueName[]; // only positions on these venues (default: all)
+  categories?: string[]; // only these categories from categories.ts (default: all)
+}
+
+export type ExitRule = ExitRuleBase & (
+  /** Unrealized P&L has captured `payoutRatio` of the maximum payout. */
+  | { type: "take_profit"; payoutRatio: number }
+  /** Losing more than `lossPct` of the wager. */
+  | { type: "stop_loss"; lossPct: number }
+  /** Market is within `prob` of certainty against us (YES < prob, NO > 1 - prob). */
+  | { type: "near_certain_loss"; prob: number }
+  /**
+   * Peak unrealized P&L (from snapshots) reached `activatePct` of the wager and
+   * we've since given back `giveBackPct` of that peak.
+   */
+  | { type: "trailing_stop"; activatePct: number; giveBackPct: number }
+  /** Market closes within `hours`. */
+  | { type: "time_to_close"; hours: number }
+  /** Price has reached our estimate — at most `minEdge` of edge left. */
+  | { type: "edge_exhausted"; minEdge: number }
+);
+
+export interface ExitContext {
+  position: Position;
+  market: Market;
+  category: string;
+  currentProb: number; // YES probability we'd exit at
+  unrealizedPnl: number;
+  payoutRatio: number; // unrealized / max payout
+  peakUnrealizedPnl?: number; // highest snapshot P&L, if any
+  now: number;
+}
+
+export interface FiredRule {
+  name: string;
+  reason: string;
+}
+
+// The seller's original hard-coded thresholds
+export const DEFAULT_EXIT_RULES: ExitRule[] = [
+  { name: "NEAR_CERTAIN_LOSS", type: "near_certain_loss", priority: 10, prob: 0.05 },
+  { name: "STOP_LOSS", type: "stop_loss", priority: 20, lossPct: 0.5 },
+  { name: "TAKE_PROFIT", type: "take_profit", priority: 30, payoutRatio: 0.7 },
+];
+
+const pct = (x: number) => `${(x * 100).toFixed(0)}%`;
+
+/** Reason string if `rule` fires for this position, else null. */
+function check(rule: ExitRule, ctx: ExitContext): string | null {
+  const { position: pos, currentProb, unrealizedPnl } = ctx;
+
+  switch (rule.type) {
+    case "take_profit":
+      return ctx.payoutRatio >= rule.payoutRatio
+        ? `captured ${pct(ctx.payoutRatio)} of max payout`
+        : null;
+
+    case "stop_loss":
+      return unrealizedPnl < -pos.amount * rule.lossPct
+        ? `losing ${pct(-unrealizedPnl / pos.amount)} of wager`
+        : null;
+
+    case "near_certain_loss": {
+      const against = pos.direction === "YES" ? currentProb < rule.prob : currentProb > 1 - rule.prob;
+      return against
+        ? `market at ${(currentProb * 100).toFixed(1)}%, we're ${pos.direction}`
+        : null;
+    }
+
+    case "trailing_stop": {
+      const peak = Math.max(ctx.peakUnrealizedPnl ?? -Infinity, unrealizedPnl);
+      if (peak < pos.amount * rule.activatePct) return null;
+      const givenBack = (peak - unrealizedPnl) / peak;
+      return givenBack >= rule.giveBackPct
+        ? `gave back ${pct(givenBack)} of peak P&L ${peak.toFixed(1)}`
+        : null;
+    }
+
+    case "time_to_close": {
+      const hoursLeft = (ctx.market.closeTime - ctx.now) / 3_600_000;
+      return hoursLeft <= rule.hours
+        ? `closes in ${Math.max(0, hoursLeft).toFixed(1)}h`
+        : null;
+    }
+
+    case "edge_exhausted": {
+      const edge = pos.direction === "YES" ? pos.estimate - currentProb : currentProb - pos.estimate;
+      return edge <= rule.minEdge
+        ? `market at ${(currentProb * 100).toFixed(1)}% vs our ${(pos.estimate * 100).toFixed(0)}% — edge ${(edge * 100).toFixed(1)}pts`
+        : null;
+    }
+  }
+}
+
+/**
+ * Every in-scope rule that fires for this position, in priority order.
+ */
+export function evaluateExitRules(rules: ExitRule[], ctx: ExitContext): FiredRule[] {
+  return rules
+    .filter((r) => !r.venues || r.venues.includes(ctx.position.venue))
+    .filter((r) => !r.categories || r.categories.includes(ctx.category))
+    .sort((a, b) => a.priority - b.priority)
+    .flatMap((rule) => {
+      const reason = check(rule, ctx);
+      return reason ? [{ name: rule.name, reason: `${rule.name}: ${reason}` }] : [];
+    });
+}
+
+// === Loading ===
+
+const PARAMS: Record<ExitRule["type"], string[]> = {
+  take_profit: ["payoutRatio"],
+  stop_loss: ["lossPct"],
+  near_certain_loss: ["prob"],
+  trailing_stop: ["activatePct", "giveBackPct"],
+  time_to_close: ["hours"],
+  edge_exhausted: ["minEdge"],
+};
+
+/**
+ * Validate a parsed rules array. Throws naming the first bad rule.
+ */
+export function parseExitRules(raw: unknown, source: string): ExitRule[] {
+  if (!Array.isArray(raw)) throw new Error(`${source}: exit rules must be a JSON array`);
+
+  const names = new Set<string>();
+  return raw.map((r, i) => {
+    const where = `${source}[${i}]`;
+    if (!r || typeof r !== "object") throw new Error(`${where}: not an object`);
+    const rule = r as Record<string, unknown>;
+
+    if (typeof rule.name !== "string" || !rule.name) throw new Error(`${where}: missing name`);
+    if (names.has(rule.name)) throw new Error(`${where}: duplicate name ${rule.name}`);
+    names.add(rule.name);
+
+    const params = PARAMS[rule.type as ExitRule["type"]];
+    if (!params) {
+      throw new Error(`${where}: unknown type ${String(rule.type)} (expected ${Object.keys(PARAMS).join(", ")})`);
+    }
+    if (typeof rule.priority !== "number") throw new Error(`${where}: priority must be a number`);
+    for (const p of params) {
+      if (typeof rule[p] !== "number") throw new Error(`${where}: ${rule.type} needs numeric ${p}`);
+    }
+    for (const scope of ["venues", "categories"]) {
+      const v = rule[scope];
+      if (v !== undefined && !(Array.isArray(v) && v.every((s) => typeof s === "string"))) {
+        throw new Error(`${where}: ${scope} must be an array of strings`);
+      }
+    }
+    return rule as unknown as ExitRule;
+  });
+}
+
+export function loadExitRules(path: string | undefined): ExitRule[] {
+  if (!path) return DEFAULT_EXIT_RULES;
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (err) {
+    throw new Error(`Cannot read EXIT_RULES_FILE ${path}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  return parseExitRules(raw, path);
+}
@@ -40,16 +40,16 @@ interface ChartMeta {
 }
 
 /**
- * Check if a market question is finance-related and return enrichment context.
+ * Ticker symbols a market question refers to.
  */
-export async function fetchFinanceContext(question: string): Promise<string | null> {
-  const symbolsToFetch = new Set<string>();
+export function findFinanceSymbols(question: string): string[] {
+  const symbols = new Set<string>();
 
   for (const rule of FINANCE_PATTERNS) {
     if (!rule.pattern.test(question)) continue;
 
     if (rule.symbols) {
-      for (const s of rule.symbols) symbolsToFetch.add(s);
+      for (const s of rule.symbols) symbols.add(s);
     }
 
     if (rule.type === "earnings" || rule.type === "stock_generic") {
@@ -57,16 +57,24 @@ export async function fetchFinanceContext(question: string): Promise<string | nu
       if (symbolMatch) {
         const known = ["NVDA", "AAPL", "TSLA", "META", "GOOGL", "MSFT", "AMZN", "AMD", "INTC", "NFLX", "GOOG"];
         for (const s of symbolMatch) {
-          if (known.includes(s)) symbolsToFetch.add(s);
+          if (known.includes(s)) symbols.add(s);
         }
       }
     }
   }
 
-  if (symbolsToFetch.size === 0) return null;
+  return [...symbols];
+}
+
+/**
+ * Check if a market question is finance-related and return enrichment context.
+ */
+export async function fetchFinanceContext(question: string): Promise<string | null> {
+  const symbols = findFinanceSymbols(question);
+  if (symbols.length === 0) return null;
 
   const quotes = await Promise.all(
-    [...symbolsToFetch].map((s) => fetchChartQuote(s))
+    symbols.map((s) => fetchChartQuote(s))
   );
 
   const lines = quotes.filter((q): q is string => q !== null);
@@ -1,108 +1,62 @@
 import { loadConfig } from "./config.js";
-import { getMe, searchMarkets, getMarket } from "./manifold.js";
-import { estimateProbability } from "./analyzer.js";
-import { filterMarkets, makeDecision, polyToManifoldLike } from "./strategy.js";
-import { executeBets } from "./executor.js";
+import { estimateProbability, estimateDistribution } from "./analyzer.js";
+import { makeDecision, makeMultiDecisions } from "./strategy.js";
+import { sizePortfolio } from "./portfolio.js";
+import { findOraclePrice } from "./oracle.js";
+import { executeBets, recoverPendingOrders } from "./executor.js";
+import { syncOpenOrders, refreshOpenOrders, runOrders } from "./orders.js";
 import { logDecision, logInfo, logError } from "./logger.js";
-import { readJsonl, RESOLUTIONS_FILE, TRADES_FILE, SNAPSHOTS_FILE } from "./data.js";
+import {
+  loadResolutions,
+  loadOpenTrades,
+  loadHeldMarketIds,
+  getDecision,
+  latestSnapshot,
+  compactSnapshots,
+  importJsonlFiles,
+  DB_FILE,
+} from "./data.js";
 import { runResolve } from "./resolver.js";
 import { computeCalibration } from "./calibration.js";
 import { formatFeedback } from "./feedback.js";
 import { runSell } from "./seller.js";
-import { fetchPolymarketMarkets, filterPolymarketMarkets, enrichWithEffectivePrices, redeemPolyPosition } from "./polymarket.js";
-import { runPolyResolve } from "./poly-resolver.js";
-import type { TradeDecision, TradeExecution, Resolution, PositionSnapshot } from "./types.js";
-
-async function runPolyScan() {
+import { runMigrate } from "./migrate.js";
+import { runReconcile } from "./reconcile.js";
+import { runArb } from "./arb.js";
+import { runMarketMaker } from "./market-maker.js";
+import { runBacktest } from "./backtest.js";
+import { runOptimize, DEFAULT_SPACE } from "./optimize.js";
+import { loadRecalibrator, recalibrate } from "./recalibration.js";
+import { redeemPolyPosition } from "./polymarket.js";
+import { createVenue, createVenues, VENUE_NAMES, VENUE_CURRENCIES } from "./venue.js";
+import { isPaperVenue, liveVenueName, paperVenueName } from "./paper-venue.js";
+import type { TradeDecision, Resolution, LiveVenueName, TradeExecution, Venue, VenueName } from "./types.js";
+
+/**
+ * Venue-generic scan: list markets → Claude estimate → Kelly sizing →
+ * portfolio sizing → execute. With `--paper`, trades the venue's paper account.
+ */
+async function runScan(liveName: LiveVenueName) {
   const config = loadConfig();
-  logInfo(`Polymarket scan — ${config.dryRun ? "DRY RUN" : "LIVE"}`);
+  const venue = createVenue(process.argv.includes("--paper") ? paperVenueName(liveName) : liveName, config);
+  logInfo(`${venue.name} scan — ${venue.paper ? "PAPER" : config.dryRun ? "DRY RUN" : "LIVE"}`);
   logInfo(`Model: ${config.claudeModel}`);
-  logInfo(`Edge threshold: ${(config.edgeThreshold * 100).toFixed(0)}%`);
-
-  // Load calibration feedback
-  let calibrationFeedback: string | undefined;
-  const resolutions = readJsonl<Resolution>(RESOLUTIONS_FILE);
-  if (resolutions.length > 0) {
-    const report = computeCalibration(resolutions);
-    const feedback = formatFeedback(report);
-    if (feedback) {
-      calibrationFeedback = feedback;
-      logInfo(`Loaded calibration feedback from ${resolutions.length} resolved bets`);
-    }
-  }
-
-  // 1. Fetch and filter Polymarket markets
-  logInfo("Fetching Polymarket markets...");
-  const polyMarkets = await fetchPolymarketMarkets(config);
-  const filtered = filterPolymarketMarkets(polyMarkets);
-  logInfo(`Fetched ${polyMarkets.length} markets, ${filtered.length} pass filters`);
-
-  // 2. Exclude already-held positions
-  const allTrades = readJsonl<TradeExecution>(TRADES_FILE);
-  const resolvedTraceIds = new Set(resolutions.map(r => r.traceId));
-  const heldConditionIds = new Set(
-    allTrades
-      .filter(t => t.venue === "polymarket" && !t.dryRun && !t.result?.error && !resolvedTraceIds.has(t.traceId))
-      .map(t => t.marketId)
+  logInfo(
+    config.edgeMode === "annualized"
+      ? `Edge threshold: ${(config.edgeThreshold * 100).toFixed(0)}% annualized return`
+      : `Edge threshold: ${(config.edgeThreshold * 100).toFixed(0)}% net of fees`,
   );
-  const candidates = filtered.filter(m => !heldConditionIds.has(m.conditionId));
-  if (heldConditionIds.size > 0) {
-    logInfo(`Skipping ${heldConditionIds.size} markets with existing positions`);
-  }
-
-  // 3. Enrich with effective fill prices from CLOB orderbooks
-  const preCandidates = candidates.slice(0, config.polyMaxMarketsPerRun * 2);
-  logInfo(`Fetching orderbook depth for ${preCandidates.length} markets...`);
-  const priced = await enrichWithEffectivePrices(preCandidates, config.polyMaxBetAmount);
-  const toAnalyze = priced.slice(0, config.polyMaxMarketsPerRun);
-  logInfo(`${priced.length}/${preCandidates.length} markets have fillable depth — analyzing ${toAnalyze.length} with Claude...\n`);
-
-  const decisions: TradeDecision[] = [];
-  const bankroll = config.polyMaxBetAmount * 10;
 
-  for (const poly of toAnalyze) {
-    try {
-      const marketLike = polyToManifoldLike(poly);
-      const estimate = await estimateProbability(config, marketLike, calibrationFeedback);
-      const decision = makeDecision(marketLike, estimate, bankroll, config, { venue: "polymarket" });
-
-      // Attach Polymarket-specific fields
-      decision.polyTokenId = decision.direction === "YES" ? poly.yesTokenId : poly.noTokenId;
-
-      logDecision(decision);
-      decisions.push(decision);
-    } catch (err) {
-      const msg = err instanceof Error ? err.message : String(err);
-      logError(`Failed to analyze ${poly.question.slice(0, 60)}: ${msg}`);
-    }
-  }
-
-  // 4. Execute
-  const bets = decisions.filter(d => d.action === "BET");
-  logInfo(`\n--- Summary ---`);
-  logInfo(`Analyzed: ${decisions.length}`);
-  logInfo(`Bets identified: ${bets.length}`);
-
-  if (bets.length > 0) {
-    const executions = await executeBets(decisions, config);
-    const ok = executions.filter(e => !e.result?.error);
-    logInfo(`Bets executed: ${ok.length}/${executions.length}`);
-  } else {
-    logInfo("No bets to place this run.");
-  }
-
-  logInfo("Done.");
-}
-
-async function runScan() {
-  const config = loadConfig();
-  logInfo(`Mode: ${config.dryRun ? "DRY RUN" : "LIVE"}`);
-  logInfo(`Model: ${config.claudeModel}`);
-  logInfo(`Edge threshold: ${(config.edgeThreshold * 100).toFixed(0)}%`);
+  // Settle orders a crashed run sent but never logged, before we rely on held positions
+  await recoverPendingOrders(new Map([[venue.name, venue]]));
+  // Book what earlier limit orders filled. Polymarket orders rest across runs
+  // and are repriced; Manifold remainders are cancelled and this run prices afresh.
+  if (liveVenueName(venue.name) === "polymarket") await refreshOpenOrders(venue, config);
+  else await syncOpenOrders(new Map([[venue.name, venue]]), { cancelRemainders: true });
 
   // Load calibration feedback
   let calibrationFeedback: string | undefined;
-  const resolutions = readJsonl<Resolution>(RESOLUTIONS_FILE);
+  const resolutions = loadResolutions();
   if (resolutions.length > 0) {
     const report = computeCalibration(resolutions);
     const feedback = formatFeedback(report);
@@ -112,84 +66,110 @@ async function runScan() {
     }
   }
 
-  const me = await getMe(config.manifoldApiKey);
-  const bankroll = me.balance;
-  logInfo(`User: ${me.username} | Balance: M$${bankroll.toFixed(0)}`);
+  const recalibrator = loadRecalibrator(config);
 
+  const bankroll = await venue.getBankroll();
   if (bankroll < 10) {
     logError("Balance too low to trade. Exiting.");
     process.exit(1);
   }
 
-  // Build set of market IDs we already hold positions in
-  const allTrades = readJsonl<TradeExecution>(TRADES_FILE);
-  const allResolutions = readJsonl<Resolution>(RESOLUTIONS_FILE);
-  const resolvedTraceIds = new Set(allResolutions.map((r) => r.traceId));
-  const heldMarketIds = new Set(
-    allTrades
-      .filter((t) => !t.dryRun && !t.result?.error && !resolvedTraceIds.has(t.traceId))
-      .map((t) => t.marketId)
-  );
+  // Build set of market IDs we already hold positions in on this venue
+  const heldMarketIds = loadHeldMarketIds(venue.name);
   if (heldMarketIds.size > 0) {
     logInfo(`Skipping ${heldMarketIds.size} markets with existing positions`);
   }
 
-  logInfo("Searching for markets...");
-  const rawMarkets = await searchMarkets(config.manifoldApiKey, 50);
-  logInfo(`Fetched ${rawMarkets.length} markets`);
-
-  const candidates = filterMarkets(rawMarkets, config)
-    .filter((m) => !heldMarketIds.has(m.id));
-  logInfo(`${candidates.length} markets pass filters (excl. held positions)`);
-
-  const toAnalyze = candidates.slice(0, config.maxMarketsPerRun);
+  const toAnalyze = await venue.listMarkets(heldMarketIds);
   logInfo(`Analyzing ${toAnalyze.length} markets with Claude...\n`);
 
+  // Manifold lags liquid venues on shared events — price those in when configured
+  const oracleVenue = config.oracleMode !== "off" && liveName === "manifold"
+    ? createVenue("polymarket", config)
+    : undefined;
+
   const decisions: TradeDecision[] = [];
 
-  for (const lite of toAnalyze) {
+  for (const market of toAnalyze) {
     try {
-      const market = await getMarket(config.manifoldApiKey, lite.id);
-      const estimate = await estimateProbability(config, market, calibrationFeedback);
-      const decision = makeDecision(market, estimate, bankroll, config);
+      if (market.outcomes) {
+        const distribution = await estimateDistribution(config, market, calibrationFeedback);
+        decisions.push(...makeMultiDecisions(market, distribution, bankroll, config, {
+          maxBetAmount: venue.maxBetAmount,
+        }));
+        continue;
+      }
+
+      const estimate = recalibrate(recalibrator, await estimateProbability(config, market, calibrationFeedback), market.question);
+      if (estimate.rawProbability !== undefined) {
+        logInfo(`  Recalibrated: ${(estimate.rawProbability * 100).toFixed(1)}% → ${(estimate.probability * 100).toFixed(1)}%`);
+      }
+      const oracle = oracleVenue ? await findOraclePrice(market, oracleVenue) : null;
+      if (oracle) logInfo(`  Oracle (${oracle.source}): ${oracle.detail}`);
+      const decision = makeDecision(market, estimate, bankroll, config, {
+        maxBetAmount: venue.maxBetAmount,
+        oracle: oracle ?? undefined,
+      });
+
+      // Orderbook venues trade a per-outcome token
+      if (market.tokenIds && decision.direction) {
+        decision.polyTokenId = market.tokenIds[decision.direction];
+      }
 
-      logDecision(decision);
       decisions.push(decision);
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
-      logError(`Failed to analyze market ${lite.id}: ${msg}`);
+      logError(`Failed to analyze market ${market.id}: ${msg}`);
       decisions.push({
         traceId: crypto.randomUUID(),
         timestamp: new Date().toISOString(),
-        marketId: lite.id,
-        question: lite.question,
-        marketUrl: lite.url,
-        marketProb: lite.probability,
+        marketId: market.id,
+        question: market.question,
+        marketUrl: market.url,
+        marketProb: market.probability,
         estimate: 0,
         confidence: "low",
         reasoning: `Error: ${msg}`,
         edge: 0,
         direction: null,
         kellyFraction: 0,
-        venue: "manifold",
-        effectiveProb: lite.probability,
+        venue: venue.name,
+        effectiveProb: market.probability,
         betAmount: 0,
         action: "SKIP_ERROR",
-        liquidity: lite.totalLiquidity,
-        closeTime: new Date(lite.closeTime).toISOString(),
-        uniqueBettorCount: lite.uniqueBettorCount ?? 0,
+        bankroll,
+        liquidity: market.liquidity,
+        closeTime: new Date(market.closeTime).toISOString(),
+        uniqueBettorCount: market.uniqueBettorCount,
         description: "",
       });
     }
   }
 
-  const betsToPlace = decisions.filter((d) => d.action === "BET");
+  // Size the run's bets jointly with what we already hold, then record them
+  const open = loadOpenTrades(venue.name).map((t) => ({
+    marketId: t.marketId,
+    question: t.question,
+    amount: t.amount,
+    eventId: getDecision(t.traceId)?.eventId,
+  }));
+  const sized = sizePortfolio(decisions, open, bankroll, config);
+  const scaled = sized.filter((d) => d.portfolioScale !== undefined).length;
+  if (scaled > 0) logInfo(`Portfolio sizing scaled down ${scaled} bet(s)\n`);
+  for (const d of sized) {
+    if (d.action !== "SKIP_ERROR") logDecision(d, venue.currency);
+  }
+
+  // Best return per day of lock-up first, so risk limits spend capacity on those
+  const betsToPlace = sized
+    .filter((d) => d.action === "BET")
+    .sort((a, b) => (b.annualizedReturn ?? 0) - (a.annualizedReturn ?? 0));
   logInfo(`\n--- Summary ---`);
   logInfo(`Analyzed: ${decisions.length}`);
   logInfo(`Bets identified: ${betsToPlace.length}`);
 
   if (betsToPlace.length > 0) {
-    const executions = await executeBets(decisions, config);
+    const executions = await executeBets(betsToPlace, venue, config);
     const successful = executions.filter((e) => !e.result?.error);
     logInfo(`Bets executed: ${successful.length}/${executions.length}`);
   } else {
@@ -202,8 +182,10 @@ async function runScan() {
 async function runResolveCmd() {
   const config = loadConfig();
   logInfo("Checking unresolved bets...");
-  await runResolve(config.manifoldApiKey);
-  await runPolyResolve();
+  const venues = createVenues(config);
+  await recoverPendingOrders(venues);
+  await syncOpenOrders(venues, { cancelRemainders: false });
+  await runResolve(venues);
   logInfo("Done.");
 }
 
@@ -215,7 +197,7 @@ async function runPolyRedeem() {
     process.exit(1);
   }
 
-  const resolutions = readJsonl<Resolution>(RESOLUTIONS_FILE);
+  const resolutions = loadResolutions();
   const wonPoly = resolutions.filter(r => r.venue === "polymarket" && r.won);
 
   if (wonPoly.length === 0) {
@@ -245,21 +227,27 @@ async function runPolyRedeem() {
   logInfo(`\nRedeemed: ${ok}/${unique.size}`);
 }
 
+/**
+ * Calibration and P&L of the live accounts, or with `--paper` of the paper accounts.
+ */
 function runStats() {
-  const resolutions = readJsonl<Resolution>(RESOLUTIONS_FILE);
+  const paper = process.argv.includes("--paper");
+  const resolutions = loadResolutions().filter((r) => isPaperVenue(r.venue) === paper);
 
   if (resolutions.length === 0) {
-    logInfo("No resolved bets yet.");
+    logInfo(paper ? "No resolved paper bets yet." : "No resolved bets yet.");
     return;
   }
 
   const report = computeCalibration(resolutions);
 
   const roiSign = report.roi >= 0 ? "+" : "";
-  console.log(`\n=== Calibration Report (${report.totalResolved} resolved) ===\n`);
+  console.log(`\n=== ${paper ? "Paper " : ""}Calibration Report (${report.totalResolved} resolved) ===\n`);
   console.log(`  Win rate:    ${(report.winRate * 100).toFixed(1)}%`);
   console.log(`  Brier score: ${report.avgBrierScore.toFixed(3)}`);
-  console.log(`  Total PnL:   ${report.totalPnl >= 0 ? "+" : ""}M$${report.totalPnl.toFixed(1)}`);
+  // Venues settle in different currencies, so P&L is totalled per venue
+  const pnl = venueTotals(resolutions.filter((r) => r.resolution !== "CANCEL"), (r) => r.pnl);
+  console.log(`  Total PnL:   ${formatVenueTotals(pnl, (venue) => VENUE_CURRENCIES[liveVenueName(venue)])}`);
   console.log(`  ROI:         ${roiSign}${(report.roi * 100).toFixed(1)}%`);
 
   if (report.buckets.length > 0) {
@@ -285,6 +273,26 @@ function runStats() {
     );
   }
 
+  if (report.bySource.oracle.count > 0) {
+    console.log(`\n  --- By Estimate Source ---`);
+    for (const source of ["claude", "oracle"] as const) {
+      const c = report.bySource[source];
+      if (c.count === 0) continue;
+      console.log(
+        `  ${source.padEnd(7)} n=${String(c.count).padEnd(3)} win=${(c.winRate * 100).toFixed(0)}% brier=${c.avgBrier.toFixed(2)} roi=${(c.roi * 100).toFixed(1)}%`
+      );
+    }
+  }
+
+  const recal = report.recalibration;
+  if (recal.count > 0) {
+    const better = recal.avgBrier <= recal.avgRawBrier;
+    console.log(`\n  --- Recalibration (${recal.count} recalibrated bets) ---`);
+    console.log(
+      `  Brier raw: ${recal.avgRawBrier.toFixed(3)} | recalibrated: ${recal.avgBrier.toFixed(3)} (${better ? "helps" : "hurts"} by ${Math.abs(recal.avgRawBrier - recal.avgBrier).toFixed(3)})`
+    );
+  }
+
   if (report.totalResolved >= 20) {
     const t = report.recentTrend;
     console.log(`\n  --- Recent Trend (last 20) ---`);
@@ -299,7 +307,50 @@ function runStats() {
 async function runSellCmd() {
   const config = loadConfig();
   logInfo(`Sell mode — ${config.dryRun ? "DRY RUN" : "LIVE"}`);
-  await runSell(config);
+  const venues = createVenues(config);
+  await recoverPendingOrders(venues);
+  await runSell(config, venues);
+  logInfo("Done.");
+}
+
+async function runReconcileCmd() {
+  const config = loadConfig();
+  const repairPhantoms = process.argv.includes("--repair-phantoms");
+  const repair = repairPhantoms || process.argv.includes("--repair");
+  logInfo(`Reconciling ledger against venue positions${repair ? " (repair)" : ""}...`);
+  const venues = createVenues(config);
+  await recoverPendingOrders(venues);
+  await syncOpenOrders(venues, { cancelRemainders: false });
+  await runReconcile(venues, { repair, repairPhantoms });
+  logInfo("Done.");
+}
+
+async function runArbCmd() {
+  const config = loadConfig();
+  logInfo(`Arbitrage scan (Manifold × Polymarket) — ${config.dryRun ? "DRY RUN" : "LIVE"}`);
+  await runArb(config);
+  logInfo("Done.");
+}
+
+async function runOrdersCmd() {
+  const config = loadConfig();
+  const args = process.argv.slice(3);
+  const cancelAt = args.indexOf("--cancel");
+  const cancel = args.includes("--cancel-all")
+    ? "all"
+    : cancelAt >= 0 ? args.slice(cancelAt + 1).filter((a) => !a.startsWith("--")) : [];
+  await runOrders(config, { cancel });
+  logInfo("Done.");
+}
+
+async function runMarketMakerCmd() {
+  const config = loadConfig();
+  const args = process.argv.slice(3);
+  const cyclesAt = args.indexOf("--cycles");
+  const cycles = cyclesAt >= 0 ? parseInt(args[cyclesAt + 1] ?? "", 10) : undefined;
+  if (cycles !== undefined && !(cycles > 0)) throw new Error("--cycles must be a positive integer");
+  logInfo(`Polymarket market making — ${config.dryRun ? "DRY RUN" : "LIVE"}`);
+  await runMarketMaker(config, { cycles });
   logInfo("Done.");
 }
 
@@ -308,67 +359,64 @@ async function runMonitor() {
   logInfo("Hourly monitor cycle...");
 
   // 1. Check resolutions + record snapshots
-  await runResolve(config.manifoldApiKey);
+  const venues = createVenues(config);
+  await recoverPendingOrders(venues);
+  await syncOpenOrders(venues, { cancelRemainders: false });
+  await runResolve(venues);
+
+  const compacted = compactSnapshots();
+  if (compacted > 0) logInfo(`Compacted ${compacted} old hourly snapshots`);
 
   // 2. Compute drift metrics from snapshots
-  const snapshots = readJsonl<PositionSnapshot>(SNAPSHOTS_FILE);
-  const trades = readJsonl<TradeExecution>(TRADES_FILE);
-  const resolutions = readJsonl<Resolution>(RESOLUTIONS_FILE);
-  const resolvedIds = new Set(resolutions.map((r) => r.traceId));
-
-  // Get currently open trade IDs
-  const openTrades = trades.filter(
-    (t) => !t.dryRun && t.result?.betId && !t.result.error && !resolvedIds.has(t.traceId)
-  );
+  const openTrades = loadOpenTrades();
 
   if (openTrades.length === 0) {
     logInfo("No open positions to monitor.");
     return;
   }
 
-  // For each open position, compute drift from latest snapshot
-  const tradeMap = new Map(openTrades.map((t) => [t.traceId, t]));
-
-  // Group snapshots by traceId, take the most recent
-  const latestSnapshots = new Map<string, PositionSnapshot>();
-  for (const s of snapshots) {
-    if (!tradeMap.has(s.traceId)) continue;
-    const existing = latestSnapshots.get(s.traceId);
-    if (!existing || s.timestamp > existing.timestamp) {
-      latestSnapshots.set(s.traceId, s);
-    }
-  }
+  // Paper accounts are reported apart from real money
+  const live = openTrades.filter((t) => !isPaperVenue(t.venue));
+  const paper = openTrades.filter((t) => isPaperVenue(t.venue));
+  if (live.length > 0) reportPositions("Portfolio Monitor", live, venues);
+  if (paper.length > 0) reportPositions("Paper Portfolio", paper, venues);
+}
 
-  let totalUnrealizedPnl = 0;
+/**
+ * Unrealized P&L and drift of `openTrades` from their latest snapshots.
+ */
+function reportPositions(title: string, openTrades: TradeExecution[], venues: Map<VenueName, Venue>): void {
+  const unrealizedPnl = new Map<VenueName, number>();
   let positveDrift = 0;
   let totalDrift = 0;
 
-  console.log(`\n=== Portfolio Monitor (${openTrades.length} positions) ===\n`);
+  console.log(`\n=== ${title} (${openTrades.length} positions) ===\n`);
 
   for (const trade of openTrades) {
-    const snap = latestSnapshots.get(trade.traceId);
+    // Drift from the most recent snapshot
+    const snap = latestSnapshot(trade.traceId);
     if (!snap) continue;
 
     // Drift: did market move toward our position?
     const dirSign = trade.direction === "YES" ? 1 : -1;
     const drift = (snap.currentProb - trade.marketProb) * dirSign;
 
-    totalUnrealizedPnl += snap.unrealizedPnl;
+    unrealizedPnl.set(trade.venue, (unrealizedPnl.get(trade.venue) ?? 0) + snap.unrealizedPnl);
     totalDrift++;
     if (drift > 0) positveDrift++;
 
     const driftStr = drift >= 0 ? "+" : "";
-    const pnlStr = snap.unrealizedPnl >= 0 ? `+M$${snap.unrealizedPnl.toFixed(1)}` : `M$${snap.unrealizedPnl.toFixed(1)}`;
+    const cur = venues.get(trade.venue)?.currency ?? "M$";
+    const pnlStr = snap.unrealizedPnl >= 0 ? `+${cur}${snap.unrealizedPnl.toFixed(1)}` : `${cur}${snap.unrealizedPnl.toFixed(1)}`;
     console.log(
       `  ${trade.direction} ${trade.question.slice(0, 50)} | ${pnlStr} | drift: ${driftStr}${(drift * 100).toFixed(1)}pts`
     );
   }
 
   const agreementRate = totalDrift > 0 ? positveDrift / totalDrift : 0;
-  const totalPnlStr = totalUnrealizedPnl >= 0 ? `+M$${totalUnrealizedPnl.toFixed(1)}` : `M$${totalUnrealizedPnl.toFixed(1)}`;
 
   console.log(`\n  --- Aggregate ---`);
-  console.log(`  Unrealized P&L: ${totalPnlStr}`);
+  console.log(`  Unrealized P&L: ${formatVenueTotals(unrealizedPnl, (venue) => venues.get(venue)?.currency ?? "M$")}`);
   console.log(`  Drift agreement: ${(agreementRate * 100).toFixed(0)}% (${positveDrift}/${totalDrift} positions moving our way)`);
 
   if (totalDrift >= 5 && agreementRate < 0.4) {
@@ -380,11 +428,107 @@ async function runMonitor() {
   console.log("");
 }
 
+/** Sum `amount` over `items` per venue. */
+function venueTotals<T extends { venue: VenueName }>(items: T[], amount: (item: T) => number): Map<VenueName, number> {
+  const totals = new Map<VenueName, number>();
+  for (const item of items) totals.set(item.venue, (totals.get(item.venue) ?? 0) + amount(item));
+  return totals;
+}
+
+/** "manifold +M$12.0 | polymarket $-3.5": each venue's total in its own currency. */
+function formatVenueTotals(totals: Map<VenueName, number>, currency: (venue: VenueName) => string): string {
+  if (totals.size === 0) return "0";
+  return [...totals]
+    .map(([venue, total]) => `${venue} ${total >= 0 ? "+" : ""}${currency(venue)}${total.toFixed(1)}`)
+    .join(" | ");
+}
+
+// --- Flags shared by backtest and optimize ---
+
+function flag(name: string): string | undefined {
+  const args = process.argv.slice(3);
+  const at = args.indexOf(name);
+  return at >= 0 ? args[at + 1] : undefined;
+}
+
+function numberList(name: string): number[] | undefined {
+  const raw = flag(name);
+  if (raw === undefined) return undefined;
+  const values = raw.split(",").map(Number);
+  if (values.some((v) => isNaN(v))) throw new Error(`${name} takes comma-separated numbers, got ${raw}`);
+  return values;
+}
+
+/** Per-confidence thresholds to try; `none` (no override) is returned as null. */
+function thresholdList(name: string): (number | null)[] | undefined {
+  const raw = flag(name);
+  if (raw === undefined) return undefined;
+  const values = raw.split(",").map((v) => (v.trim() === "none" ? null : Number(v)));
+  if (values.some((v) => v !== null && isNaN(v))) throw new Error(`${name} takes comma-separated numbers or none, got ${raw}`);
+  return values;
+}
+
+function replaySource() {
+  const venue = flag("--venue");
+  if (venue !== undefined && !VENUE_NAMES.includes(venue as LiveVenueName)) {
+    throw new Error(`--venue must be one of ${VENUE_NAMES.join(", ")}, got ${venue}`);
+  }
+  return { decisionsFile: flag("--decisions"), marketsFile: flag("--markets"), venue: venue as LiveVenueName | undefined };
+}
+
+function runBacktestCmd() {
+  const config = loadConfig();
+  runBacktest(config, {
+    ...replaySource(),
+    grid: { edgeThreshold: numberList("--edge"), kellyFraction: numberList("--kelly"), maxPositionPct: numberList("--max-position") },
+    bankroll: numberList("--bankroll")?.[0] ?? 1000,
+  });
+}
+
+function runOptimizeCmd() {
+  const config = loadConfig();
+  // The default thresholds are raw edges; annualized returns need their own
+  const annualized = config.edgeMode === "annualized";
+  const edges = numberList("--edge");
+  if (annualized && !edges) throw new Error("With EDGE_THRESHOLD_MODE=annualized, pass --edge values in annualized units");
+  const levels = (name: string, fallback?: (number | null)[]) => thresholdList(name) ?? (annualized ? undefined : fallback);
+  const defaults = DEFAULT_SPACE.edgeThresholdByConfidence;
+
+  const folds = numberList("--folds")?.[0] ?? 4;
+  if (!Number.isInteger(folds) || folds < 1) throw new Error("--folds must be a positive integer");
+  runOptimize(config, {
+    ...replaySource(),
+    space: {
+      edgeThreshold: edges ?? DEFAULT_SPACE.edgeThreshold,
+      kellyFraction: numberList("--kelly") ?? DEFAULT_SPACE.kellyFraction,
+      maxPositionPct: numberList("--max-position") ?? DEFAULT_SPACE.maxPositionPct,
+      edgeThresholdByConfidence: {
+        low: levels("--edge-low", defaults.low),
+        medium: levels("--edge-medium", defaults.medium),
+        high: levels("--edge-high", defaults.high),
+      },
+    },
+    folds,
+    minBets: numberList("--min-bets")?.[0] ?? 10,
+    bankroll: numberList("--bankroll")?.[0] ?? 1000,
+    envFile: flag("--env") ?? ".env",
+  });
+}
+
+function runImport() {
+  logInfo(`Importing legacy JSONL files into ${DB_FILE}...`);
+  const counts = importJsonlFiles();
+  for (const [table, n] of Object.entries(counts)) {
+    logInfo(`  ${table}: ${n} rows read`);
+  }
+  logInfo("Done. Rows already in the ledger were skipped; the JSONL files can now be archived.");
+}
+
 const command = process.argv[2] || "scan";
 
 switch (command) {
   case "scan":
-    runScan().catch((err) => {
+    runScan("manifold").catch((err) => {
       logError(err instanceof Error ? err.message : String(err));
       process.exit(1);
     });
@@ -411,7 +555,59 @@ switch (command) {
     runStats();
     break;
   case "poly:scan":
-    runPolyScan().catch((err) => {
+    runScan("polymarket").catch((err) => {
+      logError(err instanceof Error ? err.message : String(err));
+      process.exit(1);
+    });
+    break;
+  case "kalshi:scan":
+    runScan("kalshi").catch((err) => {
+      logError(err instanceof Error ? err.message : String(err));
+      process.exit(1);
+    });
+    break;
+  case "orders":
+    runOrdersCmd().catch((err) => {
+      logError(err instanceof Error ? err.message : String(err));
+      process.exit(1);
+    });
+    break;
+  case "mm":
+    runMarketMakerCmd().catch((err) => {
+      logError(err instanceof Error ? err.message : String(err));
+      process.exit(1);
+    });
+    break;
+  case "backtest":
+    try {
+      runBacktestCmd();
+    } catch (err) {
+      logError(err instanceof Error ? err.message : String(err));
+      process.exit(1);
+    }
+    break;
+  case "optimize":
+    try {
+      runOptimizeCmd();
+    } catch (err) {
+      logError(err instanceof Error ? err.message : String(err));
+      process.exit(1);
+    }
+    break;
+  case "import":
+    runImport();
+    break;
+  case "migrate":
+    runMigrate();
+    break;
+  case "reconcile":
+    runReconcileCmd().catch((err) => {
+      logError(err instanceof Error ? err.message : String(err));
+      process.exit(1);
+    });
+    break;
+  case "arb":
+    runArbCmd().catch((err) => {
       logError(err instanceof Error ? err.message : String(err));
       process.exit(1);
     });
@@ -423,6 +619,6 @@ switch (command) {
     });
     break;
   default:
-    logError(`Unknown command: ${command}. Use: scan, resolve, sell, monitor, stats, poly:scan, redeem:poly`);
+    logError(`Unknown command: ${command}. Use: scan, resolve, sell, monitor, stats, poly:scan, kalshi:scan, arb, orders, mm, backtest, optimize, redeem:poly, reconcile, import, migrate`);
     process.exit(1);
 }
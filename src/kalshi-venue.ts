@@ -0,0 +1,174 @@
+/**
+ * Kalshi venue adapter — CFTC-regulated USD event contracts. Markets are
+ * identified by ticker; orders buy YES or NO contracts that pay $1.
+ */
+
+import type { Config, Market, MarketFees, Venue } from "./types.js";
+import {
+  createKalshiClient,
+  fetchKalshiMarkets,
+  fetchKalshiMarket,
+  fetchKalshiOrderBook,
+  placeKalshiOrder,
+  findKalshiOrder,
+  getKalshiBalance,
+  getKalshiPositions,
+} from "./kalshi.js";
+import type { KalshiClient, KalshiMarket } from "./kalshi.js";
+import { effectiveBuyPrice } from "./polymarket.js";
+import type { BookLevel } from "./polymarket.js";
+import { feePerShare } from "./strategy.js";
+import { logInfo } from "./logger.js";
+
+function kalshiFees(takerRate: number): MarketFees {
+  return { takerRate, curve: "variance", settlementCost: 0 };
+}
+
+function toMarket(k: KalshiMarket, takerFee: number, yesPrice?: number): Market {
+  const mid = k.yesBid > 0 && k.yesAsk > 0 ? (k.yesBid + k.yesAsk) / 2 : k.lastPrice;
+  return {
+    id: k.ticker,
+    venue: "kalshi",
+    question: k.question,
+    description: k.rules,
+    url: `https://kalshi.com/markets/${k.eventTicker.toLowerCase()}`,
+    probability: yesPrice ?? mid,
+    liquidity: k.liquidity,
+    volume: k.volume24hr,
+    closeTime: k.closeTime.getTime(),
+    mechanism: "clob",
+    creator: "kalshi",
+    uniqueBettorCount: 0,
+    isResolved: k.result !== null,
+    eventId: k.eventTicker,
+    fees: kalshiFees(takerFee),
+  };
+}
+
+/**
+ * Highest ask level needed to buy `count` contracts, or null if the book is too thin.
+ * Used as the FOK limit so the whole sweep is allowed to fill.
+ */
+function sweepLimit(asks: BookLevel[], count: number): number | null {
+  const sorted = [...asks].sort((a, b) => parseFloat(a.price) - parseFloat(b.price));
+  let remaining = count;
+  for (const level of sorted) {
+    remaining -= parseFloat(level.size);
+    if (remaining <= 0) return parseFloat(level.price);
+  }
+  return null;
+}
+
+export function createKalshiVenue(config: Config): Venue {
+  // Lazily created so resolve/monitor don't need Kalshi credentials on disk
+  let client: KalshiClient | undefined;
+  const getClient = () => (client ??= createKalshiClient(config));
+
+  return {
+    name: "kalshi",
+    currency: "$",
+    maxBetAmount: config.kalshiMaxBetAmount,
+    maxMarketsPerRun: config.kalshiMaxMarketsPerRun,
+
+    async listMarkets(exclude) {
+      logInfo(`Fetching Kalshi markets (series: ${config.kalshiSeries.join(", ") || "all"})...`);
+      const markets = await fetchKalshiMarkets(getClient(), {
+        seriesTickers: config.kalshiSeries,
+        minVolume24hr: config.kalshiMinVolume24hr,
+      });
+      const filtered = markets
+        .filter((m) => m.yesAsk >= 0.05 && m.yesAsk <= 0.95 && !exclude.has(m.ticker))
+        .sort((a, b) => b.volume24hr - a.volume24hr);
+      logInfo(`Fetched ${markets.length} markets, ${filtered.length} pass filters`);
+
+      // Price each candidate at its effective YES fill for a max-size order
+      const preCandidates = filtered.slice(0, config.kalshiMaxMarketsPerRun * 2);
+      logInfo(`Fetching orderbook depth for ${preCandidates.length} markets...`);
+      const priced = await Promise.all(
+        preCandidates.map(async (m): Promise<Market | null> => {
+          try {
+            const book = await fetchKalshiOrderBook(getClient(), m.ticker);
+            const yesEffective = effectiveBuyPrice(book.yesAsks, config.kalshiMaxBetAmount);
+            const noEffective = effectiveBuyPrice(book.noAsks, config.kalshiMaxBetAmount);
+            if (yesEffective === null && noEffective === null) return null;
+            return toMarket(m, config.kalshiTakerFee, yesEffective ?? undefined);
+          } catch {
+            // On book fetch failure, keep quoted prices rather than dropping
+            return toMarket(m, config.kalshiTakerFee);
+          }
+        })
+      );
+      const fillable = priced.filter((m): m is Market => m !== null);
+      logInfo(`${fillable.length}/${preCandidates.length} markets have fillable depth`);
+
+      return fillable.slice(0, config.kalshiMaxMarketsPerRun);
+    },
+
+    async fetchMarket(marketId) {
+      return toMarket(await fetchKalshiMarket(getClient(), marketId), config.kalshiTakerFee);
+    },
+
+    async quoteFillPrice(market, direction, amount) {
+      const book = await fetchKalshiOrderBook(getClient(), market.id);
+      return effectiveBuyPrice(direction === "YES" ? book.yesAsks : book.noAsks, amount);
+    },
+
+    async placeOrder(decision, idempotencyKey) {
+      const side = decision.direction!;
+      const book = await fetchKalshiOrderBook(getClient(), decision.marketId);
+      const asks = side === "YES" ? book.yesAsks : book.noAsks;
+
+      const avgPrice = effectiveBuyPrice(asks, decision.betAmount);
+      if (avgPrice === null) throw new Error("Insufficient Kalshi book depth to fill");
+      // Size so contracts plus the taker fee, which Kalshi rounds up to the cent, fit the bet
+      const fee = feePerShare(kalshiFees(config.kalshiTakerFee), avgPrice);
+      const cost = (n: number) => n * avgPrice + Math.ceil(n * fee * 100) / 100;
+      let count = Math.floor(decision.betAmount / (avgPrice + fee));
+      while (count > 0 && cost(count) > decision.betAmount) count--;
+      const limitPrice = count > 0 ? sweepLimit(asks, count) : null;
+      if (limitPrice === null) throw new Error("Order too small for one Kalshi contract");
+
+      const result = await placeKalshiOrder(getClient(), {
+        ticker: decision.marketId,
+        side,
+        count,
+        limitPrice,
+        clientOrderId: idempotencyKey,
+      });
+      return { orderId: result.orderId, shares: result.filled, cost: result.cost };
+    },
+
+    async findFill(decision, idempotencyKey, since) {
+      const order = await findKalshiOrder(getClient(), {
+        ticker: decision.marketId,
+        clientOrderId: idempotencyKey,
+        since,
+      });
+      return order && order.filled > 0 ? { orderId: order.orderId, shares: order.filled, cost: order.cost } : null;
+    },
+
+    async fetchPositions() {
+      const positions = await getKalshiPositions(getClient());
+      return positions.map((p) => ({
+        marketId: p.ticker,
+        outcome: p.side,
+        shares: p.contracts,
+        avgPrice: p.exposure / p.contracts,
+      }));
+    },
+
+    async checkResolution(marketId) {
+      const market = await fetchKalshiMarket(getClient(), marketId);
+      if (market.result === null) return { resolved: false };
+      return { resolved: true, outcome: market.result === "VOID" ? "CANCEL" : market.result };
+    },
+
+    /** Cash balance plus the cost of open positions. */
+    async getBankroll() {
+      const [balance, positions] = await Promise.all([getKalshiBalance(getClient()), getKalshiPositions(getClient())]);
+      const held = positions.reduce((sum, p) => sum + p.exposure, 0);
+      logInfo(`Kalshi balance: $${balance.toFixed(2)} + positions $${held.toFixed(2)}`);
+      return balance + held;
+    },
+  };
+}
@@ -0,0 +1,311 @@
+/**
+ * Kalshi REST client (trade-api v2).
+ *
+ * Market data endpoints are public. Portfolio endpoints are signed: each
+ * request carries KALSHI-ACCESS-KEY, KALSHI-ACCESS-TIMESTAMP and an RSA-PSS
+ * SHA-256 signature over `timestamp + METHOD + path` (path without query).
+ *
+ * Prices on the wire are integer cents (1–99); we convert to 0–1 at the edge.
+ */
+
+import { readFileSync } from "fs";
+import { constants, sign } from "crypto";
+import type { Config } from "./types.js";
+import type { BookLevel } from "./polymarket.js";
+import { withRetry } from "./utils.js";
+
+const DEFAULT_API_BASE = "https://api.elections.kalshi.com/trade-api/v2";
+const FETCH_TIMEOUT_MS = 15_000;
+
+// === Types ===
+
+export interface KalshiClient {
+  baseUrl: string;
+  keyId?: string;
+  privateKeyPem?: string;
+}
+
+interface KalshiApiMarket {
+  ticker: string;
+  event_ticker: string;
+  market_type: string;      // "binary" | "scalar"
+  title: string;
+  yes_sub_title?: string;
+  rules_primary?: string;
+  status: string;           // "active" | "open" | "closed" | "settled" | "finalized"
+  close_time: string;
+  yes_bid: number;          // cents
+  yes_ask: number;
+  last_price: number;
+  volume_24h: number;       // contracts
+  liquidity: number;        // cents
+  open_interest: number;
+  result?: string;          // "yes" | "no" | "void" | ""
+}
+
+export interface KalshiMarket {
+  ticker: string;
+  eventTicker: string;
+  question: string;
+  rules: string;
+  yesBid: number;
+  yesAsk: number;
+  lastPrice: number;
+  volume24hr: number;
+  liquidity: number;
+  closeTime: Date;
+  status: string;
+  result: "YES" | "NO" | "VOID" | null;
+}
+
+export interface KalshiOrderBook {
+  // Derived ask ladders: buying YES lifts NO bids at (1 - price), and vice versa
+  yesAsks: BookLevel[];
+  noAsks: BookLevel[];
+}
+
+export interface KalshiPosition {
+  ticker: string;
+  side: "YES" | "NO";
+  contracts: number;
+  exposure: number; // dollars
+}
+
+// === Client ===
+
+export function createKalshiClient(config: Config): KalshiClient {
+  return {
+    baseUrl: config.kalshiApiBase ?? DEFAULT_API_BASE,
+    keyId: config.kalshiApiKeyId,
+    privateKeyPem: config.kalshiPrivateKeyPath
+      ? readFileSync(config.kalshiPrivateKeyPath, "utf-8")
+      : undefined,
+  };
+}
+
+function signHeaders(client: KalshiClient, method: string, url: URL): Record<string, string> {
+  if (!client.keyId || !client.privateKeyPem) {
+    throw new Error("KALSHI_API_KEY_ID and KALSHI_PRIVATE_KEY_PATH are required for Kalshi trading");
+  }
+  const timestamp = String(Date.now());
+  const signature = sign("sha256", Buffer.from(timestamp + method + url.pathname), {
+    key: client.privateKeyPem,
+    padding: constants.RSA_PKCS1_PSS_PADDING,
+    saltLength: constants.RSA_PSS_SALTLEN_DIGEST,
+  });
+  return {
+    "KALSHI-ACCESS-KEY": client.keyId,
+    "KALSHI-ACCESS-TIMESTAMP": timestamp,
+    "KALSHI-ACCESS-SIGNATURE": signature.toString("base64"),
+  };
+}
+
+async function kalshiRequest<T>(
+  client: KalshiClient,
+  method: "GET" | "POST",
+  path: string,
+  options: { params?: Record<string, string>; body?: unknown; signed?: boolean } = {}
+): Promise<T> {
+  const url = new URL(`${client.baseUrl}${path}`);
+  for (const [k, v] of Object.entries(options.params ?? {})) {
+    url.searchParams.set(k, v);
+  }
+
+  const headers: Record<string, string> = { "User-Agent": "polyedge/1.0" };
+  if (options.body !== undefined) headers["Content-Type"] = "application/json";
+
+  const doFetch = () => fetch(url.toString(), {
+    method,
+    // Re-sign each attempt so retries carry a fresh timestamp
+    headers: options.signed ? { ...headers, ...signHeaders(client, method, url) } : headers,
+    body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+  });
+
+  let res: Response;
+  try {
+    // Never retry POSTs — a timeout after acceptance would place a second order
+    res = method === "GET" ? await withRetry(doFetch, 3, 1000) : await doFetch();
+  } catch (err) {
+    throw new Error(`Kalshi API ${method} ${path}: network error: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  if (!res.ok) {
+    const body = await res.text().catch(() => "(unreadable body)");
+    throw new Error(`Kalshi API ${method} ${path}: ${res.status} ${body}`);
+  }
+
+  try {
+    return (await res.json()) as T;
+  } catch {
+    throw new Error(`Kalshi API ${method} ${path}: invalid JSON response`);
+  }
+}
+
+function parseMarket(m: KalshiApiMarket): KalshiMarket {
+  const result = m.result === "yes" ? "YES" : m.result === "no" ? "NO" : m.result === "void" ? "VOID" : null;
+  return {
+    ticker: m.ticker,
+    eventTicker: m.event_ticker,
+    question: m.yes_sub_title ? `${m.title} — ${m.yes_sub_title}` : m.title,
+    rules: m.rules_primary ?? "",
+    yesBid: m.yes_bid / 100,
+    yesAsk: m.yes_ask / 100,
+    lastPrice: m.last_price / 100,
+    volume24hr: m.volume_24h,
+    liquidity: m.liquidity / 100,
+    closeTime: new Date(m.close_time),
+    status: m.status,
+    result,
+  };
+}
+
+// === Market Data (public) ===
+
+/**
+ * List open binary markets, optionally restricted to a set of series
+ * (e.g. KXBTCD for daily BTC strikes). Follows cursors up to `maxPages`.
+ */
+export async function fetchKalshiMarkets(
+  client: KalshiClient,
+  options: { seriesTickers?: string[]; minVolume24hr?: number; maxPages?: number } = {}
+): Promise<KalshiMarket[]> {
+  const series = options.seriesTickers?.length ? options.seriesTickers : [undefined];
+  const results: KalshiMarket[] = [];
+
+  for (const seriesTicker of series) {
+    let cursor = "";
+    for (let page = 0; page < (options.maxPages ?? 5); page++) {
+      const params: Record<string, string> = { status: "open", limit: "200" };
+      if (seriesTicker) params.series_ticker = seriesTicker;
+      if (cursor) params.cursor = cursor;
+
+      const data = await kalshiRequest<{ markets: KalshiApiMarket[]; cursor?: string }>(
+        client, "GET", "/markets", { params }
+      );
+
+      for (const m of data.markets ?? []) {
+        if (m.market_type !== "binary") continue;
+        if (m.volume_24h < (options.minVolume24hr ?? 0)) continue;
+        results.push(parseMarket(m));
+      }
+
+      cursor = data.cursor ?? "";
+      if (!cursor) break;
+    }
+  }
+
+  return results;
+}
+
+export async function fetchKalshiMarket(client: KalshiClient, ticker: string): Promise<KalshiMarket> {
+  const data = await kalshiRequest<{ market: KalshiApiMarket }>(client, "GET", `/markets/${ticker}`);
+  return parseMarket(data.market);
+}
+
+/**
+ * Kalshi books only carry bids (`yes` and `no` arrays of [priceCents, count]).
+ * A YES bid at p is a NO offer at 1 - p, so each side's asks come from the
+ * opposite side's bids.
+ */
+export async function fetchKalshiOrderBook(client: KalshiClient, ticker: string): Promise<KalshiOrderBook> {
+  const data = await kalshiRequest<{ orderbook: { yes?: [number, number][] | null; no?: [number, number][] | null } }>(
+    client, "GET", `/markets/${ticker}/orderbook`
+  );
+  const toAsks = (bids: [number, number][] | null | undefined): BookLevel[] =>
+    (bids ?? []).map(([price, count]) => ({ price: String((100 - price) / 100), size: String(count) }));
+
+  return {
+    yesAsks: toAsks(data.orderbook.no),
+    noAsks: toAsks(data.orderbook.yes),
+  };
+}
+
+// === Trading & Portfolio (signed) ===
+
+interface KalshiOrder {
+  order_id: string;
+  client_order_id?: string;
+  status: string;
+  fill_count?: number;
+  // Cents
+  taker_fill_cost?: number;
+  maker_fill_cost?: number;
+  taker_fees?: number;
+  maker_fees?: number;
+}
+
+/** What the filled part of an order cost in dollars, fees included, when Kalshi reports it. */
+function orderCost(o: KalshiOrder): number | undefined {
+  if (o.taker_fill_cost === undefined && o.maker_fill_cost === undefined) return undefined;
+  return ((o.taker_fill_cost ?? 0) + (o.maker_fill_cost ?? 0) + (o.taker_fees ?? 0) + (o.maker_fees ?? 0)) / 100;
+}
+
+export async function placeKalshiOrder(
+  client: KalshiClient,
+  order: { ticker: string; side: "YES" | "NO"; count: number; limitPrice: number; clientOrderId: string },
+): Promise<{ orderId: string; status: string; filled: number; cost?: number }> {
+  const priceCents = Math.min(99, Math.max(1, Math.ceil(order.limitPrice * 100)));
+  const side = order.side === "YES" ? "yes" : "no";
+
+  const data = await kalshiRequest<{ order: KalshiOrder }>(
+    client, "POST", "/portfolio/orders", {
+      signed: true,
+      body: {
+        ticker: order.ticker,
+        action: "buy",
+        side,
+        type: "limit",
+        count: order.count,
+        [`${side}_price`]: priceCents,
+        time_in_force: "fill_or_kill",
+        client_order_id: order.clientOrderId,
+      },
+    }
+  );
+
+  return {
+    orderId: data.order.order_id,
+    status: data.order.status,
+    filled: data.order.fill_count ?? (data.order.status === "executed" ? order.count : 0),
+    cost: orderCost(data.order),
+  };
+}
+
+/**
+ * Look up one of our orders by client order id, among orders on `ticker`
+ * created since `since`. Null if Kalshi never saw it.
+ */
+export async function findKalshiOrder(
+  client: KalshiClient,
+  params: { ticker: string; clientOrderId: string; since: Date },
+): Promise<{ orderId: string; status: string; filled: number; cost?: number } | null> {
+  const data = await kalshiRequest<{ orders: KalshiOrder[] }>(client, "GET", "/portfolio/orders", {
+    signed: true,
+    params: { ticker: params.ticker, min_ts: String(Math.floor(params.since.getTime() / 1000)) },
+  });
+
+  const order = (data.orders ?? []).find((o) => o.client_order_id === params.clientOrderId);
+  if (!order) return null;
+  return { orderId: order.order_id, status: order.status, filled: order.fill_count ?? 0, cost: orderCost(order) };
+}
+
+export async function getKalshiBalance(client: KalshiClient): Promise<number> {
+  const data = await kalshiRequest<{ balance: number }>(client, "GET", "/portfolio/balance", { signed: true });
+  return data.balance / 100;
+}
+
+export async function getKalshiPositions(client: KalshiClient): Promise<KalshiPosition[]> {
+  const data = await kalshiRequest<{
+    market_positions: { ticker: string; position: number; market_exposure: number }[];
+  }>(client, "GET", "/portfolio/positions", { signed: true, params: { count_filter: "position" } });
+
+  return (data.market_positions ?? [])
+    .filter((p) => p.position !== 0)
+    .map((p) => ({
+      ticker: p.ticker,
+      side: p.position > 0 ? "YES" as const : "NO" as const,
+      contracts: Math.abs(p.position),
+      exposure: p.market_exposure / 100,
+    }));
+}
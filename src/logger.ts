@@ -1,13 +1,8 @@
-import { appendFileSync } from "fs";
-import { DECISIONS_FILE, TRADES_FILE, RESOLUTIONS_FILE, SNAPSHOTS_FILE } from "./data.js";
+import { insertDecision, insertTrade, insertResolution, insertSnapshot } from "./data.js";
 import type { TradeDecision, TradeExecution, Resolution, PositionSnapshot } from "./types.js";
 
-function appendJsonl(file: string, data: unknown): void {
-  appendFileSync(file, JSON.stringify(data) + "\n");
-}
-
-export function logDecision(decision: TradeDecision): void {
-  appendJsonl(DECISIONS_FILE, decision);
+export function logDecision(decision: TradeDecision, currency = "M$"): void {
+  insertDecision(decision);
 
   const symbol = decision.action === "BET" ? ">>>" : "---";
   const edgePct = (decision.edge * 100).toFixed(1);
@@ -20,22 +15,22 @@ export function logDecision(decision: TradeDecision): void {
   console.log(
     `      Est: ${estPct}% | Mkt: ${mktPct}% | Edge: ${edgePct}% | ${decision.action}${
       decision.action === "BET"
-        ? ` → ${decision.direction} M$${decision.betAmount.toFixed(0)}`
+        ? ` → ${decision.direction} ${currency}${decision.betAmount.toFixed(0)}`
         : ""
     }`
   );
 }
 
 export function logTrade(trade: TradeExecution): void {
-  appendJsonl(TRADES_FILE, trade);
+  insertTrade(trade);
 }
 
 export function logResolution(resolution: Resolution): void {
-  appendJsonl(RESOLUTIONS_FILE, resolution);
+  insertResolution(resolution);
 }
 
 export function logSnapshot(snapshot: PositionSnapshot): void {
-  appendJsonl(SNAPSHOTS_FILE, snapshot);
+  insertSnapshot(snapshot);
 }
 
 export function logInfo(msg: string): void {
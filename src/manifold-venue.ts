@@ -0,0 +1,269 @@
+/**
+ * Manifold Markets venue adapter — play-money CPMM markets via the REST API.
+ */
+
+import type { Config, Market, ManifoldBet, ManifoldMarket, MarketResolution, OpenOrder, Venue, VenuePosition } from "./types.js";
+import { getMe, getPortfolio, searchMarkets, getMarket, getBets, getAllBets, placeBet, sellShares, cancelBet } from "./manifold.js";
+import { filterMarkets, MAX_OUTCOMES } from "./strategy.js";
+import { logInfo, logError } from "./logger.js";
+import { cpmmBuy, cpmmSell } from "./cpmm.js";
+
+function toMarket(m: ManifoldMarket): Market {
+  // Extract text description, handling various formats
+  let description = "";
+  if (m.textDescription) {
+    description = m.textDescription;
+  } else if (typeof m.description === "string") {
+    description = m.description;
+  } else if (m.description && typeof m.description === "object") {
+    // Manifold uses TipTap JSON format — extract text nodes
+    description = extractText(m.description);
+  }
+
+  return {
+    id: m.id,
+    venue: "manifold",
+    question: m.question,
+    description,
+    url: m.url,
+    probability: m.probability,
+    liquidity: m.totalLiquidity,
+    volume: m.volume,
+    closeTime: m.closeTime,
+    mechanism: "cpmm",
+    creator: m.creatorUsername,
+    uniqueBettorCount: m.uniqueBettorCount ?? 0,
+    isResolved: m.isResolved,
+    cpmm: m.pool && m.p !== undefined ? { pool: m.pool, p: m.p } : undefined,
+    outcomes: toOutcomes(m),
+  };
+}
+
+/**
+ * Answers of a sum-to-one multiple-choice market as outcomes. Markets whose
+ * answers can resolve independently aren't mutually exclusive, so they get none.
+ */
+function toOutcomes(m: ManifoldMarket): Market["outcomes"] {
+  if (m.outcomeType !== "MULTIPLE_CHOICE" || !m.shouldAnswersSumToOne || !m.answers) return undefined;
+  if (m.answers.length < 2 || m.answers.length > MAX_OUTCOMES) return undefined;
+  return m.answers.map((a) => ({ id: a.id, label: a.text, probability: a.probability }));
+}
+
+/**
+ * One answer of a multiple-choice market as a binary market, for pricing and
+ * exiting a position in it. Answer pools are linked, so there's no pool state.
+ */
+function answerMarket(m: ManifoldMarket, answerId: string): Market {
+  const answer = m.answers?.find((a) => a.id === answerId);
+  if (!answer) throw new Error(`Answer ${answerId} not found on market ${m.id}`);
+  return {
+    ...toMarket(m),
+    question: `${m.question} — ${answer.text}`,
+    probability: answer.probability,
+    cpmm: undefined,
+    outcomes: undefined,
+  };
+}
+
+/**
+ * Resolution of one answer. Older markets only record the winning answer id
+ * on the market itself.
+ */
+function answerResolution(m: ManifoldMarket, answerId: string): MarketResolution {
+  const answer = m.answers?.find((a) => a.id === answerId);
+  if (answer?.resolution) {
+    return { resolved: true, outcome: answer.resolution as "YES" | "NO" | "CANCEL" };
+  }
+  if (!m.isResolved || !m.resolution) return { resolved: false };
+  if (m.resolution === "CANCEL") return { resolved: true, outcome: "CANCEL" };
+  return { resolved: true, outcome: m.resolution === answerId ? "YES" : "NO" };
+}
+
+/** True while a limit bet's remainder is still on the book. */
+function isResting(bet: ManifoldBet, now = Date.now()): boolean {
+  return bet.limitProb !== undefined
+    && !bet.isFilled
+    && !bet.isCancelled
+    && (bet.expiresAt === undefined || bet.expiresAt > now);
+}
+
+/**
+ * Net holdings per (market, answer, outcome) from a user's bets. Sells carry
+ * negative shares; a cancelled limit order keeps what filled before the cancel.
+ */
+export function betPositions(bets: ManifoldBet[]): VenuePosition[] {
+  const byKey = new Map<string, VenuePosition & { cost: number }>();
+  for (const bet of bets) {
+    if ((bet.isCancelled && bet.limitProb === undefined) || bet.isRedemption) continue;
+    if (bet.outcome !== "YES" && bet.outcome !== "NO") continue;
+    const key = `${bet.contractId}:${bet.answerId ?? ""}:${bet.outcome}`;
+    const pos = byKey.get(key) ?? {
+      marketId: bet.contractId,
+      answerId: bet.answerId,
+      outcome: bet.outcome,
+      shares: 0,
+      avgPrice: 0,
+      cost: 0,
+    };
+    pos.shares += bet.shares;
+    pos.cost += bet.amount;
+    byKey.set(key, pos);
+  }
+
+  return [...byKey.values()]
+    .filter((p) => p.shares > 0.01)
+    .map(({ cost, ...p }) => ({ ...p, avgPrice: cost / p.shares }));
+}
+
+function extractText(node: unknown): string {
+  if (!node || typeof node !== "object") return "";
+  const n = node as Record<string, unknown>;
+  if (n.type === "text" && typeof n.text === "string") return n.text;
+  if (Array.isArray(n.content)) {
+    return n.content.map(extractText).join(" ");
+  }
+  return "";
+}
+
+export function createManifoldVenue(config: Config): Venue {
+  const apiKey = config.manifoldApiKey;
+  let userId: string | undefined;
+
+  async function findBet(order: OpenOrder): Promise<ManifoldBet> {
+    userId ??= (await getMe(apiKey)).id;
+    const bets = await getBets(apiKey, { userId, contractId: order.decision.marketId, limit: 100 });
+    const bet = bets.find((b) => b.id === order.orderId);
+    if (!bet) throw new Error(`Limit order ${order.orderId} not found`);
+    return bet;
+  }
+
+  return {
+    name: "manifold",
+    currency: "M$",
+    maxBetAmount: config.maxBetAmount,
+    maxMarketsPerRun: config.maxMarketsPerRun,
+
+    async listMarkets(exclude) {
+      logInfo("Searching for markets...");
+      const rawMarkets = await searchMarkets(apiKey, 50);
+      if (config.multiOutcome) rawMarkets.push(...await searchMarkets(apiKey, 50, "MULTIPLE_CHOICE"));
+      logInfo(`Fetched ${rawMarkets.length} markets`);
+
+      const candidates = filterMarkets(rawMarkets, config).filter((m) => !exclude.has(m.id));
+      logInfo(`${candidates.length} markets pass filters (excl. held positions)`);
+
+      // Search results are lite — fetch full markets for descriptions
+      const markets: Market[] = [];
+      for (const lite of candidates.slice(0, config.maxMarketsPerRun)) {
+        try {
+          const market = toMarket(await getMarket(apiKey, lite.id));
+          if (lite.outcomeType === "MULTIPLE_CHOICE" && !market.outcomes) continue;
+          markets.push(market);
+        } catch (err) {
+          const msg = err instanceof Error ? err.message : String(err);
+          logError(`Failed to fetch market ${lite.id}: ${msg}`);
+        }
+      }
+      return markets;
+    },
+
+    async fetchMarket(marketId, answerId) {
+      const market = await getMarket(apiKey, marketId);
+      return answerId ? answerMarket(market, answerId) : toMarket(market);
+    },
+
+    async quoteFillPrice(market, direction, amount) {
+      if (market.cpmm && amount > 0) return amount / cpmmBuy(market.cpmm, direction, amount).shares;
+      // No pool state: approximate the average fill as moving ~amount / (4 * liquidity)
+      const sideProb = direction === "YES" ? market.probability : 1 - market.probability;
+      return Math.min(0.99, sideProb + amount / (4 * market.liquidity));
+    },
+
+    async quoteSellPrice(position, market) {
+      const sideProb = position.direction === "YES" ? market.probability : 1 - market.probability;
+      if (!market.cpmm || !position.shares) return sideProb;
+      return cpmmSell(market.cpmm, position.direction, position.shares).proceeds / position.shares;
+    },
+
+    async placeOrder(decision) {
+      // Manifold has no client order ids — duplicates are caught via findFill
+      if (decision.limitProb === undefined) {
+        const result = await placeBet(apiKey, decision.marketId, decision.direction!, decision.betAmount, decision.answerId);
+        return { betId: result.betId, shares: result.shares };
+      }
+
+      const expiresAt = Date.now() + config.manifoldLimitExpiryHours * 3_600_000;
+      const result = await placeBet(apiKey, decision.marketId, decision.direction!, decision.betAmount, decision.answerId, {
+        prob: decision.limitProb,
+        expiresAt,
+      });
+      return {
+        betId: result.betId,
+        shares: result.shares,
+        cost: result.amount ?? 0,
+        resting: result.isFilled === false,
+        expiresAt: new Date(expiresAt).toISOString(),
+      };
+    },
+
+    async findFill(decision, _key, since) {
+      userId ??= (await getMe(apiKey)).id;
+      const bets = await getBets(apiKey, { userId, contractId: decision.marketId, limit: 20 });
+      // A cancelled limit order keeps what filled before the cancel
+      const bet = bets.find((b) =>
+        (!b.isCancelled || b.limitProb !== undefined)
+        && b.outcome === decision.direction
+        && b.answerId === decision.answerId
+        && b.createdTime >= since.getTime()
+        && Math.abs((b.orderAmount ?? b.amount) - decision.betAmount) < 0.01
+      );
+      if (!bet) return null;
+      if (bet.limitProb === undefined) return { betId: bet.id, shares: bet.shares };
+      return {
+        betId: bet.id,
+        shares: bet.shares,
+        cost: bet.amount,
+        resting: isResting(bet),
+        expiresAt: bet.expiresAt !== undefined ? new Date(bet.expiresAt).toISOString() : undefined,
+      };
+    },
+
+    async getOrder(order) {
+      const bet = await findBet(order);
+      return { shares: bet.shares, cost: bet.amount, open: isResting(bet) };
+    },
+
+    async cancelOrder(order) {
+      await cancelBet(apiKey, order.orderId);
+    },
+
+    async sell(position) {
+      const result = await sellShares(apiKey, position.marketId, position.direction, position.answerId);
+      return { betId: result.betId, shares: Math.abs(result.shares), proceeds: Math.abs(result.amount) };
+    },
+
+    async fetchPositions() {
+      const me = await getMe(apiKey);
+      return betPositions(await getAllBets(apiKey, { userId: me.id }));
+    },
+
+    async checkResolution(marketId, answerId) {
+      const market = await getMarket(apiKey, marketId);
+      if (answerId) return answerResolution(market, answerId);
+      if (!market.isResolved || !market.resolution) return { resolved: false };
+      return {
+        resolved: true,
+        outcome: market.resolution as "YES" | "NO" | "MKT" | "CANCEL",
+        resolutionProbability: market.resolutionProbability,
+      };
+    },
+
+    /** Mana balance plus the current value of open positions. */
+    async getBankroll() {
+      const me = await getMe(apiKey);
+      const { investmentValue } = await getPortfolio(apiKey, me.id);
+      logInfo(`User: ${me.username} | Balance: M$${me.balance.toFixed(0)} + positions M$${investmentValue.toFixed(0)}`);
+      return me.balance + investmentValue;
+    },
+  };
+}
@@ -1,4 +1,4 @@
-import type { ManifoldUser, ManifoldMarket, BetResponse } from "./types.js";
+import type { ManifoldUser, ManifoldPortfolio, ManifoldMarket, ManifoldBet, BetResponse } from "./types.js";
 import { withRetry } from "./utils.js";
 
 const BASE = "https://api.manifold.markets/v0";
@@ -54,6 +54,8 @@ async function manifoldGet<T>(
   }
 }
 
+// POSTs are never retried here: a timeout can hide a bet Manifold accepted.
+// executor.ts retries orders only after checking bet history.
 async function manifoldPost<T>(
   path: string,
   apiKey: string,
@@ -63,7 +65,7 @@ async function manifoldPost<T>(
 
   let res: Response;
   try {
-    res = await withRetry(() => fetch(`${BASE}${path}`, {
+    res = await fetch(`${BASE}${path}`, {
       method: "POST",
       headers: {
         Authorization: `Key ${apiKey}`,
@@ -71,7 +73,7 @@ async function manifoldPost<T>(
       },
       body: JSON.stringify(body),
       signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
-    }), 3, 1000);
+    });
   } catch (err) {
     throw new Error(`Manifold API POST ${path}: network error: ${err instanceof Error ? err.message : String(err)}`);
   }
@@ -92,13 +94,18 @@ export async function getMe(apiKey: string): Promise<ManifoldUser> {
   return manifoldGet<ManifoldUser>("/me", apiKey);
 }
 
+export async function getPortfolio(apiKey: string, userId: string): Promise<ManifoldPortfolio> {
+  return manifoldGet<ManifoldPortfolio>("/get-user-portfolio", apiKey, { userId });
+}
+
 export async function searchMarkets(
   apiKey: string,
-  limit: number = 50
+  limit: number = 50,
+  contractType: "BINARY" | "MULTIPLE_CHOICE" = "BINARY"
 ): Promise<ManifoldMarket[]> {
   return manifoldGet<ManifoldMarket[]>("/search-markets", apiKey, {
     filter: "open",
-    contractType: "BINARY",
+    contractType,
     sort: "liquidity",
     limit: String(limit),
   });
@@ -111,23 +118,63 @@ export async function getMarket(
   return manifoldGet<ManifoldMarket>(`/market/${marketId}`, apiKey);
 }
 
+export async function getBets(
+  apiKey: string,
+  params: { userId?: string; contractId?: string; limit?: number }
+): Promise<ManifoldBet[]> {
+  const query: Record<string, string> = { limit: String(params.limit ?? 1000) };
+  if (params.userId) query.userId = params.userId;
+  if (params.contractId) query.contractId = params.contractId;
+  return manifoldGet<ManifoldBet[]>("/bets", apiKey, query);
+}
+
+const BETS_PAGE_SIZE = 1000;
+
+/** Every bet matching `params`, newest first, paging back with `before`. */
+export async function getAllBets(
+  apiKey: string,
+  params: { userId?: string; contractId?: string }
+): Promise<ManifoldBet[]> {
+  const all: ManifoldBet[] = [];
+  for (;;) {
+    const query: Record<string, string> = { limit: String(BETS_PAGE_SIZE) };
+    if (params.userId) query.userId = params.userId;
+    if (params.contractId) query.contractId = params.contractId;
+    if (all.length > 0) query.before = all[all.length - 1]!.id;
+    const page = await manifoldGet<ManifoldBet[]>("/bets", apiKey, query);
+    all.push(...page);
+    if (page.length < BETS_PAGE_SIZE) return all;
+  }
+}
+
 export async function placeBet(
   apiKey: string,
   marketId: string,
   outcome: "YES" | "NO",
-  amount: number
+  amount: number,
+  answerId?: string,
+  limit?: { prob: number; expiresAt: number }
 ): Promise<BetResponse> {
   return manifoldPost<BetResponse>("/bet", apiKey, {
     contractId: marketId,
     outcome,
     amount: Math.round(amount),
+    ...(answerId ? { answerId } : {}),
+    // Fills against the pool up to limitProb; the rest rests until expiresAt
+    ...(limit ? { limitProb: limit.prob, expiresAt: limit.expiresAt } : {}),
   });
 }
 
+export async function cancelBet(apiKey: string, betId: string): Promise<void> {
+  await manifoldPost(`/bet/cancel/${betId}`, apiKey, {});
+}
+
 export async function sellShares(
   apiKey: string,
   marketId: string,
-  outcome: "YES" | "NO"
-): Promise<unknown> {
-  return manifoldPost(`/market/${marketId}/sell`, apiKey, { outcome });
+  outcome: "YES" | "NO",
+  answerId?: string
+): Promise<{ betId: string; amount: number; shares: number }> {
+  // Returns the sale as a bet: negative amount (= proceeds) and negative shares
+  return manifoldPost(`/market/${marketId}/sell`, apiKey, { outcome, ...(answerId ? { answerId } : {}) });
 }
@@ -9,6 +9,8 @@
  */
 
 import { loadConfig } from "./config.js";
+import { classifyQuestion } from "./categories.js";
+import { RESOLVED_MARKETS_FILE } from "./backtest.js";
 import { writeFileSync, mkdirSync } from "fs";
 import { join, dirname } from "path";
 import { fileURLToPath } from "url";
@@ -16,72 +18,6 @@ import { fileURLToPath } from "url";
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const BASE = "https://api.manifold.markets/v0";
 
-// ---------------------------------------------------------------------------
-// Category classification via keyword matching on question text
-// ---------------------------------------------------------------------------
-
-interface CategoryRule {
-  name: string;
-  keywords: RegExp;
-}
-
-const CATEGORY_RULES: CategoryRule[] = [
-  {
-    name: "US Politics",
-    keywords:
-      /\b(trump|biden|democrat|republican|congress|senate|gop|potus|scotus|roe v wade|electoral|midterm|presidential|governor|desantis|RFK|kamala|harris|pelosi|mcconnell)\b/i,
-  },
-  {
-    name: "World Politics",
-    keywords:
-      /\b(ukraine|russia|china|xi jinping|putin|nato|eu\b|european union|brexit|israel|gaza|palestine|iran|north korea|modi|macron|zelensky|war\b|invasion|ceasefire|sanctions)\b/i,
-  },
-  {
-    name: "AI & Technology",
-    keywords:
-      /\b(ai\b|artificial intelligence|gpt|openai|google deepmind|anthropic|llm|chatgpt|agi\b|machine learning|neural|transformer|compute|semiconductor|chip|nvidia|tsmc|apple|microsoft|meta\b|amazon|tesla|spacex|starship|rocket|launch)\b/i,
-  },
-  {
-    name: "Crypto & Web3",
-    keywords:
-      /\b(bitcoin|btc|ethereum|eth\b|crypto|blockchain|nft|defi|solana|sol\b|binance|coinbase|stablecoin|token|dao\b|web3)\b/i,
-  },
-  {
-    name: "Finance & Economics",
-    keywords:
-      /\b(stock|s&p|nasdaq|dow jones|fed\b|federal reserve|interest rate|inflation|gdp|recession|unemployment|ipo|market cap|earnings|revenue|valuation|bond|yield|tariff)\b/i,
-  },
-  {
-    name: "Sports",
-    keywords:
-      /\b(nba|nfl|mlb|nhl|premier league|champions league|world cup|super bowl|playoff|championship|mvp|touchdown|goal\b|match\b|game \d|series|world series|olympics|ncaa|ufc|boxing|f1\b|formula 1|grand prix)\b/i,
-  },
-  {
-    name: "Entertainment",
-    keywords:
-      /\b(oscar|grammy|emmy|box office|movie|film\b|tv show|netflix|disney|streaming|album|song|concert|celebrity|actor|actress|award)\b/i,
-  },
-  {
-    name: "Science & Health",
-    keywords:
-      /\b(covid|vaccine|pandemic|fda|drug\b|clinical trial|disease|cancer|mortality|life expectancy|climate|temperature|co2|emission|nasa|space\b|mars\b|moon\b|asteroid|earthquake|hurricane)\b/i,
-  },
-  {
-    name: "Manifold & Personal",
-    keywords:
-      /\b(manifold|mana|this market|my\b|I will|I'll|personal|new year|resolution|daily|streak|subscriber|follower)\b/i,
-  },
-];
-
-function classifyQuestion(question: string): string {
-  for (const rule of CATEGORY_RULES) {
-    if (rule.keywords.test(question)) {
-      return rule.name;
-    }
-  }
-  return "Other";
-}
-
 // ---------------------------------------------------------------------------
 // Manifold API helpers
 // ---------------------------------------------------------------------------
@@ -111,6 +47,7 @@ interface LiteMarket {
   resolutionProbability?: number;
   uniqueBettorCount?: number;
   closeTime?: number;
+  resolutionTime?: number;
 }
 
 async function fetchResolvedMarkets(
@@ -377,6 +314,10 @@ async function main() {
     JSON.stringify(output, null, 2)
   );
   console.log("\nSaved to data/calibration-analysis.json");
+
+  // The raw corpus, for `backtest` outcomes on markets we analyzed but never bet on
+  writeFileSync(RESOLVED_MARKETS_FILE, JSON.stringify(markets));
+  console.log("Saved resolved markets to data/resolved-markets.json");
 }
 
 main().catch(console.error);
@@ -0,0 +1,319 @@
+/**
+ * Polymarket market making around Claude's fair value.
+ *
+ * For each market Claude is confident about we keep two resting quotes: a bid
+ * that buys YES below our fair value and an ask that buys NO above it (buying
+ * NO at 1 − p is selling YES at p, without holding YES first). A fill on each
+ * side is a YES+NO pair worth $1 at resolution, so the spread is the profit.
+ *
+ * Net inventory (YES − NO shares) skews both quotes against the side we hold,
+ * and a side stops quoting at MM_MAX_INVENTORY. Quotes are pulled for good
+ * within MM_PULL_HOURS of the end date. When the mid jumps MM_PULL_MOVE in one
+ * cycle, or drifts that far from our fair value, they're pulled and the market
+ * re-estimated before quoting again — the book may know something we don't.
+ *
+ * Quotes are ordinary resting limit orders: placed through the executor, so
+ * risk limits apply, kept as open orders, and their fills booked as trades by
+ * orders.ts.
+ */
+
+import { randomUUID } from "crypto";
+import type { ClobClient } from "@polymarket/clob-client";
+import type { Config, Market, OpenOrder, TradeDecision, TradeExecution, Venue } from "./types.js";
+import { estimateProbability } from "./analyzer.js";
+import { loadRecalibrator, recalibrate, type Recalibrator } from "./recalibration.js";
+import { loadOpenOrders, loadOpenTrades, loadHeldMarketIds } from "./data.js";
+import { executeBets, recoverPendingOrders } from "./executor.js";
+import { syncOpenOrders, recordOrderProgress } from "./orders.js";
+import { createPolyVenue } from "./poly-venue.js";
+import { createClobClient, bookMid } from "./polymarket.js";
+import { killSwitchReason } from "./risk.js";
+import { logDecision, logInfo, logError } from "./logger.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface MakerBook {
+  market: Market;
+  fair: number; // Claude's YES probability, recalibrated as in scan
+  rawFair?: number; // before recalibration, when recalibrated
+  confidence: string;
+  reasoning: string;
+  quotedMid?: number; // book mid when the quotes were last checked
+  // stale = pulled on a book move, waiting for a fresh estimate; closed = done for this run
+  state: "quoting" | "stale" | "closed";
+}
+
+/** Quote prices as YES probabilities; a missing side isn't quoted. */
+export interface Quotes {
+  bid?: number;
+  ask?: number;
+}
+
+const pct = (p: number) => `${(p * 100).toFixed(0)}%`;
+
+/**
+ * Bid and ask around `fair` for a net inventory of `inventory` YES − NO shares.
+ * Both quotes move down when we're long YES (up when long NO) by up to
+ * MM_MAX_SKEW, so the side that unwinds the inventory is the likelier to fill.
+ * Prices are rounded outward to the cent, so rounding never narrows the spread.
+ */
+export function computeQuotes(fair: number, inventory: number, config: Config): Quotes {
+  const load = Math.max(-1, Math.min(1, inventory / config.mmMaxInventory));
+  const center = fair - load * config.mmMaxSkew;
+  const bid = Math.floor((center - config.mmHalfSpread) * 100 + 1e-9) / 100;
+  const ask = Math.ceil((center + config.mmHalfSpread) * 100 - 1e-9) / 100;
+  return {
+    bid: inventory < config.mmMaxInventory && bid >= 0.01 ? bid : undefined,
+    ask: inventory > -config.mmMaxInventory && ask <= 0.99 ? ask : undefined,
+  };
+}
+
+/**
+ * Why `book`'s quotes should come off the book, and what state it moves to,
+ * or null to keep quoting.
+ */
+export function pullReason(
+  book: MakerBook,
+  mid: number | undefined,
+  config: Config,
+  now = Date.now()
+): { reason: string; state: MakerBook["state"] } | null {
+  if (book.market.closeTime - now < config.mmPullHours * HOUR_MS) {
+    return { reason: "near end date", state: "closed" };
+  }
+  if (mid === undefined) return { reason: "one-sided book", state: "quoting" };
+  if (book.quotedMid !== undefined && Math.abs(mid - book.quotedMid) >= config.mmPullMove) {
+    return { reason: `mid moved ${pct(book.quotedMid)} → ${pct(mid)}`, state: "stale" };
+  }
+  if (Math.abs(mid - book.fair) >= config.mmPullMove) {
+    return { reason: `mid ${pct(mid)} is too far from our ${pct(book.fair)}`, state: "stale" };
+  }
+  return null;
+}
+
+/** Net YES − NO shares we hold on `marketId`. */
+export function netInventory(trades: TradeExecution[], marketId: string): number {
+  return trades
+    .filter((t) => t.marketId === marketId)
+    .reduce((sum, t) => sum + (t.direction === "YES" ? 1 : -1) * (t.shares ?? 0), 0);
+}
+
+function quoteDecision(book: MakerBook, side: "bid" | "ask", price: number, mid: number, config: Config): TradeDecision {
+  const { market } = book;
+  const direction = side === "bid" ? "YES" : "NO";
+  return {
+    traceId: randomUUID(),
+    timestamp: new Date().toISOString(),
+    marketId: market.id,
+    question: market.question,
+    marketUrl: market.url,
+    marketProb: mid,
+    estimate: book.fair,
+    rawEstimate: book.rawFair,
+    confidence: book.confidence,
+    reasoning: `Market making: ${side} at ${pct(price)} around fair value ${pct(book.fair)} — ${book.reasoning}`,
+    edge: Math.abs(book.fair - price),
+    direction,
+    kellyFraction: 0,
+    effectiveProb: price,
+    betAmount: config.mmQuoteSize,
+    action: "BET",
+    venue: market.venue,
+    polyTokenId: market.tokenIds?.[direction],
+    limitProb: price,
+    quoteSide: side,
+    liquidity: market.liquidity,
+    closeTime: new Date(market.closeTime).toISOString(),
+    uniqueBettorCount: market.uniqueBettorCount ?? 0,
+    description: "",
+  };
+}
+
+async function readMid(client: ClobClient, market: Market): Promise<number | undefined> {
+  if (!market.tokenIds) throw new Error(`No token ids for ${market.id}`);
+  return bookMid(await client.getOrderBook(market.tokenIds.YES));
+}
+
+/** Cancel quotes and book whatever filled before the cancel. */
+async function pullQuotes(orders: OpenOrder[], venue: Venue): Promise<void> {
+  for (const order of orders) {
+    await venue.cancelOrder!(order);
+    recordOrderProgress(order, { ...(await venue.getOrder!(order)), open: false }, venue);
+  }
+}
+
+function restingQuotes(venue: Venue): OpenOrder[] {
+  return loadOpenOrders(venue.name).filter((o) => o.decision.quoteSide);
+}
+
+/**
+ * One pass over `books`: book fills, pull quotes that should come off, and
+ * move or place quotes to where inventory says they belong. A quote already at
+ * its target price keeps its place in the queue.
+ */
+export async function runMakerCycle(
+  books: MakerBook[],
+  venue: Venue,
+  client: ClobClient,
+  config: Config,
+  now = Date.now()
+): Promise<void> {
+  await syncOpenOrders(new Map([[venue.name, venue]]), { cancelRemainders: false });
+  const quotes = restingQuotes(venue);
+  const held = loadOpenTrades(venue.name);
+  const killed = killSwitchReason(config.risk);
+  const toPlace: TradeDecision[] = [];
+
+  for (const book of books) {
+    if (book.state !== "quoting") continue;
+    const question = book.market.question.slice(0, 60);
+    const resting = quotes.filter((o) => o.decision.marketId === book.market.id);
+    try {
+      const mid = await readMid(client, book.market);
+      const pull = killed ? { reason: killed, state: "closed" as const } : pullReason(book, mid, config, now);
+      if (pull) {
+        await pullQuotes(resting, venue);
+        book.state = pull.state;
+        book.quotedMid = undefined;
+        logInfo(`  ${question}: quotes pulled (${pull.reason})`);
+        continue;
+      }
+
+      const inventory = netInventory(held, book.market.id);
+      const target = computeQuotes(book.fair, inventory, config);
+      for (const side of ["bid", "ask"] as const) {
+        const price = target[side];
+        const current = resting.filter((o) => o.decision.quoteSide === side);
+        const keep = price === undefined ? undefined : current.find((o) => Math.abs(o.decision.limitProb! - price) < 1e-9);
+        await pullQuotes(current.filter((o) => o !== keep), venue);
+        if (price !== undefined && !keep) toPlace.push(quoteDecision(book, side, price, mid!, config));
+      }
+      book.quotedMid = mid;
+      logInfo(
+        `  ${question}: mid ${pct(mid!)}, fair ${pct(book.fair)}, inventory ${inventory.toFixed(1)} → bid ${target.bid !== undefined ? pct(target.bid) : "—"} / ask ${target.ask !== undefined ? pct(target.ask) : "—"}`
+      );
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      logError(`  Could not quote ${question}: ${msg}`);
+    }
+  }
+
+  if (toPlace.length === 0) return;
+  if (config.dryRun) {
+    // Nothing rests in a dry run, so there's nothing to track between cycles
+    for (const d of toPlace) {
+      logInfo(`[DRY RUN] Would quote ${d.quoteSide} ${pct(d.limitProb!)} for $${d.betAmount} — ${d.question.slice(0, 60)}`);
+    }
+    return;
+  }
+  for (const d of toPlace) logDecision(d, venue.currency);
+  await executeBets(toPlace, venue, config);
+}
+
+/**
+ * Claude's fair value for `market` as a book to quote, or null if the estimate
+ * is low-confidence or too far from the mid — that's a bet for `poly:scan`,
+ * not a market to make.
+ */
+async function valueMarket(
+  config: Config,
+  client: ClobClient,
+  market: Market,
+  recalibrator: Recalibrator | undefined
+): Promise<MakerBook | null> {
+  const question = market.question.slice(0, 60);
+  const estimate = recalibrate(recalibrator, await estimateProbability(config, market), market.question);
+  if (estimate.confidence === "low") {
+    logInfo(`  ${question}: low confidence — not quoting`);
+    return null;
+  }
+  const mid = await readMid(client, market);
+  if (mid === undefined || Math.abs(estimate.probability - mid) >= config.mmPullMove) {
+    logInfo(`  ${question}: our ${pct(estimate.probability)} vs mid ${mid !== undefined ? pct(mid) : "—"} — not quoting`);
+    return null;
+  }
+  return {
+    market,
+    fair: estimate.probability,
+    rawFair: estimate.rawProbability,
+    confidence: estimate.confidence,
+    reasoning: estimate.reasoning,
+    state: "quoting",
+  };
+}
+
+/**
+ * `mm` command: pick up to MM_MAX_MARKETS markets, then re-quote them every
+ * MM_INTERVAL_SECONDS for `cycles` cycles (forever if unset) or until
+ * interrupted. Quotes left by an earlier run are pulled at start-up, and all
+ * quotes are pulled on the way out.
+ */
+export async function runMarketMaker(config: Config, options: { cycles?: number } = {}): Promise<void> {
+  const client = await createClobClient(config);
+  // Quotes rest until we move them, so never GTD
+  const venue = createPolyVenue(
+    { ...config, polyOrderType: "gtc", polyMaxMarketsPerRun: config.mmMaxMarkets * 2, multiOutcome: false },
+    client
+  );
+  await recoverPendingOrders(new Map([[venue.name, venue]]));
+  await pullQuotes(restingQuotes(venue), venue);
+  const recalibrator = loadRecalibrator(config);
+
+  const horizon = Date.now() + config.mmPullHours * HOUR_MS;
+  const candidates = (await venue.listMarkets(loadHeldMarketIds(venue.name))).filter((m) => m.closeTime > horizon);
+  const books: MakerBook[] = [];
+  for (const market of candidates) {
+    if (books.length >= config.mmMaxMarkets) break;
+    try {
+      const book = await valueMarket(config, client, market, recalibrator);
+      if (book) books.push(book);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      logError(`  Could not value ${market.question.slice(0, 60)}: ${msg}`);
+    }
+  }
+
+  let stopping = false;
+  let wake = () => {};
+  const stop = () => {
+    logInfo("Stopping — pulling quotes...");
+    stopping = true;
+    wake();
+  };
+  process.once("SIGINT", stop);
+  process.once("SIGTERM", stop);
+
+  try {
+    for (let cycle = 1; !stopping && (options.cycles === undefined || cycle <= options.cycles); cycle++) {
+      for (const book of books.filter((b) => b.state === "stale")) {
+        try {
+          const fresh = await valueMarket(config, client, book.market, recalibrator);
+          Object.assign(book, fresh ?? { state: "closed" });
+        } catch (err) {
+          const msg = err instanceof Error ? err.message : String(err);
+          logError(`  Could not re-estimate ${book.market.question.slice(0, 60)}: ${msg}`);
+        }
+      }
+      const active = books.filter((b) => b.state === "quoting");
+      if (active.length === 0) {
+        logInfo("No markets left to quote.");
+        break;
+      }
+
+      logInfo(`Cycle ${cycle}: quoting ${active.length} market(s)`);
+      await runMakerCycle(books, venue, client, config);
+      if (options.cycles !== undefined && cycle >= options.cycles) break;
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, config.mmIntervalSeconds * 1000);
+        wake = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+    }
+  } finally {
+    process.off("SIGINT", stop);
+    process.off("SIGTERM", stop);
+    await pullQuotes(restingQuotes(venue), venue);
+  }
+}
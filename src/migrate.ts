@@ -0,0 +1,121 @@
+/**
+ * `pnpm migrate` — upgrade stored records to the current schema version.
+ *
+ * Rewrites the legacy JSONL files in place and the ledger rows in one
+ * transaction, after taking a timestamped backup of each. Records that still
+ * fail validation after migrating are left untouched and reported.
+ */
+
+import { copyFileSync, existsSync, writeFileSync } from "fs";
+import {
+  DB_FILE,
+  DECISIONS_FILE,
+  TRADES_FILE,
+  RESOLUTIONS_FILE,
+  SNAPSHOTS_FILE,
+  readJsonlRaw,
+  backupLedger,
+  loadRawRecords,
+  updateRawRecord,
+  transaction,
+} from "./data.js";
+import { migrateRecord, parseRecord, recordVersion, SCHEMA_VERSION, type RecordKind } from "./schema.js";
+import { logInfo, logError } from "./logger.js";
+
+type Raw = Record<string, unknown>;
+
+const JSONL_FILES: [RecordKind, string][] = [
+  ["decision", DECISIONS_FILE],
+  ["trade", TRADES_FILE],
+  ["resolution", RESOLUTIONS_FILE],
+  ["snapshot", SNAPSHOTS_FILE],
+];
+
+interface MigrateResult {
+  records: Raw[];
+  upgraded: number;
+  invalid: number;
+}
+
+/**
+ * Migrate a batch of records of one kind. SELL trades borrow estimate/edge
+ * from the BUY with the same traceId, since old sell rows didn't store them.
+ */
+function migrateBatch(kind: RecordKind, records: Raw[], source: string): MigrateResult {
+  const buys = new Map<unknown, Raw>();
+  if (kind === "trade") {
+    for (const r of records) {
+      if (r.action !== "SELL" && !buys.has(r.traceId)) buys.set(r.traceId, r);
+    }
+  }
+
+  let upgraded = 0;
+  let invalid = 0;
+  const out = records.map((r) => {
+    if (recordVersion(r) >= SCHEMA_VERSION) return r;
+    try {
+      const migrated = migrateRecord(kind, r, r.action === "SELL" ? buys.get(r.traceId) : undefined);
+      parseRecord(kind, migrated);
+      upgraded++;
+      return migrated;
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      logError(`  ${source} (traceId ${String(r.traceId)}): ${msg}`);
+      invalid++;
+      return r;
+    }
+  });
+  return { records: out, upgraded, invalid };
+}
+
+function backupPath(file: string): string {
+  return `${file}.${new Date().toISOString().replace(/[:.]/g, "-")}.bak`;
+}
+
+function migrateJsonlFiles(): void {
+  for (const [kind, file] of JSONL_FILES) {
+    if (!existsSync(file)) continue;
+    const { records, upgraded, invalid } = migrateBatch(kind, readJsonlRaw(file), file);
+    if (upgraded === 0) {
+      logInfo(`  ${file}: up to date${invalid ? ` (${invalid} invalid)` : ""}`);
+      continue;
+    }
+    const backup = backupPath(file);
+    copyFileSync(file, backup);
+    writeFileSync(file, records.map((r) => JSON.stringify(r) + "\n").join(""), "utf-8");
+    logInfo(`  ${file}: ${upgraded} upgraded, ${invalid} invalid (backup: ${backup})`);
+  }
+}
+
+function migrateLedger(): void {
+  const pending: { kind: RecordKind; id: number; record: Raw }[] = [];
+  let invalid = 0;
+
+  for (const kind of ["decision", "trade", "resolution", "snapshot"] as const) {
+    const rows = loadRawRecords(kind);
+    const result = migrateBatch(kind, rows.map((r) => r.record), `ledger ${kind}s`);
+    result.records.forEach((record, i) => {
+      if (record !== rows[i]!.record) pending.push({ kind, id: rows[i]!.id, record });
+    });
+    invalid += result.invalid;
+  }
+
+  if (pending.length === 0) {
+    logInfo(`  ${DB_FILE}: up to date${invalid ? ` (${invalid} invalid)` : ""}`);
+    return;
+  }
+
+  const backup = backupPath(DB_FILE);
+  backupLedger(backup);
+  transaction(() => {
+    for (const p of pending) updateRawRecord(p.kind, p.id, p.record);
+  });
+  logInfo(`  ${DB_FILE}: ${pending.length} upgraded, ${invalid} invalid (backup: ${backup})`);
+}
+
+export function runMigrate(): void {
+  logInfo(`Migrating records to schema v${SCHEMA_VERSION}...`);
+  migrateJsonlFiles();
+  migrateLedger();
+  logInfo("Done.");
+}
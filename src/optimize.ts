@@ -0,0 +1,282 @@
+/**
+ * Walk-forward parameter search on top of the backtest (see backtest.ts).
+ *
+ * Replayable decisions are split by time into `folds + 1` equal chunks. For
+ * each fold, every parameter set is replayed on the decisions before the
+ * chunk whose markets had resolved by the time the chunk starts. The best set
+ * is then scored on the chunk itself, which it never saw. Those out-of-sample
+ * results, summed over the folds, are what the search is judged on, next to
+ * the current config scored on the same chunks.
+ *
+ * The recommendation is the best set over the whole history. It's printed as
+ * .env lines with a diff against the current .env, and saved with the fold
+ * results to data/optimize-report.json for the warm-path review.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import { parse } from "dotenv";
+import type { Confidence, Config, TradeDecision } from "./types.js";
+import { loadReplayData, replay } from "./backtest.js";
+import type { BacktestGrid, BacktestParams, BacktestResult, KnownOutcome, ReplaySource } from "./backtest.js";
+import { DATA_DIR } from "./data.js";
+import { logInfo } from "./logger.js";
+
+export const OPTIMIZE_REPORT_FILE = join(DATA_DIR, "optimize-report.json");
+
+const CONFIDENCE_LEVELS: Confidence[] = ["low", "medium", "high"];
+
+/**
+ * Values tried per parameter. For per-confidence thresholds, `null` means no
+ * override — the level uses `edgeThreshold`.
+ */
+export interface SearchSpace extends Required<BacktestGrid> {
+  edgeThresholdByConfidence: Partial<Record<Confidence, (number | null)[]>>;
+}
+
+/** Raw-edge defaults; annualized mode needs explicit values. */
+export const DEFAULT_SPACE: SearchSpace = {
+  edgeThreshold: [0.05, 0.08, 0.1, 0.15],
+  kellyFraction: [0.1, 0.25, 0.5],
+  maxPositionPct: [0.1, 0.2],
+  edgeThresholdByConfidence: { medium: [null, 0.1, 0.15], high: [null, 0.05, 0.08] },
+};
+
+export interface Fold {
+  from: string; // first test decision
+  to: string; // last test decision
+  train: TradeDecision[];
+  test: TradeDecision[];
+}
+
+export interface FoldResult {
+  from: string;
+  to: string;
+  trainDecisions: number;
+  testDecisions: number;
+  chosen: BacktestParams;
+  search: BacktestResult; // the chosen set, out of sample
+  current: BacktestResult; // the current config on the same chunk
+}
+
+/** Totals over several replays; drawdown is the worst of them. */
+export interface Summary {
+  bets: number;
+  wins: number;
+  staked: number;
+  pnl: number;
+  roi: number;
+  brier: number;
+  maxDrawdown: number;
+}
+
+/** Every combination of the values in `space`. */
+export function searchGrid(space: SearchSpace): BacktestParams[] {
+  let byConfidence: Partial<Record<Confidence, number>>[] = [{}];
+  for (const level of CONFIDENCE_LEVELS) {
+    const values = space.edgeThresholdByConfidence[level];
+    if (!values?.length) continue;
+    byConfidence = byConfidence.flatMap((t) => values.map((v) => (v === null ? t : { ...t, [level]: v })));
+  }
+
+  const grid: BacktestParams[] = [];
+  for (const edgeThreshold of space.edgeThreshold) {
+    for (const kellyFraction of space.kellyFraction) {
+      for (const maxPositionPct of space.maxPositionPct) {
+        for (const edgeThresholdByConfidence of byConfidence) {
+          grid.push({ edgeThreshold, kellyFraction, maxPositionPct, edgeThresholdByConfidence });
+        }
+      }
+    }
+  }
+  return grid;
+}
+
+/**
+ * Split `decisions` (oldest first) into `folds` train/test pairs. Each test
+ * chunk trains on everything before it whose market had already resolved —
+ * anything later would tell the search about the future.
+ */
+export function walkForwardFolds(decisions: TradeDecision[], outcomes: Map<string, KnownOutcome>, folds: number): Fold[] {
+  const size = Math.ceil(decisions.length / (folds + 1));
+  const result: Fold[] = [];
+  for (let i = 1; i <= folds; i++) {
+    const test = decisions.slice(i * size, (i + 1) * size);
+    if (test.length === 0) break;
+    const start = Date.parse(test[0]!.timestamp);
+    const train = decisions.slice(0, i * size).filter((d) => outcomes.get(d.marketId)!.resolvedAt < start);
+    result.push({ from: test[0]!.timestamp, to: test[test.length - 1]!.timestamp, train, test });
+  }
+  return result;
+}
+
+/**
+ * The parameter set with the best P&L over `decisions` among those placing
+ * at least `minBets` bets, or undefined if none do. Ties go to the earlier set.
+ */
+export function bestParams(
+  grid: BacktestParams[],
+  decisions: TradeDecision[],
+  outcomes: Map<string, KnownOutcome>,
+  config: Config,
+  bankroll: number,
+  minBets: number
+): { params: BacktestParams; result: BacktestResult } | undefined {
+  let best: { params: BacktestParams; result: BacktestResult } | undefined;
+  for (const params of grid) {
+    const result = replay(decisions, outcomes, config, params, bankroll);
+    if (result.bets < minBets) continue;
+    if (!best || result.pnl > best.result.pnl) best = { params, result };
+  }
+  return best;
+}
+
+export function summarize(results: BacktestResult[]): Summary {
+  const bets = results.reduce((n, r) => n + r.bets, 0);
+  const staked = results.reduce((n, r) => n + r.staked, 0);
+  const pnl = results.reduce((n, r) => n + r.pnl, 0);
+  return {
+    bets,
+    wins: results.reduce((n, r) => n + r.wins, 0),
+    staked,
+    pnl,
+    roi: staked > 0 ? pnl / staked : 0,
+    brier: bets > 0 ? results.reduce((n, r) => n + r.brier * r.bets, 0) / bets : 0,
+    maxDrawdown: Math.max(0, ...results.map((r) => r.maxDrawdown)),
+  };
+}
+
+/**
+ * .env lines for `params`. An undefined value means the key should be unset.
+ */
+export function envLines(params: BacktestParams): Record<string, string | undefined> {
+  const lines: Record<string, string | undefined> = {
+    EDGE_THRESHOLD: String(params.edgeThreshold),
+    KELLY_FRACTION: String(params.kellyFraction),
+    MAX_POSITION_PCT: String(params.maxPositionPct),
+  };
+  for (const level of CONFIDENCE_LEVELS) {
+    const value = params.edgeThresholdByConfidence?.[level];
+    lines[`EDGE_THRESHOLD_${level.toUpperCase()}`] = value === undefined ? undefined : String(value);
+  }
+  return lines;
+}
+
+/**
+ * `-`/`+` lines for each key whose recommended value differs from `current`.
+ * Values compare as numbers, so `0.10` and `0.1` are the same.
+ */
+export function envDiff(current: Record<string, string>, recommended: Record<string, string | undefined>): string[] {
+  const diff: string[] = [];
+  for (const [key, value] of Object.entries(recommended)) {
+    const old = current[key];
+    const same = old === undefined || value === undefined ? old === value : Number(old) === Number(value);
+    if (same) continue;
+    if (old !== undefined) diff.push(`- ${key}=${old}`);
+    if (value !== undefined) diff.push(`+ ${key}=${value}`);
+  }
+  return diff;
+}
+
+function currentParams(config: Config): BacktestParams {
+  return {
+    edgeThreshold: config.edgeThreshold,
+    kellyFraction: config.kellyFraction,
+    maxPositionPct: config.maxPositionPct,
+    edgeThresholdByConfidence: config.edgeThresholdByConfidence,
+  };
+}
+
+function describeParams(p: BacktestParams): string {
+  const levels = CONFIDENCE_LEVELS
+    .filter((level) => p.edgeThresholdByConfidence?.[level] !== undefined)
+    .map((level) => `, ${level} ${p.edgeThresholdByConfidence![level]}`)
+    .join("");
+  return `edge ${p.edgeThreshold}, kelly ${p.kellyFraction}, max pos ${p.maxPositionPct}${levels}`;
+}
+
+function describeResult(r: Summary): string {
+  return `${r.bets} bets, P&L ${r.pnl >= 0 ? "+" : ""}${r.pnl.toFixed(2)}, ROI ${(r.roi * 100).toFixed(1)}%, ` +
+    `Brier ${r.brier.toFixed(4)}, max DD ${(r.maxDrawdown * 100).toFixed(1)}%`;
+}
+
+export interface OptimizeOptions extends ReplaySource {
+  space: SearchSpace;
+  folds: number;
+  minBets: number; // parameter sets placing fewer bets than this are never chosen
+  bankroll: number;
+  envFile: string;
+}
+
+/**
+ * `optimize` command — walk-forward search over `options.space`, then the
+ * recommendation over the full history and its diff against `options.envFile`.
+ */
+export function runOptimize(config: Config, options: OptimizeOptions): void {
+  const { decisions, outcomes } = loadReplayData(options);
+  const grid = searchGrid(options.space);
+  logInfo(`Searching ${grid.length} parameter set(s) over ${decisions.length} decision(s), ${options.folds} walk-forward fold(s)`);
+  if (decisions.length < options.folds + 1) {
+    logInfo("Not enough resolved decisions to split — nothing to optimise.");
+    return;
+  }
+
+  const current = currentParams(config);
+  const folds: FoldResult[] = [];
+  for (const fold of walkForwardFolds(decisions, outcomes, options.folds)) {
+    // Without enough history to choose from, the fold keeps the current config
+    const chosen = bestParams(grid, fold.train, outcomes, config, options.bankroll, options.minBets)?.params ?? current;
+    folds.push({
+      from: fold.from,
+      to: fold.to,
+      trainDecisions: fold.train.length,
+      testDecisions: fold.test.length,
+      chosen,
+      search: replay(fold.test, outcomes, config, chosen, options.bankroll),
+      current: replay(fold.test, outcomes, config, current, options.bankroll),
+    });
+  }
+
+  const best = bestParams(grid, decisions, outcomes, config, options.bankroll, options.minBets);
+  const recommended = best?.params ?? current;
+  const envCurrent = existsSync(options.envFile) ? parse(readFileSync(options.envFile)) : {};
+  const env = envLines(recommended);
+  const diff = envDiff(envCurrent, env);
+  const outOfSample = { search: summarize(folds.map((f) => f.search)), current: summarize(folds.map((f) => f.current)) };
+
+  console.log("\n=== Walk-forward ===\n");
+  folds.forEach((f, i) => {
+    console.log(`Fold ${i + 1}: ${f.from.slice(0, 10)} → ${f.to.slice(0, 10)} (trained on ${f.trainDecisions}, tested on ${f.testDecisions})`);
+    console.log(`  chosen:  ${describeParams(f.chosen)}`);
+    console.log(`  search:  ${describeResult(f.search)}`);
+    console.log(`  current: ${describeResult(f.current)}`);
+  });
+  console.log("\nOut of sample:");
+  console.log(`  search:  ${describeResult(outOfSample.search)}`);
+  console.log(`  current: ${describeResult(outOfSample.current)}`);
+
+  console.log("\n=== Recommended config ===\n");
+  if (!best) console.log(`  No parameter set placed ${options.minBets} bets — keeping the current config`);
+  console.log(`  ${describeParams(recommended)}`);
+  if (best) console.log(`  full history: ${describeResult(best.result)}`);
+  console.log("");
+  for (const [key, value] of Object.entries(env)) {
+    if (value !== undefined) console.log(`${key}=${value}`);
+  }
+  console.log(`\n=== Diff against ${options.envFile} ===\n`);
+  console.log(diff.length > 0 ? diff.join("\n") : "  (no changes)");
+  console.log("");
+
+  writeFileSync(OPTIMIZE_REPORT_FILE, JSON.stringify({
+    generatedAt: new Date().toISOString(),
+    decisions: decisions.length,
+    parameterSets: grid.length,
+    minBets: options.minBets,
+    bankroll: options.bankroll,
+    folds,
+    outOfSample,
+    recommended: { params: recommended, env, fullHistory: best?.result },
+    diff,
+  }, null, 2));
+  logInfo(`Saved to ${OPTIMIZE_REPORT_FILE}`);
+}
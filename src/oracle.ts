@@ -0,0 +1,50 @@
+/**
+ * External price oracles for Manifold markets.
+ *
+ * Manifold markets on events that also trade elsewhere often lag the liquid
+ * price. With ORACLE_MODE=blend or replace, makeDecision mixes that price into
+ * (or swaps it for) Claude's estimate. Sources, in order of preference:
+ *   - polymarket: a Polymarket market `pnpm arb` confirmed resolves the same way
+ *   - espn: no-vig sportsbook moneyline for a "will X beat Y" game market
+ */
+
+import type { Market, Venue } from "./types.js";
+import { findConfirmedPolymarketId } from "./data.js";
+import { fetchMoneylineProb } from "./sports-tool.js";
+
+export type OracleSource = "polymarket" | "espn";
+
+export interface OraclePrice {
+  source: OracleSource;
+  probability: number; // external price for this market's YES
+  detail: string;
+}
+
+/**
+ * The best external price for `market`, or null if no source covers it.
+ * Source failures count as no price — Claude still has the market.
+ */
+export async function findOraclePrice(market: Market, polymarket: Venue): Promise<OraclePrice | null> {
+  const polymarketId = findConfirmedPolymarketId(market.id);
+  if (polymarketId) {
+    const matched = await polymarket.fetchMarket(polymarketId).catch(() => null);
+    if (matched && !matched.isResolved) {
+      return {
+        source: "polymarket",
+        probability: matched.probability,
+        detail: `Polymarket ${matched.url} at ${(matched.probability * 100).toFixed(1)}%`,
+      };
+    }
+  }
+
+  const moneyline = await fetchMoneylineProb(market.question).catch(() => null);
+  if (moneyline) {
+    return {
+      source: "espn",
+      probability: moneyline.probability,
+      detail: `${moneyline.provider} moneyline: ${moneyline.team} ${(moneyline.probability * 100).toFixed(1)}% (no vig)`,
+    };
+  }
+
+  return null;
+}
@@ -0,0 +1,190 @@
+/**
+ * Resting limit orders — books fills on orders left on the book by the
+ * executor, cancels or reprices what's left of them, and the `orders` command.
+ *
+ * An order's fills are one trade row under its traceId: inserted at the first
+ * fill and amended as more arrive, so a position never has more than one buy.
+ */
+
+import { randomUUID } from "crypto";
+import type { Config, OpenOrder, OrderStatus, TradeDecision, Venue, VenueName } from "./types.js";
+import { loadOpenOrders, saveOpenOrder, deleteOpenOrder, amendTrade, transaction } from "./data.js";
+import { toExecution, executeBets } from "./executor.js";
+import { limitProbFor } from "./strategy.js";
+import { createVenue } from "./venue.js";
+import { createClobClient, fetchPolyOpenOrders, cancelPolyOrder } from "./polymarket.js";
+import { logTrade, logDecision, logInfo, logError } from "./logger.js";
+
+/**
+ * Book any new fills on `order` and drop it once nothing rests.
+ */
+export function recordOrderProgress(order: OpenOrder, status: OrderStatus, venue: Venue): void {
+  const filled = status.shares > order.filledShares + 1e-9;
+  const updated: OpenOrder = { ...order, filledShares: status.shares, filledCost: status.cost };
+
+  transaction(() => {
+    if (filled) {
+      const timestamp = order.tradeTimestamp ?? new Date().toISOString();
+      const execution = {
+        ...toExecution(order.decision, venue, false, timestamp),
+        amount: status.cost,
+        shares: status.shares,
+        result: venue.name === "manifold" ? { betId: order.orderId } : { orderId: order.orderId },
+      };
+      if (order.tradeTimestamp) {
+        amendTrade(execution);
+      } else {
+        logTrade(execution);
+        updated.tradeTimestamp = timestamp;
+      }
+    }
+    if (status.open) saveOpenOrder(updated);
+    else deleteOpenOrder(order.orderId);
+  });
+}
+
+/**
+ * Pick up fills on every open order for `venues`. With `cancelRemainders`,
+ * whatever hasn't filled is cancelled and the order is closed out.
+ */
+export async function syncOpenOrders(
+  venues: Map<VenueName, Venue>,
+  options: { cancelRemainders: boolean }
+): Promise<void> {
+  const orders = loadOpenOrders().filter((o) => venues.get(o.venue)?.getOrder);
+  if (orders.length === 0) return;
+
+  logInfo(`Checking ${orders.length} open limit order(s)...`);
+  for (const order of orders) {
+    const venue = venues.get(order.venue)!;
+    const question = order.decision.question.slice(0, 60);
+    try {
+      let status = await venue.getOrder!(order);
+      if (status.open && options.cancelRemainders && venue.cancelOrder) {
+        await venue.cancelOrder(order);
+        // Re-read so fills that landed before the cancel are booked
+        status = { ...(await venue.getOrder!(order)), open: false };
+        logInfo(`  ${question}: cancelled unfilled remainder`);
+      }
+      if (status.shares > order.filledShares + 1e-9) {
+        logInfo(`  ${question}: filled ${status.shares.toFixed(2)} shares for ${venue.currency}${status.cost.toFixed(2)}`);
+      }
+      recordOrderProgress(order, status, venue);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      logError(`  Could not check order ${order.orderId}: ${msg}`);
+    }
+  }
+}
+
+/**
+ * Reprice or cancel the resting orders on `venue` before a scan. An order
+ * older than POLY_ORDER_MAX_AGE_HOURS, or whose market has moved past our
+ * estimate, is cancelled. One whose target price has moved a tick or more is
+ * cancelled and its unfilled remainder re-placed at the new target as a fresh
+ * BET decision. Fills are booked either way.
+ */
+export async function refreshOpenOrders(venue: Venue, config: Config): Promise<void> {
+  if (!venue.getOrder || !venue.cancelOrder) return;
+  // Market-making quotes are managed by the market maker
+  const orders = loadOpenOrders(venue.name).filter((o) => !o.decision.quoteSide);
+  if (orders.length === 0) return;
+
+  logInfo(`Refreshing ${orders.length} open limit order(s)...`);
+  const replacements: TradeDecision[] = [];
+  for (const order of orders) {
+    const d = order.decision;
+    const question = d.question.slice(0, 60);
+    try {
+      const status = await venue.getOrder(order);
+      const ageHours = (Date.now() - Date.parse(order.createdAt)) / 3_600_000;
+      if (!status.open) {
+        recordOrderProgress(order, status, venue);
+        continue;
+      }
+
+      const market = ageHours < config.polyOrderMaxAgeHours ? await venue.fetchMarket(d.marketId, d.answerId) : undefined;
+      const target = market && limitProbFor(market, d.estimate, d.direction!, config);
+      if (target !== undefined && Math.abs(target - (d.limitProb ?? target)) < 0.01 - 1e-9) {
+        recordOrderProgress(order, status, venue);
+        continue; // still priced right
+      }
+
+      await venue.cancelOrder(order);
+      const final = { ...(await venue.getOrder(order)), open: false };
+      recordOrderProgress(order, final, venue);
+
+      const remaining = Math.floor(d.betAmount - final.cost);
+      if (!market || target === undefined || remaining < 1) {
+        const reason = !market ? "stale" : target === undefined ? "market moved past our estimate" : "nothing left to place";
+        logInfo(`  ${question}: cancelled (${reason})`);
+        continue;
+      }
+      logInfo(`  ${question}: repricing ${((d.limitProb ?? 0) * 100).toFixed(0)}% → ${(target * 100).toFixed(0)}%`);
+      replacements.push({
+        ...d,
+        traceId: randomUUID(),
+        timestamp: new Date().toISOString(),
+        marketProb: market.probability,
+        limitProb: target,
+        betAmount: remaining,
+        reasoning: `${d.reasoning} [Repriced from ${order.decision.traceId}]`,
+      });
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      logError(`  Could not refresh order ${order.orderId}: ${msg}`);
+    }
+  }
+
+  if (replacements.length === 0) return;
+  for (const r of replacements) logDecision(r, venue.currency);
+  await executeBets(replacements, venue, config);
+}
+
+/**
+ * `orders` command — list our resting Polymarket orders, and cancel the ones
+ * in `cancel` ("all" for every one). Cancelling an order the bot placed also
+ * books its fills and closes it in the ledger.
+ */
+export async function runOrders(config: Config, options: { cancel: string[] | "all" }): Promise<void> {
+  const venue = createVenue("polymarket", config);
+  const client = await createClobClient(config);
+  const remote = await fetchPolyOpenOrders(client);
+  const ledger = new Map(loadOpenOrders("polymarket").map((o) => [o.orderId, o]));
+
+  if (remote.length === 0) {
+    logInfo("No open Polymarket orders.");
+  } else {
+    console.log(`\n=== Open Polymarket Orders (${remote.length}) ===\n`);
+    for (const o of remote) {
+      const label = ledger.get(o.id)?.decision.question.slice(0, 50) ?? `token ${o.asset_id.slice(0, 12)}… (not placed by the bot)`;
+      const expiry = o.expiration && o.expiration !== "0"
+        ? ` until ${new Date(Number(o.expiration) * 1000).toISOString().slice(0, 16)}`
+        : "";
+      console.log(`  ${o.id}`);
+      console.log(`      ${o.side} ${o.size_matched}/${o.original_size} @ ${o.price} ${o.order_type}${expiry} — ${label}`);
+    }
+    console.log("");
+  }
+
+  const ids = options.cancel === "all" ? remote.map((o) => o.id) : options.cancel;
+  for (const id of ids) {
+    if (config.dryRun) {
+      logInfo(`[DRY RUN] Would cancel ${id}`);
+      continue;
+    }
+    try {
+      const known = ledger.get(id);
+      if (known) {
+        await venue.cancelOrder!(known);
+        recordOrderProgress(known, { ...(await venue.getOrder!(known)), open: false }, venue);
+      } else {
+        await cancelPolyOrder(client, id);
+      }
+      logInfo(`Cancelled ${id}`);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      logError(`Failed to cancel ${id}: ${msg}`);
+    }
+  }
+}
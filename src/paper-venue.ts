@@ -0,0 +1,186 @@
+/**
+ * Paper-trading venue — a simulated account on top of a live venue adapter.
+ *
+ * Markets, quotes and resolutions come from the live adapter; orders never
+ * reach it. A BET fills in full at what the live book or pool would charge at
+ * order time (PAPER_FILLS=live), or at the fill price the decision modelled
+ * when it was made (PAPER_FILLS=recorded). Either way the venue's taker fee is
+ * paid. Early exits fill at the live exit quote.
+ *
+ * A limit order fills like that only if the live quote for the whole amount is
+ * at or inside its limit. Otherwise it rests, with the live venue's expiry,
+ * and fills in full at its limit, with no fee, once the quote gets there.
+ *
+ * Fills are logged as ordinary trades under `paper-<venue>`, so resolve,
+ * monitor, sell and stats track the account like any other, without touching
+ * the live venue's positions, P&L or risk limits. The bankroll is virtual:
+ * PAPER_BANKROLL plus realized P&L, and bets can't spend more than the cash
+ * not tied up in open positions.
+ */
+
+import type { Config, LiveVenueName, Market, PaperVenueName, TradeDecision, Venue, VenueName, VenuePosition } from "./types.js";
+import { loadClosedSince, loadOpenOrders, loadOpenTrades } from "./data.js";
+import { feePerShare } from "./strategy.js";
+import { logInfo } from "./logger.js";
+
+const PREFIX = "paper-";
+
+export function paperVenueName(name: LiveVenueName): PaperVenueName {
+  return `${PREFIX}${name}`;
+}
+
+export function isPaperVenue(name: VenueName): name is PaperVenueName {
+  return name.startsWith(PREFIX);
+}
+
+/** The venue whose prices `name` trades on — itself, unless it's a paper account. */
+export function liveVenueName(name: VenueName): LiveVenueName {
+  return isPaperVenue(name) ? (name.slice(PREFIX.length) as LiveVenueName) : name;
+}
+
+/**
+ * A paper account's balance from the ledger: `startingBankroll` plus realized
+ * P&L, split into free cash and the cost of open positions.
+ */
+export function paperBalance(name: PaperVenueName, startingBankroll: number): { cash: number; openCost: number } {
+  const realized = loadClosedSince(name, new Date(0).toISOString()).reduce((sum, c) => sum + c.pnl, 0);
+  const openCost = loadOpenTrades(name).reduce((sum, t) => sum + t.amount, 0);
+  return { cash: startingBankroll + realized - openCost, openCost };
+}
+
+export function createPaperVenue(live: Venue, config: Config): Venue {
+  const name = paperVenueName(liveVenueName(live.name));
+
+  const cancelled = new Set<string>();
+
+  /** The live price per share of filling `decision` now, before fees, or null if the book can't. */
+  async function liveQuote(decision: TradeDecision): Promise<{ price: number | null; fees: Market["fees"] }> {
+    const market = await live.fetchMarket(decision.marketId, decision.answerId);
+    if (market.isResolved) throw new Error("Market already resolved");
+    return { price: await live.quoteFillPrice(market, decision.direction!, decision.betAmount), fees: market.fees };
+  }
+
+  /** A limit order's price per share on its own side; undefined for market orders. */
+  function limitPrice(decision: TradeDecision): number | undefined {
+    if (decision.limitProb === undefined) return undefined;
+    return decision.direction === "YES" ? decision.limitProb : 1 - decision.limitProb;
+  }
+
+  /** When a limit order placed now lapses, as the live venue would set it. */
+  function limitExpiry(): string | undefined {
+    const hours = live.name === "manifold"
+      ? config.manifoldLimitExpiryHours
+      : live.name === "polymarket" && config.polyOrderType === "gtd" ? config.polyGtdExpiryHours : undefined;
+    return hours === undefined ? undefined : new Date(Date.now() + hours * 3_600_000).toISOString();
+  }
+
+  const venue: Venue = {
+    name,
+    currency: live.currency,
+    paper: true,
+    maxBetAmount: live.maxBetAmount,
+    maxMarketsPerRun: live.maxMarketsPerRun,
+
+    // Markets are tagged with the paper account so decisions and trades land there
+    async listMarkets(exclude) {
+      return (await live.listMarkets(exclude)).map((m) => ({ ...m, venue: name }));
+    },
+
+    async fetchMarket(marketId, answerId) {
+      return { ...(await live.fetchMarket(marketId, answerId)), venue: name };
+    },
+
+    quoteFillPrice: (market, direction, amount) => live.quoteFillPrice(market, direction, amount),
+
+    async placeOrder(decision, idempotencyKey) {
+      // Resting orders hold back what they'd spend
+      const reserved = loadOpenOrders(name).reduce((sum, o) => sum + o.decision.betAmount - o.filledCost, 0);
+      const cash = paperBalance(name, config.paperBankroll).cash - reserved;
+      if (decision.betAmount > cash) {
+        throw new Error(`Paper balance ${live.currency}${cash.toFixed(2)} can't cover ${live.currency}${decision.betAmount}`);
+      }
+      const betId = `${PREFIX}${idempotencyKey}`;
+      const limit = limitPrice(decision);
+      const recorded = decision.direction === "YES" ? decision.effectiveProb : 1 - decision.effectiveProb;
+      if (config.paperFills === "recorded" && limit === undefined) {
+        return { betId, shares: decision.betAmount / recorded, cost: decision.betAmount };
+      }
+
+      const quote = await liveQuote(decision);
+      if (limit !== undefined && (quote.price === null || quote.price > limit + 1e-9)) {
+        return { betId, shares: 0, cost: 0, resting: true, expiresAt: limitExpiry() };
+      }
+      if (quote.price === null) throw new Error("Insufficient book depth to fill");
+      const price = config.paperFills === "recorded" ? recorded : quote.price + feePerShare(quote.fees, quote.price);
+      return { betId, shares: decision.betAmount / price, cost: decision.betAmount };
+    },
+
+    // A simulated order is decided inside placeOrder — nothing can land unseen
+    async findFill() {
+      return null;
+    },
+
+    /** A resting order fills in full at its limit once the live quote reaches it. */
+    async getOrder(order) {
+      const filled = { shares: order.filledShares, cost: order.filledCost };
+      const expired = order.expiresAt !== undefined && Date.parse(order.expiresAt) <= Date.now();
+      if (cancelled.has(order.orderId) || order.filledShares > 0 || expired) return { ...filled, open: false };
+
+      const limit = limitPrice(order.decision)!;
+      const { price } = await liveQuote(order.decision);
+      if (price === null || price > limit + 1e-9) return { ...filled, open: true };
+      return { shares: order.decision.betAmount / limit, cost: order.decision.betAmount, open: false };
+    },
+
+    async cancelOrder(order) {
+      cancelled.add(order.orderId);
+    },
+
+    // The ledger is the paper account's only record of what it holds
+    async fetchPositions() {
+      const byKey = new Map<string, VenuePosition & { cost: number }>();
+      for (const t of loadOpenTrades(name)) {
+        const key = `${t.marketId}:${t.answerId ?? ""}:${t.direction}`;
+        const pos = byKey.get(key) ?? {
+          marketId: t.marketId,
+          answerId: t.answerId,
+          outcome: t.direction,
+          shares: 0,
+          avgPrice: 0,
+          cost: 0,
+        };
+        pos.shares += t.shares ?? 0;
+        pos.cost += t.amount;
+        byKey.set(key, pos);
+      }
+      return [...byKey.values()].map(({ cost, ...p }) => ({ ...p, avgPrice: p.shares > 0 ? cost / p.shares : 0 }));
+    },
+
+    checkResolution: (marketId, answerId) => live.checkResolution(marketId, answerId),
+
+    /** PAPER_BANKROLL plus realized P&L, with open positions at cost. */
+    async getBankroll() {
+      const { cash, openCost } = paperBalance(name, config.paperBankroll);
+      const bankroll = cash + openCost;
+      logInfo(
+        `Paper ${live.name} bankroll: ${live.currency}${bankroll.toFixed(2)} (cash ${live.currency}${cash.toFixed(2)} + open positions ${live.currency}${openCost.toFixed(2)})`
+      );
+      return bankroll;
+    },
+  };
+
+  // Early exits only where the live venue has them
+  const quoteSellPrice = live.quoteSellPrice;
+  if (quoteSellPrice) {
+    venue.quoteSellPrice = (position, market) => quoteSellPrice(position, market);
+    if (live.sell) {
+      venue.sell = async (position, market) => {
+        const price = await quoteSellPrice(position, market);
+        if (price === null || !position.shares) throw new Error("Insufficient bid depth to exit");
+        return { betId: `${PREFIX}${position.traceId}-sell`, shares: position.shares, proceeds: position.shares * price };
+      };
+    }
+  }
+
+  return venue;
+}
@@ -3,6 +3,9 @@
  * Used by both resolver.ts (realized P&L) and seller.ts (unrealized P&L).
  */
 
+import { cpmmSell } from "./cpmm.js";
+import type { CpmmState } from "./cpmm.js";
+
 export function computeWon(
   direction: "YES" | "NO",
   resolution: "YES" | "NO" | "MKT",
@@ -48,7 +51,9 @@ export function computeRealizedPnl(
 }
 
 /**
- * Compute unrealized P&L given current market probability.
+ * Compute unrealized P&L given current market probability. With the pool of a
+ * CPMM market, shares are valued at what selling them back would pay rather
+ * than at the marginal probability.
  */
 export function computeUnrealizedPnl(
   direction: "YES" | "NO",
@@ -56,7 +61,11 @@ export function computeUnrealizedPnl(
   entryProb: number,
   currentProb: number,
   shares?: number,
+  pool?: CpmmState,
 ): number {
+  if (shares && pool) {
+    return cpmmSell(pool, direction, shares).proceeds - amount;
+  }
   if (shares) {
     return direction === "YES"
       ? shares * currentProb - amount
@@ -0,0 +1,305 @@
+/**
+ * Polymarket venue adapter — Gamma API for discovery, CLOB for orderbooks and
+ * orders, CTF contract on Polygon for resolution.
+ */
+
+import { Wallet } from "ethers";
+import type { Config, Market, Position, TradeDecision, Venue } from "./types.js";
+import {
+  fetchPolymarketMarkets,
+  fetchPolymarketEvents,
+  fetchPolymarketMarket,
+  filterPolymarketMarkets,
+  enrichWithEffectivePrices,
+  fetchOrderBook,
+  bookMid,
+  effectiveBuyPrice,
+  sweepBids,
+  createClobClient,
+  placePolyOrder,
+  placePolyLimitOrder,
+  fetchPolyOrderStatus,
+  fetchPolyOpenOrders,
+  cancelPolyOrder,
+  findPolyTakerFill,
+  checkPolyResolution,
+  getPolyPositions,
+  getUsdcBalance,
+} from "./polymarket.js";
+import type { PolymarketMarket, PolymarketEvent } from "./polymarket.js";
+import type { ClobClient } from "@polymarket/clob-client";
+import { MAX_OUTCOMES } from "./strategy.js";
+import { logInfo } from "./logger.js";
+
+function toMarket(poly: PolymarketMarket, redeemGas: number): Market {
+  return {
+    id: poly.conditionId,
+    venue: "polymarket",
+    question: poly.question,
+    description: "",
+    url: `https://polymarket.com/event/${poly.slug}`,
+    probability: poly.yesPrice,
+    liquidity: poly.liquidity,
+    volume: poly.volume24hr,
+    closeTime: poly.endDate.getTime(),
+    mechanism: "clob",
+    creator: "polymarket",
+    uniqueBettorCount: 0,
+    isResolved: poly.closed,
+    tokenIds: { YES: poly.yesTokenId, NO: poly.noTokenId },
+    eventId: poly.eventId,
+    fees: { takerRate: (poly.feeRateBps ?? 0) / 10_000, curve: "min", settlementCost: redeemGas },
+    midpoint: poly.yesMid,
+  };
+}
+
+/**
+ * A negRisk event as one multi-outcome market. Each outcome carries its own
+ * conditionId and tokens, so bets, fills and resolutions stay per outcome market.
+ */
+function toEventMarket(event: PolymarketEvent, redeemGas: number): Market {
+  const outcomes = event.markets.map((m) => ({
+    id: m.conditionId,
+    label: m.outcomeLabel ?? m.question,
+    probability: m.yesPrice,
+    marketId: m.conditionId,
+    tokenIds: { YES: m.yesTokenId, NO: m.noTokenId },
+  }));
+  const feeRateBps = Math.max(0, ...event.markets.map((m) => m.feeRateBps ?? 0));
+  return {
+    id: event.id,
+    venue: "polymarket",
+    question: event.title,
+    description: "",
+    url: `https://polymarket.com/event/${event.slug}`,
+    probability: Math.max(...outcomes.map((o) => o.probability)),
+    liquidity: event.liquidity,
+    volume: event.volume24hr,
+    closeTime: event.endDate.getTime(),
+    mechanism: "clob",
+    creator: "polymarket",
+    uniqueBettorCount: 0,
+    isResolved: false,
+    eventId: event.id,
+    fees: { takerRate: feeRateBps / 10_000, curve: "min", settlementCost: redeemGas },
+    outcomes,
+  };
+}
+
+/**
+ * `client` is an already-authenticated CLOB client to trade through; without
+ * one, a client is created on first use.
+ */
+/** Token price and share count of the BUY limit order placed for `decision` at `limitProb`. */
+function limitOrder(decision: TradeDecision, limitProb: number): { price: number; size: number } {
+  const price = decision.direction === "YES" ? limitProb : 1 - limitProb;
+  return { price, size: Math.floor((decision.betAmount / price) * 100) / 100 };
+}
+
+export function createPolyVenue(config: Config, client?: ClobClient): Venue {
+  // Lazily create CLOB client only once we actually trade
+  let clobClient: ClobClient | undefined = client;
+
+  function walletAddress(): string {
+    const address = config.polyFunderAddress
+      ?? (config.polyPrivateKey ? new Wallet(config.polyPrivateKey).address : undefined);
+    if (!address) throw new Error("POLY_PRIVATE_KEY or POLY_FUNDER_ADDRESS required to fetch positions");
+    return address;
+  }
+
+  function tokenFor(position: Position, market: Market): string {
+    const tokenId = position.polyTokenId ?? market.tokenIds?.[position.direction];
+    if (!tokenId) throw new Error(`No token id for ${position.direction} on ${position.marketId}`);
+    return tokenId;
+  }
+
+  /** Share count from the fill, or from the data API for fills that predate share tracking. */
+  async function heldShares(position: Position): Promise<number> {
+    if (position.shares) return position.shares;
+    const held = (await getPolyPositions(walletAddress()))
+      .find((p) => p.conditionId === position.marketId && p.outcome === position.direction);
+    if (!held?.size) throw new Error(`No ${position.direction} shares held on ${position.marketId}`);
+    return held.size;
+  }
+
+  return {
+    name: "polymarket",
+    currency: "$",
+    maxBetAmount: config.polyMaxBetAmount,
+    maxMarketsPerRun: config.polyMaxMarketsPerRun,
+
+    async listMarkets(exclude) {
+      logInfo("Fetching Polymarket markets...");
+      const polyMarkets = await fetchPolymarketMarkets(config);
+      const filtered = filterPolymarketMarkets(polyMarkets);
+      logInfo(`Fetched ${polyMarkets.length} markets, ${filtered.length} pass filters`);
+
+      const candidates = filtered.filter((m) => !exclude.has(m.conditionId));
+
+      // Enrich with effective fill prices from CLOB orderbooks
+      const preCandidates = candidates.slice(0, config.polyMaxMarketsPerRun * 2);
+      logInfo(`Fetching orderbook depth for ${preCandidates.length} markets...`);
+      const priced = await enrichWithEffectivePrices(preCandidates, config.polyMaxBetAmount);
+      logInfo(`${priced.length}/${preCandidates.length} markets have fillable depth`);
+
+      const markets = priced.slice(0, config.polyMaxMarketsPerRun).map((m) => toMarket(m, config.polyRedeemGas));
+      if (!config.multiOutcome) return markets;
+
+      // negRisk events, skipping any we already hold an outcome of
+      const events = (await fetchPolymarketEvents(config, MAX_OUTCOMES))
+        .filter((e) => !e.markets.some((m) => exclude.has(m.conditionId)))
+        .slice(0, config.polyMaxMarketsPerRun);
+      logInfo(`Fetching orderbook depth for ${events.length} negRisk events...`);
+      for (const event of events) {
+        // Outcomes without depth keep their quoted price so the set stays complete
+        const enriched = new Map((await enrichWithEffectivePrices(event.markets, config.polyMaxBetAmount))
+          .map((m) => [m.conditionId, m]));
+        markets.push(toEventMarket({
+          ...event,
+          markets: event.markets.map((m) => enriched.get(m.conditionId) ?? m),
+        }, config.polyRedeemGas));
+      }
+      return markets;
+    },
+
+    async fetchMarket(marketId) {
+      const poly = await fetchPolymarketMarket(marketId);
+      // Limit orders are priced off the book mid, so refreshing them needs it too
+      const yesMid = poly.closed
+        ? undefined
+        : await fetchOrderBook(poly.yesTokenId).then(bookMid, () => undefined);
+      return toMarket({ ...poly, yesMid }, config.polyRedeemGas);
+    },
+
+    async quoteFillPrice(market, direction, amount) {
+      const tokenId = market.tokenIds?.[direction];
+      if (!tokenId) return null;
+      const book = await fetchOrderBook(tokenId);
+      return effectiveBuyPrice(book.asks, amount);
+    },
+
+    async placeOrder(decision) {
+      if (!decision.polyTokenId) {
+        throw new Error("Missing polyTokenId for Polymarket order");
+      }
+      if (!clobClient) {
+        clobClient = await createClobClient(config);
+      }
+
+      if (decision.limitProb !== undefined) {
+        const { price, size } = limitOrder(decision, decision.limitProb);
+        const gtd = config.polyOrderType === "gtd";
+        const expiresAt = gtd ? new Date(Date.now() + config.polyGtdExpiryHours * 3_600_000) : undefined;
+        const result = await placePolyLimitOrder(clobClient, decision.polyTokenId, price, size, gtd ? "GTD" : "GTC", expiresAt);
+        if ("error" in result) throw new Error(result.error);
+        return {
+          orderId: result.orderId,
+          shares: result.shares,
+          cost: result.usdc,
+          resting: result.open,
+          expiresAt: expiresAt?.toISOString(),
+        };
+      }
+
+      const price = decision.direction === "YES" ? decision.marketProb : 1 - decision.marketProb;
+      const result = await placePolyOrder(clobClient, decision.polyTokenId, "BUY", decision.betAmount, price);
+      if ("error" in result) throw new Error(result.error);
+      if (!result.orderId) return { shares: 0 };
+      return { orderId: result.orderId, shares: result.shares, cost: result.usdc };
+    },
+
+    async findFill(decision, _key, since) {
+      if (!decision.polyTokenId) return null;
+      if (!clobClient) {
+        clobClient = await createClobClient(config);
+      }
+      if (decision.limitProb !== undefined) {
+        // A limit order that landed may still be resting, with no trades yet. Market-maker
+        // quotes rest on the same tokens, so ours is the one at our price and size.
+        const { price, size } = limitOrder(decision, decision.limitProb);
+        const resting = (await fetchPolyOpenOrders(clobClient, decision.polyTokenId)).find((o) =>
+          o.side === "BUY"
+          && o.created_at * 1000 >= since.getTime()
+          && Math.abs(parseFloat(o.price) - price) < 0.0005
+          && Math.abs(parseFloat(o.original_size) - size) < 0.01
+        );
+        if (resting) {
+          const status = await fetchPolyOrderStatus(clobClient, resting.id);
+          return { orderId: resting.id, shares: status.shares, cost: status.usdc, resting: status.open };
+        }
+      }
+      const fill = await findPolyTakerFill(clobClient, decision.polyTokenId, "BUY", decision.betAmount, since);
+      return fill && { orderId: fill.orderId, shares: fill.shares, cost: fill.usdc };
+    },
+
+    async getOrder(order) {
+      if (!clobClient) {
+        clobClient = await createClobClient(config);
+      }
+      const status = await fetchPolyOrderStatus(clobClient, order.orderId);
+      return { shares: status.shares, cost: status.usdc, open: status.open };
+    },
+
+    async cancelOrder(order) {
+      if (!clobClient) {
+        clobClient = await createClobClient(config);
+      }
+      await cancelPolyOrder(clobClient, order.orderId);
+    },
+
+    async quoteSellPrice(position, market) {
+      const book = await fetchOrderBook(tokenFor(position, market));
+      return sweepBids(book.bids, await heldShares(position))?.avgPrice ?? null;
+    },
+
+    async sell(position, market) {
+      const tokenId = tokenFor(position, market);
+      const shares = await heldShares(position);
+      const sweep = sweepBids((await fetchOrderBook(tokenId)).bids, shares);
+      if (!sweep) throw new Error("Insufficient bid depth to exit");
+
+      if (!clobClient) {
+        clobClient = await createClobClient(config);
+      }
+      const result = await placePolyOrder(clobClient, tokenId, "SELL", shares, sweep.worstPrice);
+      if ("error" in result) throw new Error(result.error);
+      if (!result.orderId) throw new Error("SELL order not filled");
+      return { orderId: result.orderId, shares: result.shares, proceeds: result.usdc };
+    },
+
+    async fetchPositions() {
+      const positions = await getPolyPositions(walletAddress());
+      return positions.map((p) => ({
+        marketId: p.conditionId,
+        outcome: p.outcome,
+        shares: p.size,
+        avgPrice: p.avgPrice,
+        currentValue: p.currentValue,
+      }));
+    },
+
+    checkResolution: checkPolyResolution,
+
+    /**
+     * Wallet USDC.e plus the mark-to-market value of held positions, less
+     * POLY_BANKROLL_RESERVE for gas and orders in flight.
+     */
+    async getBankroll() {
+      if (!config.polyPrivateKey && !config.polyFunderAddress) {
+        // Read-only dry run: no wallet to read, so size against a nominal bankroll
+        const nominal = config.polyMaxBetAmount * 10;
+        logInfo(`No Polymarket wallet configured — sizing against a nominal $${nominal} bankroll`);
+        return nominal;
+      }
+
+      const address = walletAddress();
+      const [cash, positions] = await Promise.all([getUsdcBalance(address), getPolyPositions(address)]);
+      const held = positions.reduce((sum, p) => sum + p.currentValue, 0);
+      const bankroll = Math.max(0, cash + held - config.polyBankrollReserve);
+      logInfo(
+        `Polymarket bankroll: $${bankroll.toFixed(2)} (USDC.e $${cash.toFixed(2)} + positions $${held.toFixed(2)} - reserve $${config.polyBankrollReserve.toFixed(2)})`
+      );
+      return bankroll;
+    },
+  };
+}
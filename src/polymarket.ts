@@ -1,7 +1,7 @@
 import { ClobClient, Side, OrderType, Chain } from "@polymarket/clob-client";
-import type { ApiKeyCreds } from "@polymarket/clob-client";
+import type { ApiKeyCreds, OpenOrder as ClobOpenOrder, Trade } from "@polymarket/clob-client";
 import { ethers, Wallet } from "ethers";
-import type { Config } from "./types.js";
+import type { Config, MarketResolution } from "./types.js";
 import { withRetry } from "./utils.js";
 
 // === Types ===
@@ -20,12 +20,26 @@ interface PolymarketApiMarket {
   acceptingOrders: boolean;
   enableOrderBook: boolean;
   clobTokenIds: string;     // JSON: '["yesTokenId","noTokenId"]'
+  events?: { id: string }[]; // parent event(s) grouping related markets
+  groupItemTitle?: string;  // outcome label within a negRisk event
+}
+
+interface PolymarketApiEvent {
+  id: string;
+  title: string;
+  slug: string;
+  endDate: string;
+  volume24hr: number;
+  liquidity: number;
+  negRisk?: boolean;
+  markets: PolymarketApiMarket[];
 }
 
 export interface PolymarketMarket {
   conditionId: string;
   question: string;
   slug: string;
+  eventId?: string;
   yesPrice: number;
   noPrice: number;
   yesTokenId: string;
@@ -33,20 +47,88 @@ export interface PolymarketMarket {
   volume24hr: number;
   liquidity: number;
   endDate: Date;
+  closed: boolean;
+  feeRateBps?: number; // taker fee rate from the CLOB; absent = unknown, treated as fee-free
+  outcomeLabel?: string; // this market's outcome within a negRisk event
+  yesMid?: number; // mid of the YES book, once read
+}
+
+/**
+ * A negRisk event: mutually exclusive outcome markets, exactly one of which
+ * resolves YES. Each outcome trades as its own binary market.
+ */
+export interface PolymarketEvent {
+  id: string;
+  title: string;
+  slug: string;
+  endDate: Date;
+  volume24hr: number;
+  liquidity: number;
+  markets: PolymarketMarket[];
 }
 
 // === Market Fetching (Gamma API, no auth) ===
 
 const GAMMA_API = "https://gamma-api.polymarket.com";
 
-export async function fetchPolymarketMarkets(config: Config): Promise<PolymarketMarket[]> {
-  const url = `${GAMMA_API}/markets?closed=false&active=true&limit=200`;
+/**
+ * Parse a Gamma API market into our binary shape. Returns null for anything
+ * that isn't a two-outcome market with parseable prices and token IDs.
+ */
+function parseGammaMarket(m: PolymarketApiMarket): PolymarketMarket | null {
+  // Only binary markets
+  let outcomes: string[];
+  try {
+    outcomes = JSON.parse(m.outcomes);
+  } catch {
+    return null;
+  }
+  if (outcomes.length !== 2) return null;
+
+  let prices: string[];
+  try {
+    prices = JSON.parse(m.outcomePrices);
+  } catch {
+    return null;
+  }
+  if (prices.length !== 2) return null;
+
+  const yesPrice = parseFloat(prices[0]);
+  const noPrice = parseFloat(prices[1]);
+  if (isNaN(yesPrice) || isNaN(noPrice)) return null;
 
+  // Token IDs: clobTokenIds is a JSON string ["yesId", "noId"]
+  let tokenIds: string[];
+  try {
+    tokenIds = JSON.parse(m.clobTokenIds);
+  } catch {
+    return null;
+  }
+  if (tokenIds.length < 2) return null;
+
+  return {
+    conditionId: m.conditionId,
+    question: m.question,
+    slug: m.slug,
+    eventId: m.events?.[0]?.id,
+    yesPrice,
+    noPrice,
+    yesTokenId: tokenIds[0],
+    noTokenId: tokenIds[1],
+    volume24hr: m.volume24hr,
+    liquidity: m.liquidityNum,
+    endDate: new Date(m.endDate),
+    closed: m.closed,
+    outcomeLabel: m.groupItemTitle || undefined,
+  };
+}
+
+async function gammaGet<T = PolymarketApiMarket[]>(path: string): Promise<T> {
   const controller = new AbortController();
   const timeout = setTimeout(() => controller.abort(), 15_000);
 
   try {
-    const res = await withRetry(() => fetch(url, {
+    const res = await withRetry(() => fetch(`${GAMMA_API}${path}`, {
       signal: controller.signal,
       headers: { "User-Agent": "polyedge/1.0" },
     }), 3, 1000);
@@ -55,67 +137,73 @@ export async function fetchPolymarketMarkets(config: Config): Promise<Polymarket
       throw new Error(`Gamma API error: ${res.status} ${res.statusText}`);
     }
 
-    const raw: PolymarketApiMarket[] = await res.json();
-    const results: PolymarketMarket[] = [];
+    return await res.json() as T;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
 
-    for (const m of raw) {
-      // Must be actively accepting orders on the CLOB
-      if (!m.acceptingOrders || !m.enableOrderBook) continue;
+export async function fetchPolymarketMarkets(config: Config): Promise<PolymarketMarket[]> {
+  const raw = await gammaGet("/markets?closed=false&active=true&limit=200");
+  const results: PolymarketMarket[] = [];
 
-      // Only binary markets
-      let outcomes: string[];
-      try {
-        outcomes = JSON.parse(m.outcomes);
-      } catch {
-        continue;
-      }
-      if (outcomes.length !== 2) continue;
+  for (const m of raw) {
+    // Must be actively accepting orders on the CLOB
+    if (!m.acceptingOrders || !m.enableOrderBook) continue;
 
-      let prices: string[];
-      try {
-        prices = JSON.parse(m.outcomePrices);
-      } catch {
-        continue;
-      }
-      if (prices.length !== 2) continue;
+    // Filter by volume and liquidity
+    if (m.volume24hr < config.polyMinVolume24hr) continue;
+    if (m.liquidityNum < config.polyMinLiquidity) continue;
 
-      const yesPrice = parseFloat(prices[0]);
-      const noPrice = parseFloat(prices[1]);
-      if (isNaN(yesPrice) || isNaN(noPrice)) continue;
+    const parsed = parseGammaMarket(m);
+    if (parsed) results.push(parsed);
+  }
 
-      // Token IDs: clobTokenIds is a JSON string ["yesId", "noId"]
-      let tokenIds: string[];
-      try {
-        tokenIds = JSON.parse(m.clobTokenIds);
-      } catch {
-        continue;
-      }
-      if (tokenIds.length < 2) continue;
-
-      // Filter by volume and liquidity
-      if (m.volume24hr < config.polyMinVolume24hr) continue;
-      if (m.liquidityNum < config.polyMinLiquidity) continue;
-
-      const endDate = new Date(m.endDate);
-
-      results.push({
-        conditionId: m.conditionId,
-        question: m.question,
-        slug: m.slug,
-        yesPrice,
-        noPrice,
-        yesTokenId: tokenIds[0],
-        noTokenId: tokenIds[1],
-        volume24hr: m.volume24hr,
-        liquidity: m.liquidityNum,
-        endDate,
-      });
-    }
+  return results;
+}
 
-    return results;
-  } finally {
-    clearTimeout(timeout);
+/**
+ * Open negRisk events with between 2 and `maxOutcomes` tradeable outcomes.
+ * Outcomes no longer accepting orders (already ruled out) are left out.
+ */
+export async function fetchPolymarketEvents(config: Config, maxOutcomes: number): Promise<PolymarketEvent[]> {
+  const raw = await gammaGet<PolymarketApiEvent[]>("/events?closed=false&active=true&negRisk=true&limit=100");
+  const results: PolymarketEvent[] = [];
+
+  for (const e of raw) {
+    if (!e.negRisk) continue;
+    if ((e.volume24hr ?? 0) < config.polyMinVolume24hr) continue;
+    if ((e.liquidity ?? 0) < config.polyMinLiquidity) continue;
+
+    const markets = (e.markets ?? [])
+      .filter((m) => m.acceptingOrders && m.enableOrderBook && !m.closed)
+      .map(parseGammaMarket)
+      .filter((m): m is PolymarketMarket => m !== null)
+      .map((m) => ({ ...m, eventId: e.id }));
+    if (markets.length < 2 || markets.length > maxOutcomes) continue;
+
+    results.push({
+      id: e.id,
+      title: e.title,
+      slug: e.slug,
+      endDate: new Date(e.endDate),
+      volume24hr: e.volume24hr,
+      liquidity: e.liquidity,
+      markets,
+    });
   }
+
+  return results.sort((a, b) => b.volume24hr - a.volume24hr);
+}
+
+/**
+ * Fetch a single market by conditionId, open or closed.
+ */
+export async function fetchPolymarketMarket(conditionId: string): Promise<PolymarketMarket> {
+  const raw = await gammaGet(`/markets?condition_ids=${conditionId}`);
+  const parsed = raw[0] ? parseGammaMarket(raw[0]) : null;
+  if (!parsed) throw new Error(`Gamma API: market ${conditionId} not found or not binary`);
+  return parsed;
 }
 
 export function filterPolymarketMarkets(
@@ -130,7 +218,7 @@ export function filterPolymarketMarkets(
 
 const CLOB_API = "https://clob.polymarket.com";
 
-interface BookLevel {
+export interface BookLevel {
   price: string;
   size: string;  // shares
 }
@@ -158,6 +246,29 @@ export async function fetchOrderBook(tokenId: string): Promise<OrderBookResponse
   }
 }
 
+/**
+ * Taker fee rate for a token in basis points. Most markets charge 0; the
+ * fee per share is rate × min(price, 1 − price).
+ */
+export async function fetchFeeRateBps(tokenId: string): Promise<number> {
+  const url = `${CLOB_API}/fee-rate?token_id=${tokenId}`;
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), 10_000);
+
+  try {
+    const res = await withRetry(() => fetch(url, {
+      signal: controller.signal,
+      headers: { "User-Agent": "polyedge/1.0" },
+    }), 2, 500);
+    if (!res.ok) throw new Error(`CLOB fee-rate ${res.status}`);
+    const data = await res.json() as { base_fee?: number };
+    return data.base_fee ?? 0;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
 /**
  * Sweep the ask side to calculate the effective average fill price for a BUY
  * of `usdcAmount`. Returns null if there isn't enough depth to fill.
@@ -193,8 +304,49 @@ export function effectiveBuyPrice(
 }
 
 /**
- * Fetch both token orderbooks in parallel and return updated markets with
- * effective fill prices replacing the quoted prices.
+ * Sweep the bid side to sell `shares`, best bids first. Returns the average
+ * price per share and the lowest price touched (the FOK limit), or null if
+ * the bids can't absorb the whole position.
+ */
+export function sweepBids(
+  bids: BookLevel[],
+  shares: number,
+): { avgPrice: number; worstPrice: number } | null {
+  const sorted = [...bids].sort((a, b) => parseFloat(b.price) - parseFloat(a.price));
+
+  let remaining = shares;
+  let proceeds = 0;
+  let worstPrice = 0;
+
+  for (const level of sorted) {
+    const price = parseFloat(level.price);
+    const size = parseFloat(level.size);
+    if (isNaN(price) || isNaN(size) || price <= 0) continue;
+
+    const take = Math.min(remaining, size);
+    proceeds += take * price;
+    remaining -= take;
+    worstPrice = price;
+    if (remaining <= 0) break;
+  }
+
+  if (remaining > 1e-9 || shares <= 0) return null;
+  return { avgPrice: proceeds / shares, worstPrice };
+}
+
+/**
+ * Midpoint between the best bid and best ask, or undefined for a one-sided book.
+ */
+export function bookMid(book: OrderBookResponse): number | undefined {
+  if (book.bids.length === 0 || book.asks.length === 0) return undefined;
+  const bestBid = Math.max(...book.bids.map((l) => parseFloat(l.price)));
+  const bestAsk = Math.min(...book.asks.map((l) => parseFloat(l.price)));
+  return (bestBid + bestAsk) / 2;
+}
+
+/**
+ * Fetch both token orderbooks (and the taker fee rate) in parallel and return
+ * updated markets with effective fill prices replacing the quoted prices.
  * Markets where neither side can fill `usdcAmount` are dropped.
  */
 export async function enrichWithEffectivePrices(
@@ -204,9 +356,10 @@ export async function enrichWithEffectivePrices(
   const results = await Promise.all(
     markets.map(async (m): Promise<PolymarketMarket | null> => {
       try {
-        const [yesBook, noBook] = await Promise.all([
+        const [yesBook, noBook, feeRateBps] = await Promise.all([
           fetchOrderBook(m.yesTokenId),
           fetchOrderBook(m.noTokenId),
+          fetchFeeRateBps(m.yesTokenId).catch(() => undefined),
         ]);
 
         const yesEffective = effectiveBuyPrice(yesBook.asks, usdcAmount);
@@ -219,6 +372,8 @@ export async function enrichWithEffectivePrices(
           ...m,
           yesPrice: yesEffective ?? m.yesPrice,
           noPrice: noEffective ?? m.noPrice,
+          feeRateBps,
+          yesMid: bookMid(yesBook),
         };
       } catch {
         // On book fetch failure, keep original prices rather than dropping
@@ -265,13 +420,25 @@ export async function createClobClient(config: Config): Promise<ClobClient> {
   );
 }
 
+/**
+ * Outcome of a FOK order. `orderId` is null when the order was killed
+ * unfilled. `shares` is shares bought (BUY) or sold (SELL); `usdc` is what
+ * was paid (BUY) or received (SELL).
+ */
+export interface PolyOrderResult {
+  orderId: string | null;
+  status: string;
+  shares: number;
+  usdc: number;
+}
+
 export async function placePolyOrder(
   client: ClobClient,
   tokenId: string,
   side: "BUY" | "SELL",
   amount: number,
   price: number,
-): Promise<{ orderId: string; status: string } | { error: string }> {
+): Promise<PolyOrderResult | { error: string }> {
   try {
     const result = await client.createAndPostMarketOrder(
       {
@@ -284,18 +451,195 @@ export async function placePolyOrder(
       OrderType.FOK,
     );
 
-    if (result?.orderID) {
-      return { orderId: result.orderID, status: result.status ?? "filled" };
+    // FOK order may not fill — that's expected, and not a position
+    if (!result?.orderID) {
+      return { orderId: null, status: result?.status ?? "unmatched", shares: 0, usdc: 0 };
+    }
+
+    // A BUY makes USDC and takes shares; a SELL the reverse
+    const making = parseFloat(result.makingAmount ?? "0") || 0;
+    const taking = parseFloat(result.takingAmount ?? "0") || 0;
+    if (making > 0 && taking > 0) {
+      return {
+        orderId: result.orderID,
+        status: result.status ?? "matched",
+        shares: side === "BUY" ? taking : making,
+        usdc: side === "BUY" ? making : taking,
+      };
     }
 
-    // FOK order may not fill — that's expected
-    return { orderId: result?.orderID ?? "no-fill", status: result?.status ?? "no-fill" };
+    // Response didn't carry amounts — ask the CLOB what actually matched
+    const fill = await fetchPolyOrderFill(client, result.orderID);
+    return { orderId: result.orderID, status: result.status ?? "matched", ...fill };
   } catch (err) {
     const msg = err instanceof Error ? err.message : String(err);
     return { error: msg };
   }
 }
 
+/**
+ * Outcome of posting a resting limit order: what matched on arrival, and
+ * whether a remainder is left on the book.
+ */
+export interface PolyLimitResult {
+  orderId: string;
+  shares: number;
+  usdc: number;
+  open: boolean;
+}
+
+/**
+ * Post a BUY limit order for `size` shares at `price`. GTC rests until
+ * cancelled, GTD until `expiresAt`.
+ */
+export async function placePolyLimitOrder(
+  client: ClobClient,
+  tokenId: string,
+  price: number,
+  size: number,
+  orderType: "GTC" | "GTD",
+  expiresAt?: Date,
+): Promise<PolyLimitResult | { error: string }> {
+  try {
+    const result = await client.createAndPostOrder(
+      {
+        tokenID: tokenId,
+        price,
+        size,
+        side: Side.BUY,
+        // The CLOB only honours GTD expirations at least a minute out
+        expiration: orderType === "GTD" && expiresAt ? Math.floor(expiresAt.getTime() / 1000) + 60 : undefined,
+      },
+      undefined,
+      orderType === "GTD" ? OrderType.GTD : OrderType.GTC,
+    );
+    if (!result?.orderID) {
+      return { error: result?.errorMsg || result?.error || "Order rejected" };
+    }
+    return { orderId: result.orderID, ...(await fetchPolyOrderStatus(client, result.orderID)) };
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return { error: msg };
+  }
+}
+
+/**
+ * What has matched on an order so far, and whether it still rests.
+ */
+export async function fetchPolyOrderStatus(
+  client: ClobClient,
+  orderId: string,
+): Promise<{ shares: number; usdc: number; open: boolean }> {
+  const order = await client.getOrder(orderId);
+  return { ...(await orderFill(client, order)), open: order.status?.toUpperCase() === "LIVE" };
+}
+
+/**
+ * Our resting orders on the CLOB, optionally for one token.
+ */
+export async function fetchPolyOpenOrders(client: ClobClient, tokenId?: string): Promise<ClobOpenOrder[]> {
+  return client.getOpenOrders(tokenId ? { asset_id: tokenId } : undefined);
+}
+
+export async function cancelPolyOrder(client: ClobClient, orderId: string): Promise<void> {
+  const result = await client.cancelOrder({ orderID: orderId });
+  if (result?.not_canceled && Object.keys(result.not_canceled).length > 0) {
+    throw new Error(`Order ${orderId} not cancelled: ${JSON.stringify(result.not_canceled)}`);
+  }
+}
+
+/**
+ * Matched size and USDC value of an order, from the trades it matched.
+ */
+export async function fetchPolyOrderFill(
+  client: ClobClient,
+  orderId: string,
+): Promise<{ shares: number; usdc: number }> {
+  return orderFill(client, await client.getOrder(orderId));
+}
+
+async function orderFill(client: ClobClient, order: ClobOpenOrder): Promise<{ shares: number; usdc: number }> {
+  const matched = parseFloat(order.size_matched ?? "0") || 0;
+  if (matched === 0) return { shares: 0, usdc: 0 };
+
+  const trades: Trade[] = [];
+  for (const tradeId of order.associate_trades ?? []) {
+    const [trade] = await client.getTrades({ id: tradeId }, true);
+    if (trade) trades.push(trade);
+  }
+  const { shares, usdc } = tradesFill(order.id, trades);
+
+  // Trades not visible yet — price the matched size at the order's limit
+  if (shares === 0) return { shares: matched, usdc: matched * parseFloat(order.price) };
+  return { shares, usdc };
+}
+
+/**
+ * Our part of `trades` for order `orderId`. As the taker we matched the whole
+ * trade; as a maker only our entry in `maker_orders`, since the trade's size
+ * is the taker's and may span several makers.
+ */
+export function tradesFill(orderId: string, trades: Trade[]): { shares: number; usdc: number } {
+  let shares = 0;
+  let usdc = 0;
+  for (const trade of trades) {
+    if (trade.taker_order_id === orderId) {
+      shares += parseFloat(trade.size);
+      usdc += parseFloat(trade.size) * parseFloat(trade.price);
+      continue;
+    }
+    for (const maker of trade.maker_orders.filter((m) => m.order_id === orderId)) {
+      shares += parseFloat(maker.matched_amount);
+      usdc += parseFloat(maker.matched_amount) * parseFloat(maker.price);
+    }
+  }
+  return { shares, usdc };
+}
+
+/**
+ * Our taker fill on `tokenId` for `side` since `since`, for an order of
+ * `usdc`. The CLOB has no client order ids, so this is how we tell whether
+ * an order that errored client-side actually executed.
+ */
+export async function findPolyTakerFill(
+  client: ClobClient,
+  tokenId: string,
+  side: "BUY" | "SELL",
+  usdc: number,
+  since: Date,
+): Promise<{ orderId: string; shares: number; usdc: number } | null> {
+  const trades = await client.getTrades(
+    { asset_id: tokenId, after: String(Math.floor(since.getTime() / 1000)) },
+    true,
+  );
+  return takerFill(trades, side, usdc);
+}
+
+// FOK amounts are rounded to the CLOB's tick, so a fill lands within a cent or so of the order
+const FILL_TOLERANCE = 0.01;
+
+/**
+ * The first taker order in `trades` on `side` whose matched USDC is `usdc`,
+ * summed across the maker orders it matched. Fills of other sizes are
+ * someone else's: a manual trade, or another process on the same token.
+ */
+export function takerFill(
+  trades: Trade[],
+  side: "BUY" | "SELL",
+  usdc: number,
+): { orderId: string; shares: number; usdc: number } | null {
+  const fills = new Map<string, { orderId: string; shares: number; usdc: number }>();
+  for (const t of trades) {
+    if (t.trader_side !== "TAKER" || t.side !== (side === "BUY" ? Side.BUY : Side.SELL)) continue;
+    const fill = fills.get(t.taker_order_id) ?? { orderId: t.taker_order_id, shares: 0, usdc: 0 };
+    fill.shares += parseFloat(t.size);
+    fill.usdc += parseFloat(t.size) * parseFloat(t.price);
+    fills.set(t.taker_order_id, fill);
+  }
+  const tolerance = Math.max(0.01, usdc * FILL_TOLERANCE);
+  return [...fills.values()].find((f) => Math.abs(f.usdc - usdc) <= tolerance) ?? null;
+}
+
 // === CTF Redemption ===
 
 // Polygon mainnet addresses — from @polymarket/clob-client config.js
@@ -341,43 +685,107 @@ export async function redeemPolyPosition(
   }
 }
 
+// === Resolution (CTF contract) ===
+//
+// Resolution detection reads directly from the Gnosis Conditional Token
+// Framework (CTF) contract on Polygon:
+//   - payoutDenominator(conditionId) > 0  → market resolved
+//   - payoutNumerators(conditionId, 0) > 0 → YES won (outcome index 0)
+//   - payoutNumerators(conditionId, 1) > 0 → NO won  (outcome index 1)
+//
+// This is the authoritative source — the same data the CTF uses when
+// redeemPositions() is called.
+
+const CTF_RESOLUTION_ABI = [
+  "function payoutDenominator(bytes32 conditionId) view returns (uint256)",
+  "function payoutNumerators(bytes32 conditionId, uint256 index) view returns (uint256)",
+];
+
+let ctfReader: ethers.Contract | undefined;
+
+export async function checkPolyResolution(conditionId: string): Promise<MarketResolution> {
+  if (!ctfReader) {
+    const provider = new ethers.providers.JsonRpcProvider(POLYGON_RPC);
+    ctfReader = new ethers.Contract(CTF_ADDRESS, CTF_RESOLUTION_ABI, provider);
+  }
+
+  const denom: ethers.BigNumber = await ctfReader.payoutDenominator(conditionId);
+  if (denom.isZero()) return { resolved: false };
+
+  const [yes, no]: [ethers.BigNumber, ethers.BigNumber] = await Promise.all([
+    ctfReader.payoutNumerators(conditionId, 0),
+    ctfReader.payoutNumerators(conditionId, 1),
+  ]);
+
+  // In Polymarket binary markets: index 0 = YES, index 1 = NO
+  return { resolved: true, outcome: yes.gt(no) ? "YES" : "NO" };
+}
+
 // === Position Checking ===
 
 export interface PolyPosition {
   conditionId: string;
+  outcome: "YES" | "NO";
   size: number;
   avgPrice: number;
   currentValue: number;
 }
 
+const POSITIONS_PAGE_SIZE = 500;
+
+/**
+ * Every position the wallet holds, paged through the data API. Throws rather
+ * than returning a partial list, which callers would read as "not held".
+ */
 export async function getPolyPositions(walletAddress: string): Promise<PolyPosition[]> {
-  const url = `https://data-api.polymarket.com/positions?user=${walletAddress}`;
+  const positions: PolyPosition[] = [];
+  for (let offset = 0; ; offset += POSITIONS_PAGE_SIZE) {
+    const url = `https://data-api.polymarket.com/positions?user=${walletAddress}&limit=${POSITIONS_PAGE_SIZE}&offset=${offset}`;
 
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), 15_000);
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), 15_000);
 
-  try {
-    const res = await fetch(url, {
-      signal: controller.signal,
-      headers: { "User-Agent": "polyedge/1.0" },
-    });
+    try {
+      const res = await fetch(url, {
+        signal: controller.signal,
+        headers: { "User-Agent": "polyedge/1.0" },
+      });
 
-    if (!res.ok) return [];
-
-    const data: Array<{
-      conditionId: string;
-      size: string;
-      avgPrice: string;
-      currentValue: string;
-    }> = await res.json();
-
-    return data.map(p => ({
-      conditionId: p.conditionId,
-      size: parseFloat(p.size) || 0,
-      avgPrice: parseFloat(p.avgPrice) || 0,
-      currentValue: parseFloat(p.currentValue) || 0,
-    }));
-  } finally {
-    clearTimeout(timeout);
+      if (!res.ok) throw new Error(`Polymarket positions: ${res.status} ${await res.text().catch(() => "")}`);
+
+      const data: Array<{
+        conditionId: string;
+        outcomeIndex: number;
+        size: string;
+        avgPrice: string;
+        currentValue: string;
+      }> = await res.json();
+
+      positions.push(...data.map(p => ({
+        conditionId: p.conditionId,
+        outcome: p.outcomeIndex === 1 ? "NO" as const : "YES" as const,
+        size: parseFloat(p.size) || 0,
+        avgPrice: parseFloat(p.avgPrice) || 0,
+        currentValue: parseFloat(p.currentValue) || 0,
+      })));
+      if (data.length < POSITIONS_PAGE_SIZE) return positions;
+    } finally {
+      clearTimeout(timeout);
+    }
   }
 }
+
+// === Wallet ===
+
+const ERC20_BALANCE_ABI = ["function balanceOf(address owner) view returns (uint256)"];
+
+/**
+ * USDC.e balance of `address` on Polygon — the collateral the CTF Exchange
+ * trades against (6 decimals).
+ */
+export async function getUsdcBalance(address: string): Promise<number> {
+  const provider = new ethers.providers.JsonRpcProvider(POLYGON_RPC);
+  const usdc = new ethers.Contract(USDC_ADDRESS, ERC20_BALANCE_ABI, provider);
+  const balance: ethers.BigNumber = await usdc.balanceOf(address);
+  return parseFloat(ethers.utils.formatUnits(balance, 6));
+}
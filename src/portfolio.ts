@@ -0,0 +1,124 @@
+/**
+ * Portfolio sizing — scales a scan's BET decisions jointly, between analysis
+ * and execution.
+ *
+ * makeDecision sizes each market as if it were the only bet. This step is a
+ * capped-exposure approximation of simultaneous Kelly:
+ *   1. Correlated markets (same event, team, ticker or crypto asset) count as
+ *      one position: open + new cost in a cluster is held to MAX_POSITION_PCT
+ *      of the bankroll.
+ *   2. Open cost basis plus all new bets is held to PORTFOLIO_MAX_PCT of the
+ *      bankroll. Venues report their bankroll as equity, open positions
+ *      included, so the cap is the same share of the account on every venue.
+ * Bets are scaled down proportionally; any that fall below 1 unit become
+ * SKIP_PORTFOLIO_CAP.
+ */
+
+import type { Config, TradeDecision } from "./types.js";
+import { findFinanceSymbols } from "./finance-tool.js";
+import { findTeamInQuestion } from "./sports-tool.js";
+
+const CRYPTO_ASSETS: { pattern: RegExp; asset: string }[] = [
+  { pattern: /\bbitcoin\b|\bbtc\b/i, asset: "BTC" },
+  { pattern: /\bethereum\b|\beth\b|\bether\b/i, asset: "ETH" },
+  { pattern: /\bsolana\b|\bsol\b/i, asset: "SOL" },
+];
+
+/** An existing position, as portfolio sizing sees it. */
+export interface OpenExposure {
+  marketId: string;
+  question: string;
+  amount: number; // cost basis
+  eventId?: string;
+}
+
+/**
+ * What a market's outcome hinges on — markets sharing any key move together.
+ */
+export function correlationKeys(question: string, eventId?: string): string[] {
+  return [
+    ...(eventId ? [`event:${eventId}`] : []),
+    ...findTeamInQuestion(question).map((t) => `team:${t}`),
+    ...findFinanceSymbols(question).map((s) => `ticker:${s}`),
+    ...CRYPTO_ASSETS.filter((c) => c.pattern.test(question)).map((c) => `crypto:${c.asset}`),
+  ];
+}
+
+/**
+ * Group items into clusters that share a correlation key, directly or through
+ * another item. Returns a cluster index per item.
+ */
+function clusterItems(keysPerItem: string[][]): number[] {
+  const parent = keysPerItem.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i]!)));
+
+  const ownerOfKey = new Map<string, number>();
+  keysPerItem.forEach((keys, i) => {
+    for (const key of keys) {
+      const owner = ownerOfKey.get(key);
+      if (owner === undefined) ownerOfKey.set(key, i);
+      else parent[find(i)] = find(owner);
+    }
+  });
+
+  return keysPerItem.map((_, i) => find(i));
+}
+
+/**
+ * Scale the BET decisions in `decisions` so they fit the bankroll together
+ * with `open`. Other decisions pass through unchanged.
+ */
+export function sizePortfolio(
+  decisions: TradeDecision[],
+  open: OpenExposure[],
+  bankroll: number,
+  config: Config,
+): TradeDecision[] {
+  const bets = decisions.filter((d) => d.action === "BET");
+  if (bets.length === 0) return decisions;
+
+  const scale = new Map<string, number>(bets.map((d) => [d.traceId, 1]));
+
+  // 1. Correlated clusters share one position's cap
+  if (config.portfolioCorrelation) {
+    const items = [
+      ...open.map((o) => ({ amount: o.amount, keys: correlationKeys(o.question, o.eventId), traceId: undefined })),
+      ...bets.map((d) => ({ amount: d.betAmount, keys: correlationKeys(d.question, d.eventId), traceId: d.traceId })),
+    ];
+    const cluster = clusterItems(items.map((it) => it.keys));
+    const clusterCap = bankroll * config.maxPositionPct;
+
+    for (const c of new Set(cluster)) {
+      const members = items.filter((_, i) => cluster[i] === c);
+      const newBets = members.filter((m) => m.traceId);
+      if (members.length < 2 || newBets.length === 0) continue;
+
+      const held = members.filter((m) => !m.traceId).reduce((sum, m) => sum + m.amount, 0);
+      const wanted = newBets.reduce((sum, m) => sum + m.amount, 0);
+      if (held + wanted <= clusterCap) continue;
+      const factor = Math.max(0, clusterCap - held) / wanted;
+      for (const m of newBets) scale.set(m.traceId!, factor);
+    }
+  }
+
+  // 2. The whole book stays within the portfolio cap
+  const held = open.reduce((sum, o) => sum + o.amount, 0);
+  const wanted = bets.reduce((sum, d) => sum + d.betAmount * scale.get(d.traceId)!, 0);
+  const room = Math.max(0, bankroll * config.portfolioMaxPct - held);
+  if (wanted > room) {
+    const factor = room / wanted;
+    for (const [traceId, s] of scale) scale.set(traceId, s * factor);
+  }
+
+  return decisions.map((d) => {
+    const s = scale.get(d.traceId);
+    if (s === undefined || s >= 1) return d;
+
+    const betAmount = Math.floor(d.betAmount * s);
+    const portfolioScale = Math.round(s * 1000) / 1000;
+    if (betAmount < 1) {
+      return { ...d, betAmount: 0, portfolioScale, action: "SKIP_PORTFOLIO_CAP" };
+    }
+    return { ...d, betAmount, portfolioScale };
+  });
+}
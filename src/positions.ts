@@ -0,0 +1,32 @@
+/**
+ * Open-position bookkeeping shared by the resolver, seller and monitor.
+ */
+
+import type { TradeExecution, Position } from "./types.js";
+
+/**
+ * True for a real (non-dry-run) buy that the venue accepted.
+ */
+export function isFilledTrade(t: TradeExecution): boolean {
+  return !t.dryRun
+    && t.action !== "SELL"
+    && !!(t.result?.betId || t.result?.orderId)
+    && !t.result?.error;
+}
+
+export function toPosition(t: TradeExecution): Position {
+  return {
+    traceId: t.traceId,
+    venue: t.venue,
+    marketId: t.marketId,
+    question: t.question,
+    direction: t.direction,
+    amount: t.amount,
+    shares: t.shares,
+    entryProb: t.marketProb,
+    estimate: t.estimate,
+    edge: t.edge,
+    polyTokenId: t.polyTokenId,
+    answerId: t.answerId,
+  };
+}
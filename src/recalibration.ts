@@ -0,0 +1,216 @@
+/**
+ * Post-hoc recalibration of Claude's estimates from our own resolved history.
+ *
+ * The feedback prompt (feedback.ts) tells Claude where it has been miscalibrated
+ * and leaves the adjustment to Claude. This fits the adjustment instead: a
+ * curve from Claude's raw probability to the frequency with which such
+ * estimates resolved YES, applied before `makeDecision`.
+ *
+ * - `platt` fits p' = σ(a · logit(p) + b) — two parameters, smooth, works with
+ *   little data and corrects systematic over- or underconfidence.
+ * - `isotonic` fits a monotone step curve by pool-adjacent-violators,
+ *   interpolated between steps — more flexible, but needs more data.
+ *
+ * Samples are each market's first single-market estimate before it resolved,
+ * from the ledger's decisions, with outcomes from resolutions and the
+ * resolved-market corpus (see backtest.ts). Markets we never bet on count
+ * too. Oracle-priced estimates aren't Claude's and are left out. With
+ * RECALIBRATION_BY, groups by category and/or confidence get their own curve
+ * once they have RECALIBRATION_MIN_SAMPLES; smaller groups use the pooled curve.
+ */
+
+import type { Confidence, Config, ClaudeEstimate, TradeDecision } from "./types.js";
+import { loadOutcomes, replayableDecisions, RESOLVED_MARKETS_FILE } from "./backtest.js";
+import type { KnownOutcome } from "./backtest.js";
+import { classifyQuestion } from "./categories.js";
+import { loadDecisions } from "./data.js";
+import { logInfo } from "./logger.js";
+
+// Recalibrated probabilities stay off the extremes, where Kelly sizing goes all in
+const MIN_PROB = 0.01;
+const MAX_PROB = 0.99;
+
+export interface RecalibrationSample {
+  probability: number; // Claude's raw estimate
+  outcome: 0 | 1;
+  category: string;
+  confidence: Confidence;
+}
+
+export type Curve =
+  | { method: "platt"; a: number; b: number }
+  | { method: "isotonic"; x: number[]; y: number[] }; // knots, x increasing
+
+export interface Recalibrator {
+  by: Config["recalibrationBy"];
+  pooled: Curve;
+  groups: Map<string, Curve>; // by groupKey
+  samples: number;
+}
+
+const clamp = (p: number) => Math.min(MAX_PROB, Math.max(MIN_PROB, p));
+const logit = (p: number) => Math.log(p / (1 - p));
+const sigmoid = (x: number) => 1 / (1 + Math.exp(-x));
+
+/**
+ * Platt scaling by Newton's method on log loss. Targets are Platt's smoothed
+ * labels, which keep the fit finite when the samples are separable.
+ */
+export function fitPlatt(samples: RecalibrationSample[]): Curve {
+  const positives = samples.filter((s) => s.outcome === 1).length;
+  const hi = (positives + 1) / (positives + 2);
+  const lo = 1 / (samples.length - positives + 2);
+  const xs = samples.map((s) => logit(clamp(s.probability)));
+
+  let a = 1;
+  let b = 0;
+  for (let iter = 0; iter < 100; iter++) {
+    let ga = 0, gb = 0, haa = 0, hab = 0, hbb = 0;
+    samples.forEach((s, i) => {
+      const x = xs[i]!;
+      const p = sigmoid(a * x + b);
+      const d = p - (s.outcome === 1 ? hi : lo);
+      const w = p * (1 - p);
+      ga += d * x;
+      gb += d;
+      haa += w * x * x;
+      hab += w * x;
+      hbb += w;
+    });
+    // Singular when every sample has the same estimate: only the offset can be fitted
+    const det = haa * hbb - hab * hab;
+    if (Math.abs(det) < 1e-12) {
+      const db = gb / hbb;
+      b -= db;
+      if (Math.abs(db) < 1e-9) break;
+      continue;
+    }
+    const da = (hbb * ga - hab * gb) / det;
+    const db = (haa * gb - hab * ga) / det;
+    a -= da;
+    b -= db;
+    if (Math.abs(da) + Math.abs(db) < 1e-9) break;
+  }
+  return { method: "platt", a, b };
+}
+
+/**
+ * Isotonic regression by pool-adjacent-violators: the non-decreasing step
+ * curve closest to the outcomes. Each step's knot sits at its samples' mean
+ * estimate.
+ */
+export function fitIsotonic(samples: RecalibrationSample[]): Curve {
+  const sorted = [...samples].sort((a, b) => a.probability - b.probability);
+  const blocks: { x: number; y: number; n: number }[] = [];
+  for (const s of sorted) {
+    const last = blocks[blocks.length - 1];
+    if (last && last.x === s.probability) {
+      last.y = (last.y * last.n + s.outcome) / (last.n + 1);
+      last.n++;
+    } else {
+      blocks.push({ x: s.probability, y: s.outcome, n: 1 });
+    }
+    // Pool backwards while the curve would go down
+    while (blocks.length > 1 && blocks[blocks.length - 2]!.y >= blocks[blocks.length - 1]!.y) {
+      const top = blocks.pop()!;
+      const prev = blocks[blocks.length - 1]!;
+      const n = prev.n + top.n;
+      prev.x = (prev.x * prev.n + top.x * top.n) / n;
+      prev.y = (prev.y * prev.n + top.y * top.n) / n;
+      prev.n = n;
+    }
+  }
+  return { method: "isotonic", x: blocks.map((b) => b.x), y: blocks.map((b) => b.y) };
+}
+
+export function applyCurve(curve: Curve, probability: number): number {
+  if (curve.method === "platt") return clamp(sigmoid(curve.a * logit(clamp(probability)) + curve.b));
+
+  const { x, y } = curve;
+  if (probability <= x[0]!) return clamp(y[0]!);
+  if (probability >= x[x.length - 1]!) return clamp(y[y.length - 1]!);
+  const i = x.findIndex((knot) => knot > probability);
+  const t = (probability - x[i - 1]!) / (x[i]! - x[i - 1]!);
+  return clamp(y[i - 1]! + t * (y[i]! - y[i - 1]!));
+}
+
+function groupKey(by: Config["recalibrationBy"], category: string, confidence: Confidence): string {
+  return by.map((g) => (g === "category" ? category : confidence)).join("/");
+}
+
+/**
+ * One sample per market with a known outcome: its first single-market Claude
+ * estimate, taken before the market resolved.
+ */
+export function recalibrationSamples(decisions: TradeDecision[], outcomes: Map<string, KnownOutcome>): RecalibrationSample[] {
+  const seen = new Set<string>();
+  const samples: RecalibrationSample[] = [];
+  for (const d of replayableDecisions(decisions)) {
+    const outcome = outcomes.get(d.marketId);
+    if (!outcome || d.oracle || seen.has(d.marketId) || Date.parse(d.timestamp) >= outcome.resolvedAt) continue;
+    seen.add(d.marketId);
+    samples.push({
+      probability: d.rawEstimate ?? d.estimate,
+      outcome: outcome.resolution === "YES" ? 1 : 0,
+      category: classifyQuestion(d.question),
+      confidence: d.confidence as Confidence,
+    });
+  }
+  return samples;
+}
+
+/**
+ * Curves fitted on `samples`, or undefined with fewer than `minSamples`.
+ */
+export function fitRecalibrator(
+  samples: RecalibrationSample[],
+  method: "platt" | "isotonic",
+  by: Config["recalibrationBy"],
+  minSamples: number
+): Recalibrator | undefined {
+  if (samples.length < minSamples) return undefined;
+  const fit = method === "platt" ? fitPlatt : fitIsotonic;
+
+  const groups = new Map<string, Curve>();
+  if (by.length > 0) {
+    const byKey = new Map<string, RecalibrationSample[]>();
+    for (const s of samples) {
+      const key = groupKey(by, s.category, s.confidence);
+      const group = byKey.get(key) ?? [];
+      group.push(s);
+      byKey.set(key, group);
+    }
+    for (const [key, group] of byKey) {
+      if (group.length >= minSamples) groups.set(key, fit(group));
+    }
+  }
+  return { by, pooled: fit(samples), groups, samples: samples.length };
+}
+
+/**
+ * `estimate` with its probability recalibrated and the original kept as
+ * `rawProbability`, or `estimate` unchanged without a recalibrator.
+ */
+export function recalibrate(recalibrator: Recalibrator | undefined, estimate: ClaudeEstimate, question: string): ClaudeEstimate {
+  if (!recalibrator) return estimate;
+  const key = groupKey(recalibrator.by, classifyQuestion(question), estimate.confidence);
+  const curve = recalibrator.groups.get(key) ?? recalibrator.pooled;
+  return { ...estimate, probability: applyCurve(curve, estimate.probability), rawProbability: estimate.probability };
+}
+
+/**
+ * The recalibrator for RECALIBRATION, fitted on the ledger and the
+ * resolved-market corpus, or undefined when it's off or there's too little history.
+ */
+export function loadRecalibrator(config: Config): Recalibrator | undefined {
+  if (config.recalibration === "off") return undefined;
+  const samples = recalibrationSamples(loadDecisions(), loadOutcomes(RESOLVED_MARKETS_FILE));
+  const recalibrator = fitRecalibrator(samples, config.recalibration, config.recalibrationBy, config.recalibrationMinSamples);
+  if (!recalibrator) {
+    logInfo(`Recalibration off: ${samples.length} resolved estimates, need ${config.recalibrationMinSamples}`);
+    return undefined;
+  }
+  const groups = recalibrator.groups.size > 0 ? `, ${recalibrator.groups.size} ${config.recalibrationBy.join("/")} group curve(s)` : "";
+  logInfo(`Recalibrating estimates (${config.recalibration}) from ${samples.length} resolved estimates${groups}`);
+  return recalibrator;
+}
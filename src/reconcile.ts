@@ -0,0 +1,217 @@
+/**
+ * Reconcile command — diffs the ledger's open positions against what each
+ * venue reports we hold, and optionally corrects the ledger to match.
+ */
+
+import type { TradeExecution, Venue, VenueName, VenuePosition } from "./types.js";
+import { loadTrades, loadOpenTrades, loadResolutions, amendTrade } from "./data.js";
+import { logInfo, logError } from "./logger.js";
+
+export interface ReconcileIssue {
+  kind:
+    | "MISSING_FILL"       // ledger says the order failed, venue says we hold it
+    | "MANUAL_TRADE"       // venue position with no ledger trade at all
+    | "PHANTOM"            // ledger position the venue doesn't have
+    | "SHARE_MISMATCH"     // both agree we hold it, but not on how much
+    | "RESOLVED_UNBOOKED"; // phantom because the market settled — run resolve
+  venue: VenueName;
+  marketId: string;
+  answerId?: string;
+  direction: "YES" | "NO";
+  localShares?: number;
+  remoteShares?: number;
+  trades: TradeExecution[]; // ledger rows a repair would amend
+}
+
+// Shares differ by more than this fraction (or 0.01 absolute) → mismatch
+const SHARE_TOLERANCE = 0.01;
+
+/**
+ * Compare open ledger trades on one venue with the venue's reported positions.
+ * `failed` are errored buys (possible missing fills); `closedMarketIds` are
+ * markets already resolved or sold in the ledger, which venues often still list.
+ */
+export function diffPositions(
+  venue: VenueName,
+  open: TradeExecution[],
+  failed: TradeExecution[],
+  closedMarketIds: Set<string>,
+  remote: VenuePosition[],
+): ReconcileIssue[] {
+  const local = new Map<string, TradeExecution[]>();
+  for (const t of open) {
+    const key = `${t.marketId}:${t.answerId ?? ""}:${t.direction}`;
+    local.set(key, [...(local.get(key) ?? []), t]);
+  }
+
+  const issues: ReconcileIssue[] = [];
+
+  for (const pos of remote) {
+    const key = `${pos.marketId}:${pos.answerId ?? ""}:${pos.outcome}`;
+    const trades = local.get(key);
+    const base = { venue, marketId: pos.marketId, answerId: pos.answerId, direction: pos.outcome, remoteShares: pos.shares };
+
+    if (trades) {
+      local.delete(key);
+      // Share counts are only comparable when every fill recorded them
+      if (trades.every((t) => t.shares !== undefined)) {
+        const localShares = trades.reduce((sum, t) => sum + t.shares!, 0);
+        if (Math.abs(localShares - pos.shares) > Math.max(0.01, pos.shares * SHARE_TOLERANCE)) {
+          issues.push({ kind: "SHARE_MISMATCH", ...base, localShares, trades });
+        }
+      }
+      continue;
+    }
+
+    if (closedMarketIds.has(pos.marketId)) continue;
+
+    const lost = failed.filter((t) =>
+      t.marketId === pos.marketId && t.answerId === pos.answerId && t.direction === pos.outcome
+    );
+    if (lost.length > 0) {
+      issues.push({ kind: "MISSING_FILL", ...base, trades: [lost.at(-1)!] });
+    } else {
+      issues.push({ kind: "MANUAL_TRADE", ...base, trades: [] });
+    }
+  }
+
+  for (const trades of local.values()) {
+    const localShares = trades.every((t) => t.shares !== undefined)
+      ? trades.reduce((sum, t) => sum + t.shares!, 0)
+      : undefined;
+    issues.push({
+      kind: "PHANTOM",
+      venue,
+      marketId: trades[0]!.marketId,
+      answerId: trades[0]!.answerId,
+      direction: trades[0]!.direction,
+      localShares,
+      trades,
+    });
+  }
+
+  return issues;
+}
+
+function formatIssue(issue: ReconcileIssue): string {
+  const question = issue.trades[0]?.question.slice(0, 50) ?? issue.marketId;
+  const shares = (n?: number) => (n === undefined ? "?" : n.toFixed(2));
+  switch (issue.kind) {
+    case "MISSING_FILL":
+      return `MISSING_FILL      ${question} — ledger recorded an error, venue holds ${shares(issue.remoteShares)} ${issue.direction}`;
+    case "MANUAL_TRADE":
+      return `MANUAL_TRADE      ${issue.marketId} — ${shares(issue.remoteShares)} ${issue.direction} not placed by the bot`;
+    case "PHANTOM":
+      return `PHANTOM           ${question} — ledger holds ${shares(issue.localShares)} ${issue.direction}, venue holds none`;
+    case "SHARE_MISMATCH":
+      return `SHARE_MISMATCH    ${question} — ledger ${shares(issue.localShares)} vs venue ${shares(issue.remoteShares)} ${issue.direction}`;
+    case "RESOLVED_UNBOOKED":
+      return `RESOLVED_UNBOOKED ${question} — settled on venue; run \`pnpm resolve\``;
+  }
+}
+
+export interface ReconcileOptions {
+  repair: boolean;
+  // Marking phantoms errored drops them from the open ledger for good, so it's opt-in
+  repairPhantoms: boolean;
+}
+
+/**
+ * Amend the ledger so it agrees with the venue. Returns false when the issue
+ * needs a human (manual trades, ambiguous multi-fill mismatches), and for
+ * phantoms unless `repairPhantoms` is set and the venue reported any positions
+ * at all — an empty list is more likely a bad fetch than an empty account.
+ */
+function repair(issue: ReconcileIssue, options: ReconcileOptions, remoteCount: number): boolean {
+  const note = (what: string) => `${new Date().toISOString()}: ${what}`;
+
+  switch (issue.kind) {
+    case "MISSING_FILL": {
+      const t = issue.trades[0]!;
+      amendTrade({
+        ...t,
+        result: { orderId: "reconciled" },
+        shares: issue.remoteShares,
+        reconciled: note(`venue holds ${issue.remoteShares} shares; ledger had error "${t.result?.error}"`),
+      });
+      return true;
+    }
+    case "SHARE_MISMATCH": {
+      if (issue.trades.length !== 1) return false;
+      const t = issue.trades[0]!;
+      amendTrade({
+        ...t,
+        shares: issue.remoteShares,
+        reconciled: note(`shares ${t.shares} → ${issue.remoteShares} per venue`),
+      });
+      return true;
+    }
+    case "PHANTOM":
+      if (!options.repairPhantoms || remoteCount === 0) return false;
+      for (const t of issue.trades) {
+        amendTrade({
+          ...t,
+          result: { ...t.result, error: "No position on venue (reconcile)" },
+          reconciled: note("venue reports no position"),
+        });
+      }
+      return true;
+    case "MANUAL_TRADE":
+    case "RESOLVED_UNBOOKED":
+      return false;
+  }
+}
+
+export async function runReconcile(venues: Map<VenueName, Venue>, options: ReconcileOptions): Promise<void> {
+  const trades = loadTrades();
+  const resolutions = loadResolutions();
+  let total = 0;
+  let repaired = 0;
+
+  for (const [name, venue] of venues) {
+    let remote: VenuePosition[];
+    try {
+      remote = await venue.fetchPositions();
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      logInfo(`${name}: skipped — ${msg}`);
+      continue;
+    }
+
+    const closedMarketIds = new Set([
+      ...resolutions.filter((r) => r.venue === name).map((r) => r.marketId),
+      ...trades.filter((t) => t.venue === name && t.action === "SELL").map((t) => t.marketId),
+    ]);
+    const failed = trades.filter((t) =>
+      t.venue === name && !t.dryRun && t.action !== "SELL" && t.result?.error
+    );
+
+    const issues = diffPositions(name, loadOpenTrades(name), failed, closedMarketIds, remote);
+
+    // A phantom may just be a market that settled since the last resolve run
+    for (const issue of issues) {
+      if (issue.kind !== "PHANTOM") continue;
+      try {
+        const status = await venue.checkResolution(issue.marketId, issue.answerId);
+        if (status.resolved) issue.kind = "RESOLVED_UNBOOKED";
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        logError(`  Could not check resolution of ${issue.marketId}: ${msg}`);
+      }
+    }
+
+    logInfo(`${name}: ${remote.length} venue positions, ${issues.length} discrepancies`);
+    for (const issue of issues) {
+      const fixed = options.repair && repair(issue, options, remote.length);
+      if (fixed) repaired++;
+      logInfo(`  ${fixed ? "[repaired] " : ""}${formatIssue(issue)}`);
+    }
+    total += issues.length;
+  }
+
+  if (total > 0 && !options.repair) {
+    logInfo("\nRe-run with --repair to amend the ledger (manual trades are reported only; phantoms need --repair-phantoms).");
+  } else if (options.repair) {
+    logInfo(`\nRepaired ${repaired}/${total} discrepancies.`);
+  }
+}
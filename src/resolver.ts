@@ -1,22 +1,17 @@
-import type { TradeDecision, TradeExecution, Resolution, PositionSnapshot } from "./types.js";
-import { readJsonl, DECISIONS_FILE, TRADES_FILE, RESOLUTIONS_FILE } from "./data.js";
-import { getMarket } from "./manifold.js";
+import type {
+  Resolution,
+  PositionSnapshot,
+  MarketResolution,
+  Venue,
+  VenueName,
+} from "./types.js";
+import { loadOpenTrades, getDecision } from "./data.js";
 import { logResolution, logSnapshot, logInfo } from "./logger.js";
-import { computeWon, computeRealizedPnl } from "./pnl.js";
+import { computeWon, computeRealizedPnl, computeUnrealizedPnl } from "./pnl.js";
 
-export async function runResolve(apiKey: string): Promise<void> {
-  const trades = readJsonl<TradeExecution>(TRADES_FILE);
-  const decisions = readJsonl<TradeDecision>(DECISIONS_FILE);
-  const existing = readJsonl<Resolution>(RESOLUTIONS_FILE);
-
-  // Only real bet executions (not dry-run, not errored, not already sold)
-  const soldTraceIds = new Set(trades.filter((t) => t.action === "SELL").map((t) => t.traceId));
-  const realTrades = trades.filter(
-    (t) => !t.dryRun && t.result?.betId && !t.result.error && !soldTraceIds.has(t.traceId)
-  );
-
-  const resolvedIds = new Set(existing.map((r) => r.traceId));
-  const unresolved = realTrades.filter((t) => !resolvedIds.has(t.traceId));
+export async function runResolve(venues: Map<VenueName, Venue>): Promise<void> {
+  // Only real bet executions (not dry-run, not errored, not already sold or resolved)
+  const unresolved = loadOpenTrades();
 
   logInfo(`Found ${unresolved.length} unresolved bets to check`);
 
@@ -25,21 +20,35 @@ export async function runResolve(apiKey: string): Promise<void> {
     return;
   }
 
-  const decisionMap = new Map(decisions.map((d) => [d.traceId, d]));
   let resolved = 0;
   let skipped = 0;
 
+  // Deduplicate markets to avoid redundant API/RPC calls
+  const statusCache = new Map<string, MarketResolution>();
+
   for (const trade of unresolved) {
+    const venueName = trade.venue;
+    const venue = venues.get(venueName);
+    if (!venue) {
+      skipped++;
+      continue;
+    }
+
     try {
-      const market = await getMarket(apiKey, trade.marketId);
+      const cacheKey = `${venueName}:${trade.marketId}:${trade.answerId ?? ""}`;
+      let status = statusCache.get(cacheKey);
+      if (!status) {
+        status = await venue.checkResolution(trade.marketId, trade.answerId);
+        statusCache.set(cacheKey, status);
+      }
 
-      if (!market.isResolved || !market.resolution) {
+      if (!status.resolved) {
         skipped++;
         continue;
       }
 
-      const resolution = market.resolution as "YES" | "NO" | "MKT" | "CANCEL";
-      const decision = decisionMap.get(trade.traceId);
+      const resolution = status.outcome;
+      const decision = getDecision(trade.traceId);
 
       if (resolution === "CANCEL") {
         const res: Resolution = {
@@ -57,7 +66,7 @@ export async function runResolve(apiKey: string): Promise<void> {
           won: false,
           pnl: 0,
           brierScore: 0,
-          venue: trade.venue ?? "manifold",
+          venue: venueName,
         };
         logResolution(res);
         resolved++;
@@ -69,7 +78,7 @@ export async function runResolve(apiKey: string): Promise<void> {
           ? 1
           : resolution === "NO"
             ? 0
-            : market.resolutionProbability ?? 0.5;
+            : status.resolutionProbability ?? 0.5;
 
       const won = computeWon(trade.direction, resolution, actual);
       const pnl = computeRealizedPnl(
@@ -79,9 +88,10 @@ export async function runResolve(apiKey: string): Promise<void> {
         resolution,
         won,
         trade.shares,
-        market.resolutionProbability
+        status.resolutionProbability
       );
       const brierScore = (trade.estimate - actual) ** 2;
+      const rawBrierScore = decision?.rawEstimate !== undefined ? (decision.rawEstimate - actual) ** 2 : undefined;
 
       const res: Resolution = {
         traceId: trade.traceId,
@@ -98,7 +108,9 @@ export async function runResolve(apiKey: string): Promise<void> {
         won,
         pnl,
         brierScore,
-        venue: trade.venue ?? "manifold",
+        rawBrierScore,
+        venue: venueName,
+        oracle: decision?.oracle,
       };
 
       logResolution(res);
@@ -106,7 +118,7 @@ export async function runResolve(apiKey: string): Promise<void> {
 
       const symbol = won ? "+" : "-";
       logInfo(
-        `  ${symbol} ${trade.question.slice(0, 60)} → ${resolution} | PnL: ${pnl >= 0 ? "+" : ""}${pnl.toFixed(1)}`
+        `  ${symbol} ${trade.question.slice(0, 60)} → ${resolution} | PnL: ${pnl >= 0 ? "+" : ""}${venue.currency}${pnl.toFixed(1)}`
       );
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
@@ -117,23 +129,15 @@ export async function runResolve(apiKey: string): Promise<void> {
   logInfo(`\nResolved: ${resolved} | Still pending: ${skipped}`);
 
   // Record mid-market snapshots for all remaining open positions
-  await recordSnapshots(apiKey);
+  await recordSnapshots(venues);
 }
 
 /**
  * Record a mid-market snapshot for every open position.
  * Gives us mark-to-market calibration data between entry and resolution.
  */
-async function recordSnapshots(apiKey: string): Promise<void> {
-  const trades = readJsonl<TradeExecution>(TRADES_FILE);
-  const resolutions = readJsonl<Resolution>(RESOLUTIONS_FILE);
-  const resolvedIds = new Set(resolutions.map((r) => r.traceId));
-
-  const soldIds = new Set(trades.filter((t) => t.action === "SELL").map((t) => t.traceId));
-  const openTrades = trades.filter(
-    (t) => !t.dryRun && t.result?.betId && !t.result.error
-      && !resolvedIds.has(t.traceId) && !soldIds.has(t.traceId)
-  );
+async function recordSnapshots(venues: Map<VenueName, Venue>): Promise<void> {
+  const openTrades = loadOpenTrades();
 
   if (openTrades.length === 0) return;
 
@@ -141,22 +145,22 @@ async function recordSnapshots(apiKey: string): Promise<void> {
   let recorded = 0;
 
   for (const trade of openTrades) {
+    const venue = venues.get(trade.venue);
+    if (!venue) continue;
+
     try {
-      const market = await getMarket(apiKey, trade.marketId);
+      const market = await venue.fetchMarket(trade.marketId, trade.answerId);
       if (market.isResolved) continue; // just resolved, skip snapshot
 
       const currentProb = market.probability;
-      let unrealizedPnl: number;
-
-      if (trade.shares) {
-        unrealizedPnl = trade.direction === "YES"
-          ? trade.shares * currentProb - trade.amount
-          : trade.shares * (1 - currentProb) - trade.amount;
-      } else {
-        unrealizedPnl = trade.direction === "YES"
-          ? trade.amount * (currentProb - trade.marketProb) / trade.marketProb
-          : trade.amount * (trade.marketProb - currentProb) / (1 - trade.marketProb);
-      }
+      const unrealizedPnl = computeUnrealizedPnl(
+        trade.direction,
+        trade.amount,
+        trade.marketProb,
+        currentProb,
+        trade.shares,
+        market.cpmm,
+      );
 
       const snapshot: PositionSnapshot = {
         timestamp: new Date().toISOString(),
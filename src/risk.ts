@@ -0,0 +1,140 @@
+/**
+ * Risk manager — consulted by the executor before every order.
+ *
+ * In order of precedence, an order is blocked by:
+ *   1. the kill switch (TRADING_ENABLED=false or KILL_SWITCH_FILE exists)
+ *   2. the venue's rolling 24h loss reaching RISK_MAX_DAILY_LOSS
+ *   3. RISK_MAX_OPEN_POSITIONS positions already open across all venues of
+ *      the account — live venues together, paper accounts (paper-venue.ts) together
+ *   4. the venue's open cost basis exceeding RISK_MAX_VENUE_EXPOSURE
+ *   5. the market's open cost basis exceeding RISK_MAX_MARKET_EXPOSURE
+ *
+ * Unrealized P&L comes from monitor snapshots, so the loss limit is only as
+ * fresh as the last `pnpm monitor` run.
+ */
+
+import { existsSync } from "fs";
+import type { RiskLimits, TradeDecision, VenueName } from "./types.js";
+import { loadOpenTrades, loadClosedSince, latestSnapshot, unrealizedPnlAt } from "./data.js";
+import { isPaperVenue } from "./paper-venue.js";
+
+export type RiskAction =
+  | "SKIP_RISK_KILL_SWITCH"
+  | "SKIP_RISK_DAILY_LOSS"
+  | "SKIP_RISK_MAX_POSITIONS"
+  | "SKIP_RISK_VENUE_EXPOSURE"
+  | "SKIP_RISK_MARKET_EXPOSURE";
+
+export interface RiskBlock {
+  action: RiskAction;
+  reason: string;
+}
+
+/**
+ * Exposure and P&L the limits are checked against. Loaded once per run and
+ * updated in memory as orders fill.
+ */
+export interface RiskState {
+  venue: VenueName;
+  dayPnl: number; // venue's realized + unrealized P&L over the last 24h
+  openPositions: number; // across all venues, live or paper as `venue` is
+  venueExposure: number; // open cost basis on the venue
+  marketExposure: Map<string, number>; // open cost basis per marketId
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Why the kill switch is on, or null if trading is allowed.
+ */
+export function killSwitchReason(limits: RiskLimits): string | null {
+  if (!limits.tradingEnabled) return "kill switch on (TRADING_ENABLED=false)";
+  if (existsSync(limits.killSwitchFile)) return `kill switch on (${limits.killSwitchFile} exists)`;
+  return null;
+}
+
+/**
+ * P&L on `venue` over the 24h before `now`: realized P&L of positions
+ * closed in the window plus the move in unrealized P&L of positions still
+ * open, each net of the unrealized P&L already marked at the window start.
+ */
+export function rollingDayPnl(venue: VenueName, now = Date.now()): number {
+  const since = new Date(now - DAY_MS).toISOString();
+  let pnl = 0;
+  for (const c of loadClosedSince(venue, since)) {
+    pnl += c.pnl - (unrealizedPnlAt(c.traceId, since) ?? 0);
+  }
+  for (const t of loadOpenTrades(venue)) {
+    pnl += (latestSnapshot(t.traceId)?.unrealizedPnl ?? 0) - (unrealizedPnlAt(t.traceId, since) ?? 0);
+  }
+  return pnl;
+}
+
+export function loadRiskState(venue: VenueName, now = Date.now()): RiskState {
+  const open = loadOpenTrades().filter((t) => isPaperVenue(t.venue) === isPaperVenue(venue));
+  const marketExposure = new Map<string, number>();
+  let venueExposure = 0;
+  for (const t of open) {
+    if (t.venue !== venue) continue;
+    venueExposure += t.amount;
+    marketExposure.set(t.marketId, (marketExposure.get(t.marketId) ?? 0) + t.amount);
+  }
+  return {
+    venue,
+    dayPnl: rollingDayPnl(venue, now),
+    openPositions: open.length,
+    venueExposure,
+    marketExposure,
+  };
+}
+
+/**
+ * The first limit `decision` would break, or null if it may be placed.
+ */
+export function checkRisk(limits: RiskLimits, state: RiskState, decision: TradeDecision): RiskBlock | null {
+  const killed = killSwitchReason(limits);
+  if (killed) return { action: "SKIP_RISK_KILL_SWITCH", reason: killed };
+
+  const maxLoss = limits.maxDailyLoss[state.venue];
+  if (maxLoss !== undefined && -state.dayPnl >= maxLoss) {
+    return {
+      action: "SKIP_RISK_DAILY_LOSS",
+      reason: `24h P&L ${state.dayPnl.toFixed(2)} has hit the ${maxLoss} loss limit`,
+    };
+  }
+
+  if (limits.maxOpenPositions > 0 && state.openPositions >= limits.maxOpenPositions) {
+    return {
+      action: "SKIP_RISK_MAX_POSITIONS",
+      reason: `${state.openPositions} positions open (max ${limits.maxOpenPositions})`,
+    };
+  }
+
+  const maxVenue = limits.maxVenueExposure[state.venue];
+  if (maxVenue !== undefined && state.venueExposure + decision.betAmount > maxVenue) {
+    return {
+      action: "SKIP_RISK_VENUE_EXPOSURE",
+      reason: `${state.venue} exposure ${state.venueExposure.toFixed(2)} + ${decision.betAmount} exceeds ${maxVenue}`,
+    };
+  }
+
+  const maxMarket = limits.maxMarketExposure[state.venue];
+  const inMarket = state.marketExposure.get(decision.marketId) ?? 0;
+  if (maxMarket !== undefined && inMarket + decision.betAmount > maxMarket) {
+    return {
+      action: "SKIP_RISK_MARKET_EXPOSURE",
+      reason: `market exposure ${inMarket.toFixed(2)} + ${decision.betAmount} exceeds ${maxMarket}`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Count a filled order against the limits for the rest of the run.
+ */
+export function recordExposure(state: RiskState, marketId: string, amount: number): void {
+  state.openPositions++;
+  state.venueExposure += amount;
+  state.marketExposure.set(marketId, (state.marketExposure.get(marketId) ?? 0) + amount);
+}
@@ -0,0 +1,170 @@
+/**
+ * Persisted record schemas — versioning, migration and runtime validation.
+ *
+ * Every record written to the ledger is stamped with `schemaVersion`. Records
+ * without one are version 1 (the original JSONL format). On read, records are
+ * migrated up to SCHEMA_VERSION in memory and then validated, so callers never
+ * see a shape the types don't describe. `pnpm migrate` persists the upgrade.
+ */
+
+import type { TradeDecision, TradeExecution, Resolution, PositionSnapshot } from "./types.js";
+
+export const SCHEMA_VERSION = 2;
+
+export type RecordKind = "decision" | "trade" | "resolution" | "snapshot";
+
+export interface RecordTypes {
+  decision: TradeDecision;
+  trade: TradeExecution;
+  resolution: Resolution;
+  snapshot: PositionSnapshot;
+}
+
+type Raw = Record<string, unknown>;
+
+export class SchemaError extends Error {
+  constructor(kind: RecordKind, message: string) {
+    super(`Invalid ${kind} record: ${message}`);
+    this.name = "SchemaError";
+  }
+}
+
+// === Migrations ===
+
+/**
+ * MIGRATIONS[kind][n] upgrades a record from version n+1 to n+2.
+ * `related` is the matching BUY trade when migrating a SELL record, if known.
+ */
+const MIGRATIONS: Record<RecordKind, ((r: Raw, related?: Raw) => Raw)[]> = {
+  decision: [
+    // v1 → v2: venue was added with Polymarket; older rows are Manifold
+    (r) => ({ ...r, venue: r.venue ?? "manifold" }),
+  ],
+  trade: [
+    // v1 → v2: backfill venue; SELL rows get the fields every trade carries
+    (r, related) => {
+      const out: Raw = { ...r, venue: r.venue ?? related?.venue ?? "manifold" };
+      if (r.action === "SELL") {
+        out.marketProb ??= r.entryProb;
+        out.estimate ??= related?.estimate ?? r.entryProb;
+        out.edge ??= related?.edge ?? 0;
+        out.dryRun ??= false;
+      }
+      return out;
+    },
+  ],
+  resolution: [
+    (r) => ({ ...r, venue: r.venue ?? "manifold" }),
+  ],
+  snapshot: [
+    (r) => r,
+  ],
+};
+
+export function recordVersion(raw: Raw): number {
+  return typeof raw.schemaVersion === "number" ? raw.schemaVersion : 1;
+}
+
+/**
+ * Upgrade a raw record to SCHEMA_VERSION. Throws on records from a newer version.
+ */
+export function migrateRecord(kind: RecordKind, raw: Raw, related?: Raw): Raw {
+  let version = recordVersion(raw);
+  if (version > SCHEMA_VERSION) {
+    throw new SchemaError(kind, `schemaVersion ${version} is newer than supported ${SCHEMA_VERSION}`);
+  }
+  let out = raw;
+  while (version < SCHEMA_VERSION) {
+    out = MIGRATIONS[kind][version - 1]!(out, related);
+    version++;
+  }
+  return { ...out, schemaVersion: SCHEMA_VERSION };
+}
+
+// === Validation ===
+
+type FieldType = "string" | "number" | "boolean" | "object";
+type FieldSpec = Record<string, FieldType | `${FieldType}?`>;
+
+const DIRECTIONS = ["YES", "NO"];
+const VENUES = ["manifold", "polymarket", "kalshi", "paper-manifold", "paper-polymarket", "paper-kalshi"];
+
+const SPECS: Record<RecordKind, FieldSpec> = {
+  decision: {
+    traceId: "string", timestamp: "string", marketId: "string", question: "string",
+    marketUrl: "string", marketProb: "number", estimate: "number", confidence: "string",
+    reasoning: "string", edge: "number", direction: "string?", kellyFraction: "number",
+    effectiveProb: "number", betAmount: "number", action: "string", venue: "string",
+    liquidity: "number", closeTime: "string", uniqueBettorCount: "number", description: "string",
+    polyTokenId: "string?", eventId: "string?", groupId: "string?", answerId: "string?", outcome: "string?",
+    bankroll: "number?", portfolioScale: "number?", limitProb: "number?", quoteSide: "string?",
+    oracle: "string?", oracleProb: "number?", claudeEstimate: "number?", rawEstimate: "number?",
+    rawEdge: "number?", annualizedReturn: "number?",
+  },
+  trade: {
+    traceId: "string", timestamp: "string", marketId: "string", question: "string",
+    direction: "string", amount: "number", marketProb: "number", estimate: "number",
+    edge: "number", dryRun: "boolean", venue: "string", polyTokenId: "string?",
+    shares: "number?", action: "string?", result: "object?", exitRules: "object?",
+    groupId: "string?", answerId: "string?", limitProb: "number?", reconciled: "string?",
+  },
+  resolution: {
+    traceId: "string", resolvedAt: "string", marketId: "string", question: "string",
+    resolution: "string", direction: "string", estimate: "number", marketProbAtBet: "number",
+    edge: "number", confidence: "string", amount: "number", won: "boolean", pnl: "number",
+    brierScore: "number", rawBrierScore: "number?", venue: "string", oracle: "string?",
+  },
+  snapshot: {
+    timestamp: "string", traceId: "string", marketId: "string", question: "string",
+    direction: "string", amount: "number", estimate: "number", entryProb: "number",
+    currentProb: "number", unrealizedPnl: "number",
+  },
+};
+
+const SELL_SPEC: FieldSpec = {
+  entryProb: "number", sellProb: "number", proceeds: "number", realizedPnl: "number", reason: "string",
+};
+
+function checkFields(kind: RecordKind, r: Raw, spec: FieldSpec): void {
+  for (const [key, type] of Object.entries(spec)) {
+    const optional = type.endsWith("?");
+    const expected = optional ? type.slice(0, -1) : type;
+    const value = r[key];
+    if (value === undefined || value === null) {
+      if (optional) continue;
+      throw new SchemaError(kind, `missing ${key}`);
+    }
+    if (typeof value !== expected) {
+      throw new SchemaError(kind, `${key} should be ${expected}, got ${typeof value}`);
+    }
+  }
+}
+
+function checkEnum(kind: RecordKind, r: Raw, key: string, allowed: string[]): void {
+  const value = r[key];
+  if (value === undefined || value === null) return;
+  if (!allowed.includes(value as string)) {
+    throw new SchemaError(kind, `${key} "${String(value)}" not one of ${allowed.join("|")}`);
+  }
+}
+
+/**
+ * Migrate and validate a raw parsed record. Throws SchemaError if it doesn't fit.
+ */
+export function parseRecord<K extends RecordKind>(kind: K, raw: unknown, related?: Raw): RecordTypes[K] {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new SchemaError(kind, "not an object");
+  }
+  const r = migrateRecord(kind, raw as Raw, related);
+
+  checkFields(kind, r, SPECS[kind]);
+  checkEnum(kind, r, "direction", DIRECTIONS);
+  if (kind !== "snapshot") checkEnum(kind, r, "venue", VENUES);
+  if (kind === "trade" && r.action !== undefined) {
+    checkEnum(kind, r, "action", ["SELL"]);
+    checkFields(kind, r, SELL_SPEC);
+  }
+  if (kind === "resolution") checkEnum(kind, r, "resolution", ["YES", "NO", "MKT", "CANCEL"]);
+
+  return r as unknown as RecordTypes[K];
+}
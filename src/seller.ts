@@ -1,69 +1,47 @@
 /**
- * Sell command — checks open positions and sells those that have
- * reached target profit or where thesis is invalidated.
+ * Sell command — checks open positions against the configured exit rules
+ * (exit-rules.ts) and sells those where any rule fires.
+ * Orderbook venues are valued at the price the bids would actually pay.
+ * With SELL_REEVALUATE, Claude re-estimates each candidate first and
+ * positions that still have edge are held.
  */
 
-import type { Config, TradeExecution, ManifoldMarket } from "./types.js";
-import { readJsonl, appendJsonl, TRADES_FILE, RESOLUTIONS_FILE } from "./data.js";
-import { getMarket, sellShares } from "./manifold.js";
-import { logInfo, logError } from "./logger.js";
-import type { Resolution } from "./types.js";
+import type { ClaudeEstimate, Config, Market, Position, TradeDecision, Venue, VenueName } from "./types.js";
+import { loadOpenTrades, insertTrade, peakUnrealizedPnl, getDecision } from "./data.js";
+import { logInfo, logError, logDecision } from "./logger.js";
+import { estimateProbability } from "./analyzer.js";
+import { loadRecalibrator, recalibrate } from "./recalibration.js";
+import { killSwitchReason } from "./risk.js";
+import { annualizedReturn, clearsEdgeThreshold } from "./strategy.js";
 import { computeUnrealizedPnl, computeMaxPayout } from "./pnl.js";
-
-interface Position {
-  traceId: string;
-  marketId: string;
-  question: string;
-  direction: "YES" | "NO";
-  amount: number;
-  shares?: number; // actual shares received — enables accurate fill-price P&L
-  entryProb: number; // fallback when shares not available
-  estimate: number;
-  edge: number;
-}
+import { toPosition } from "./positions.js";
+import { evaluateExitRules, type FiredRule } from "./exit-rules.js";
+import { classifyQuestion } from "./categories.js";
 
 interface SellCandidate {
   position: Position;
-  market: ManifoldMarket;
+  venue: Venue;
+  market: Market;
   currentProb: number;
   unrealizedPnl: number;
   maxPayout: number;
   payoutRatio: number; // unrealized / maxPayout
-  reason: string;
+  fired: FiredRule[]; // every exit rule that fired, highest priority first
 }
 
 /**
- * Find open positions from trades.jsonl that haven't resolved or been sold.
+ * Find open positions in the ledger that haven't resolved or been sold.
  */
-function getOpenPositions(apiKey: string): Position[] {
-  const trades = readJsonl<TradeExecution>(TRADES_FILE);
-  const resolutions = readJsonl<Resolution>(RESOLUTIONS_FILE);
-  const resolvedTraceIds = new Set(resolutions.map((r) => r.traceId));
-  // Exclude positions we've already sold (action: "SELL" records share the same traceId)
-  const soldTraceIds = new Set(trades.filter((t) => t.action === "SELL").map((t) => t.traceId));
-
-  // Only real bet records that haven't resolved or been sold
-  return trades
-    .filter((t) => !t.dryRun && t.result?.betId && !t.result.error
-      && !resolvedTraceIds.has(t.traceId) && !soldTraceIds.has(t.traceId))
-    .map((t) => ({
-      traceId: t.traceId,
-      marketId: t.marketId,
-      question: t.question,
-      direction: t.direction,
-      amount: t.amount,
-      shares: t.shares,
-      entryProb: t.marketProb,
-      estimate: t.estimate,
-      edge: t.edge,
-    }));
+function getOpenPositions(): Position[] {
+  return loadOpenTrades().map(toPosition);
 }
 
 /**
  * Run the sell analysis and optionally execute sells.
  */
-export async function runSell(config: Config): Promise<void> {
-  const positions = getOpenPositions(config.manifoldApiKey);
+export async function runSell(config: Config, venues: Map<VenueName, Venue>): Promise<void> {
+  // Only venues that support early exits
+  const positions = getOpenPositions().filter((p) => venues.get(p.venue)?.sell);
 
   if (positions.length === 0) {
     logInfo("No open positions to evaluate.");
@@ -72,18 +50,28 @@ export async function runSell(config: Config): Promise<void> {
 
   logInfo(`Evaluating ${positions.length} open positions...`);
 
-  const candidates: SellCandidate[] = [];
+  let candidates: SellCandidate[] = [];
 
   for (const pos of positions) {
+    const venue = venues.get(pos.venue)!;
     try {
-      const market = await getMarket(config.manifoldApiKey, pos.marketId);
+      const market = await venue.fetchMarket(pos.marketId, pos.answerId);
 
       if (market.isResolved) {
-        logInfo(`  ${pos.question.slice(0, 50)} — already resolved (${market.resolution}), skip sell`);
+        logInfo(`  ${pos.question.slice(0, 50)} — already resolved, skip sell`);
         continue;
       }
 
-      const currentProb = market.probability;
+      // Orderbook venues: value the position at what the bids would pay for it
+      let currentProb = market.probability;
+      if (venue.quoteSellPrice) {
+        const exitPrice = await venue.quoteSellPrice(pos, market);
+        if (exitPrice === null) {
+          logInfo(`  ${pos.question.slice(0, 50)} — not enough bid depth to exit, skip`);
+          continue;
+        }
+        currentProb = pos.direction === "YES" ? exitPrice : 1 - exitPrice;
+      }
 
       // Calculate unrealized P&L
       const unrealizedPnl = computeUnrealizedPnl(
@@ -102,41 +90,32 @@ export async function runSell(config: Config): Promise<void> {
 
       const payoutRatio = maxPayout > 0 ? unrealizedPnl / maxPayout : 0;
 
-      // Determine if we should sell
-      let reason = "";
-
-      // Rule 1: Take profit — captured >70% of max payout
-      if (payoutRatio >= 0.7) {
-        reason = `TAKE_PROFIT: captured ${(payoutRatio * 100).toFixed(0)}% of max payout`;
-      }
-
-      // Rule 2: Market moved heavily against us — losing >50% of wager
-      if (unrealizedPnl < -pos.amount * 0.5) {
-        reason = `STOP_LOSS: losing ${((-unrealizedPnl / pos.amount) * 100).toFixed(0)}% of wager`;
-      }
-
-      // Rule 3: Market resolved to near-certainty against our position
-      if (pos.direction === "YES" && currentProb < 0.05) {
-        reason = `NEAR_CERTAIN_LOSS: market at ${(currentProb * 100).toFixed(1)}%, we're YES`;
-      }
-      if (pos.direction === "NO" && currentProb > 0.95) {
-        reason = `NEAR_CERTAIN_LOSS: market at ${(currentProb * 100).toFixed(1)}%, we're NO`;
-      }
+      const fired = evaluateExitRules(config.exitRules, {
+        position: pos,
+        market,
+        category: classifyQuestion(pos.question),
+        currentProb,
+        unrealizedPnl,
+        payoutRatio,
+        peakUnrealizedPnl: peakUnrealizedPnl(pos.traceId),
+        now: Date.now(),
+      });
 
-      if (reason) {
+      if (fired.length > 0) {
         candidates.push({
           position: pos,
+          venue,
           market,
           currentProb,
           unrealizedPnl,
           maxPayout,
           payoutRatio,
-          reason,
+          fired,
         });
       } else {
-        const pnlStr = unrealizedPnl >= 0 ? `+M$${unrealizedPnl.toFixed(1)}` : `M$${unrealizedPnl.toFixed(1)}`;
+        const pnlStr = formatPnl(unrealizedPnl, venue.currency);
         logInfo(
-          `  HOLD: ${pos.question.slice(0, 50)} | ${pos.direction} M$${pos.amount} | ${pnlStr} (${(payoutRatio * 100).toFixed(0)}% of max)`
+          `  HOLD: ${pos.question.slice(0, 50)} | ${pos.direction} ${venue.currency}${pos.amount} | ${pnlStr} (${(payoutRatio * 100).toFixed(0)}% of max)`
         );
       }
     } catch (err) {
@@ -152,14 +131,32 @@ export async function runSell(config: Config): Promise<void> {
 
   logInfo(`\n--- Sell Candidates ---`);
   for (const c of candidates) {
-    const pnlStr = c.unrealizedPnl >= 0 ? `+M$${c.unrealizedPnl.toFixed(1)}` : `M$${c.unrealizedPnl.toFixed(1)}`;
+    const pnlStr = formatPnl(c.unrealizedPnl, c.venue.currency);
     logInfo(
-      `  SELL: ${c.position.question.slice(0, 50)} | ${c.position.direction} M$${c.position.amount} | ${pnlStr} | ${c.reason}`
+      `  SELL: ${c.position.question.slice(0, 50)} | ${c.position.direction} ${c.venue.currency}${c.position.amount} | ${pnlStr} | ${c.fired.map((f) => f.reason).join("; ")}`
     );
   }
 
+  if (config.sellReevaluate) {
+    candidates = await reevaluateCandidates(config, candidates);
+    if (candidates.length === 0) {
+      logInfo("\nRe-evaluation held every candidate.");
+      return;
+    }
+  }
+
+  // Paper exits are simulated and go ahead in a dry run
   if (config.dryRun) {
-    logInfo(`\n[DRY RUN] Would sell ${candidates.length} positions.`);
+    const live = candidates.filter((c) => !c.venue.paper).length;
+    if (live > 0) logInfo(`\n[DRY RUN] Would sell ${live} positions.`);
+    candidates = candidates.filter((c) => c.venue.paper);
+    if (candidates.length === 0) return;
+  }
+
+  // The kill switch stops exits too — it blocks all order placement
+  const halted = killSwitchReason(config.risk);
+  if (halted) {
+    logError(`\nNot selling: ${halted}.`);
     return;
   }
 
@@ -169,24 +166,32 @@ export async function runSell(config: Config): Promise<void> {
 
   for (const c of candidates) {
     try {
-      await sellShares(config.manifoldApiKey, c.position.marketId, c.position.direction);
-      const pnlStr = c.unrealizedPnl >= 0 ? `+M$${c.unrealizedPnl.toFixed(1)}` : `M$${c.unrealizedPnl.toFixed(1)}`;
-      logInfo(`  Sold ${c.position.direction} on ${c.position.question.slice(0, 50)} (${pnlStr}) — ${c.reason}`);
+      const fill = await c.venue.sell!(c.position, c.market);
+      const realizedPnl = fill.proceeds - c.position.amount;
+      const pnlStr = formatPnl(realizedPnl, c.venue.currency);
+      logInfo(`  Sold ${c.position.direction} on ${c.position.question.slice(0, 50)} (${pnlStr}) — ${c.fired[0]!.name}`);
       sold++;
-      appendJsonl(TRADES_FILE, {
+      insertTrade({
         traceId: c.position.traceId,
         timestamp: new Date().toISOString(),
         marketId: c.position.marketId,
         question: c.position.question,
-        action: "SELL" as const,
+        venue: c.position.venue,
+        action: "SELL",
         direction: c.position.direction,
+        marketProb: c.position.entryProb,
+        estimate: c.position.estimate,
+        edge: c.position.edge,
+        dryRun: false,
         entryProb: c.position.entryProb,
         sellProb: c.currentProb,
         amount: c.position.amount,
-        shares: c.position.shares,
-        proceeds: c.position.amount + c.unrealizedPnl,
-        realizedPnl: c.unrealizedPnl,
-        reason: c.reason,
+        shares: fill.shares ?? c.position.shares,
+        proceeds: fill.proceeds,
+        realizedPnl,
+        reason: c.fired.map((f) => f.reason).join("; "),
+        exitRules: c.fired.map((f) => f.name),
+        result: { betId: fill.betId, orderId: fill.orderId },
       });
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
@@ -196,3 +201,80 @@ export async function runSell(config: Config): Promise<void> {
 
   logInfo(`\nSold ${sold}/${candidates.length} positions.`);
 }
+
+/**
+ * Re-run the estimate for each candidate with fresh enrichment data and the
+ * reasoning behind the original bet. Candidates whose new estimate still
+ * clears the edge threshold (in EDGE_THRESHOLD_MODE) at the exit price are held. Estimates
+ * are recalibrated as in scan. Each verdict is logged as a decision on the
+ * position's traceId. If Claude fails, the exit rules decide.
+ */
+async function reevaluateCandidates(config: Config, candidates: SellCandidate[]): Promise<SellCandidate[]> {
+  logInfo(`\n--- Re-evaluating ${candidates.length} candidates ---`);
+  const toSell: SellCandidate[] = [];
+  const recalibrator = loadRecalibrator(config);
+
+  for (const c of candidates) {
+    const pos = c.position;
+    const original = getDecision(pos.traceId);
+
+    let estimate: ClaudeEstimate;
+    try {
+      estimate = recalibrate(
+        recalibrator,
+        await estimateProbability(
+          config,
+          c.market,
+          undefined,
+          original && { probability: original.estimate, reasoning: original.reasoning, timestamp: original.timestamp },
+        ),
+        pos.question,
+      );
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      logError(`  Re-estimate failed for ${pos.marketId}: ${msg} — selling on exit rules`);
+      toSell.push(c);
+      continue;
+    }
+
+    // Edge left in our direction if we keep holding at the exit price
+    const edge = pos.direction === "YES" ? estimate.probability - c.currentProb : c.currentProb - estimate.probability;
+    const sidePrice = pos.direction === "YES" ? c.currentProb : 1 - c.currentProb;
+    const hold = edge > 0 && clearsEdgeThreshold(config, edge, annualizedReturn(edge, sidePrice, c.market.closeTime), estimate.confidence);
+    logDecision(toReevalDecision(c, estimate, edge, hold), c.venue.currency);
+    if (!hold) toSell.push(c);
+  }
+
+  return toSell;
+}
+
+function toReevalDecision(c: SellCandidate, estimate: ClaudeEstimate, edge: number, hold: boolean): TradeDecision {
+  return {
+    traceId: c.position.traceId,
+    timestamp: new Date().toISOString(),
+    marketId: c.position.marketId,
+    question: c.position.question,
+    marketUrl: c.market.url,
+    marketProb: c.currentProb,
+    estimate: estimate.probability,
+    rawEstimate: estimate.rawProbability,
+    confidence: estimate.confidence,
+    reasoning: estimate.reasoning,
+    edge,
+    direction: c.position.direction,
+    kellyFraction: 0,
+    effectiveProb: c.currentProb,
+    betAmount: 0,
+    action: hold ? "REEVAL_HOLD" : "REEVAL_SELL",
+    venue: c.position.venue,
+    polyTokenId: c.position.polyTokenId,
+    liquidity: c.market.liquidity,
+    closeTime: new Date(c.market.closeTime).toISOString(),
+    uniqueBettorCount: c.market.uniqueBettorCount,
+    description: c.market.description,
+  };
+}
+
+function formatPnl(pnl: number, currency: string): string {
+  return pnl >= 0 ? `+${currency}${pnl.toFixed(1)}` : `${currency}${pnl.toFixed(1)}`;
+}
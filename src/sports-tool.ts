@@ -41,12 +41,16 @@ const TEAM_ALIASES: Record<string, string[]> = {
   "Detroit Pistons": ["pistons", "det"],
 };
 
-function findTeamInQuestion(question: string): string[] {
-  const q = question.toLowerCase();
+/**
+ * Teams a question mentions. Aliases match whole words only, so "President"
+ * doesn't find the Nuggets ("den").
+ */
+export function findTeamInQuestion(question: string): string[] {
+  const words = new Set(question.toLowerCase().split(/[^a-z0-9]+/));
   const found: string[] = [];
   for (const [fullName, aliases] of Object.entries(TEAM_ALIASES)) {
     for (const alias of aliases) {
-      if (q.includes(alias)) {
+      if (words.has(alias)) {
         found.push(fullName);
         break;
       }
@@ -93,11 +97,12 @@ interface ESPNOddsItem {
 }
 
 /**
- * Check if a market question is sports-related and return enrichment context.
+ * The league a question is about, that day's ESPN games (today's if the
+ * question names no date), and the game it mentions if one can be picked out.
  */
-export async function fetchSportsContext(question: string): Promise<string | null> {
-  for (const config of SPORT_CONFIGS) {
-    if (!config.pattern.test(question)) continue;
+async function findGame(question: string): Promise<{ sport: SportConfig; events: ESPNEvent[]; event?: ESPNEvent } | null> {
+  for (const sport of SPORT_CONFIGS) {
+    if (!sport.pattern.test(question)) continue;
 
     // Extract date from question (e.g., "Feb 22", "February 22")
     const dateMatch = question.match(/(?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)\w*\.?\s+(\d{1,2})/i);
@@ -114,43 +119,101 @@ export async function fetchSportsContext(question: string): Promise<string | nul
       dateStr = `${year}${month}${day}`;
     }
 
-    const events = await fetchScoreboard(config, dateStr);
+    const events = await fetchScoreboard(sport, dateStr);
     if (!events || events.length === 0) continue;
 
     // Find the specific game mentioned
     const teamsInQuestion = findTeamInQuestion(question);
-    let matchedEvent: ESPNEvent | undefined;
+    let event: ESPNEvent | undefined;
 
     if (teamsInQuestion.length > 0) {
-      matchedEvent = events.find((e) => {
+      event = events.find((e) => {
         const eventTeams = e.competitions[0]?.competitors.map((c) => c.team.displayName) ?? [];
         return teamsInQuestion.some((t) => eventTeams.includes(t));
       });
     }
 
-    if (!matchedEvent && events.length === 1) {
-      matchedEvent = events[0];
-    }
-
-    if (!matchedEvent) {
-      // Return general schedule context
-      const lines = events.slice(0, 5).map((e) => {
-        const comp = e.competitions[0];
-        const away = comp?.competitors.find((c) => c.homeAway === "away");
-        const home = comp?.competitors.find((c) => c.homeAway === "home");
-        const odds = comp?.odds?.[0];
-        return `- ${away?.team.displayName} @ ${home?.team.displayName} — ${e.status.type.description}${odds ? ` (${odds.details}, O/U ${odds.overUnder})` : ""}`;
-      });
-      return `## Sports Data (${config.espnLeague.toUpperCase()})\n${lines.join("\n")}`;
+    if (!event && events.length === 1) {
+      event = events[0];
     }
 
-    // Build detailed context for the matched game
-    return await buildGameContext(config, matchedEvent);
+    return { sport, events, event };
   }
 
   return null;
 }
 
+/**
+ * Check if a market question is sports-related and return enrichment context.
+ */
+export async function fetchSportsContext(question: string): Promise<string | null> {
+  const game = await findGame(question);
+  if (!game) return null;
+
+  if (!game.event) {
+    // Return general schedule context
+    const lines = game.events.slice(0, 5).map((e) => {
+      const comp = e.competitions[0];
+      const away = comp?.competitors.find((c) => c.homeAway === "away");
+      const home = comp?.competitors.find((c) => c.homeAway === "home");
+      const odds = comp?.odds?.[0];
+      return `- ${away?.team.displayName} @ ${home?.team.displayName} — ${e.status.type.description}${odds ? ` (${odds.details}, O/U ${odds.overUnder})` : ""}`;
+    });
+    return `## Sports Data (${game.sport.espnLeague.toUpperCase()})\n${lines.join("\n")}`;
+  }
+
+  // Build detailed context for the matched game
+  return await buildGameContext(game.sport, game.event);
+}
+
+/**
+ * The team a question is asking about — whichever it names first, so "Will
+ * the Lakers beat the Celtics?" is about the Lakers.
+ */
+function subjectTeam(question: string): string | undefined {
+  const words = question.toLowerCase().split(/[^a-z0-9]+/);
+  let best: { team: string; index: number } | undefined;
+  for (const team of findTeamInQuestion(question)) {
+    const index = Math.min(...TEAM_ALIASES[team]!.map((a) => words.indexOf(a)).filter((i) => i >= 0));
+    if (!best || index < best.index) best = { team, index };
+  }
+  return best?.team;
+}
+
+/**
+ * Sportsbook probability that the team a "will X beat Y" question asks about
+ * wins its upcoming game, from the first ESPN provider quoting both
+ * moneylines, with the vig removed. Null unless the question names both teams
+ * of a game that hasn't started.
+ */
+export async function fetchMoneylineProb(
+  question: string,
+): Promise<{ team: string; probability: number; provider: string } | null> {
+  if (!/\b(beat|beats|win|wins|defeat|defeats)\b/i.test(question)) return null;
+  const team = subjectTeam(question);
+  const game = team ? await findGame(question) : null;
+  if (!team || !game?.event || game.event.status.type.state !== "pre") return null;
+
+  const competitors = game.event.competitions[0]?.competitors ?? [];
+  const home = competitors.find((c) => c.homeAway === "home");
+  const away = competitors.find((c) => c.homeAway === "away");
+  const named = findTeamInQuestion(question);
+  if (!home || !away || !named.includes(home.team.displayName) || !named.includes(away.team.displayName)) return null;
+
+  const odds = await fetchOdds(game.sport, game.event.id);
+  const quote = odds?.find((o) => o.homeTeamOdds?.moneyLine && o.awayTeamOdds?.moneyLine);
+  if (!quote) return null;
+
+  const homeImplied = mlToProb(quote.homeTeamOdds!.moneyLine!);
+  const awayImplied = mlToProb(quote.awayTeamOdds!.moneyLine!);
+  const homeWin = homeImplied / (homeImplied + awayImplied);
+  return {
+    team,
+    probability: team === home.team.displayName ? homeWin : 1 - homeWin,
+    provider: quote.provider.name,
+  };
+}
+
 async function fetchScoreboard(config: SportConfig, dateStr?: string): Promise<ESPNEvent[] | null> {
   try {
     let url = `${ESPN_SCOREBOARD}/${config.espnSport}/${config.espnLeague}/scoreboard`;
@@ -1,12 +1,16 @@
 import { randomUUID } from "crypto";
-import type { Config, ManifoldMarket, ClaudeEstimate, TradeDecision } from "./types.js";
-import type { PolymarketMarket } from "./polymarket.js";
+import type { Config, Confidence, ManifoldMarket, Market, MarketFees, ClaudeEstimate, DistributionEstimate, TradeDecision } from "./types.js";
 import { isFinanceMarket } from "./finance-tool.js";
 import { isSportsMarket } from "./sports-tool.js";
+import { cpmmBuy } from "./cpmm.js";
+import { liveVenueName } from "./paper-venue.js";
+import type { OraclePrice } from "./oracle.js";
 
 const ONE_HOUR_MS = 60 * 60 * 1000;
 const NINETY_DAYS_MS = 90 * 24 * ONE_HOUR_MS;
 const SEVEN_DAYS_MS = 7 * 24 * ONE_HOUR_MS;
+// More answers than this and Claude's distribution gets too thin to trust
+export const MAX_OUTCOMES = 12;
 
 // Patterns that indicate a market resolves quickly (hours to days)
 const FAST_RESOLUTION_PATTERNS: RegExp[] = [
@@ -58,7 +62,7 @@ export function resolutionSpeedScore(market: ManifoldMarket): number {
 
 /**
  * Filter markets suitable for analysis, sorted by resolution speed.
- * - Binary CPMM markets only
+ * - Binary CPMM markets only (plus sum-to-one multiple choice with MULTI_OUTCOME)
  * - Liquidity above threshold
  * - Closes between 1 hour and 90 days from now
  * - Has at least 1 bettor
@@ -72,7 +76,14 @@ export function filterMarkets(
 ): ManifoldMarket[] {
   const now = Date.now();
   const filtered = markets.filter((m) => {
-    if (m.outcomeType !== "BINARY") return false;
+    if (m.outcomeType === "MULTIPLE_CHOICE") {
+      if (!config.multiOutcome) return false;
+      // Search results may omit these; listMarkets rechecks the full market
+      if (m.shouldAnswersSumToOne === false) return false;
+      if (m.answers && (m.answers.length < 2 || m.answers.length > MAX_OUTCOMES)) return false;
+    } else if (m.outcomeType !== "BINARY") {
+      return false;
+    }
     if (m.isResolved) return false;
     if (m.totalLiquidity < config.minLiquidity) return false;
 
@@ -96,6 +107,99 @@ function calculateEdge(estimate: number, marketProb: number): number {
   return Math.abs(estimate - marketProb);
 }
 
+/**
+ * Taker fee per share bought at `price`.
+ */
+export function feePerShare(fees: MarketFees | undefined, price: number): number {
+  if (!fees) return 0;
+  return fees.curve === "variance"
+    ? fees.takerRate * price * (1 - price)
+    : fees.takerRate * Math.min(price, 1 - price);
+}
+
+/**
+ * YES-probability equivalent of buying `direction` at `marketProb` once the
+ * taker fee is paid — what Kelly should treat as the price.
+ */
+function withFee(fees: MarketFees | undefined, direction: "YES" | "NO", marketProb: number): number {
+  return direction === "YES"
+    ? marketProb + feePerShare(fees, marketProb)
+    : marketProb - feePerShare(fees, 1 - marketProb);
+}
+
+/**
+ * Expected profit per share for buying `direction`, net of the taker fee and
+ * (for a sized bet) the settlement cost spread over the shares it buys.
+ */
+export function netEdge(
+  estimate: number,
+  marketProb: number,
+  direction: "YES" | "NO",
+  fees: MarketFees | undefined,
+  betAmount = 0,
+): number {
+  const pWin = direction === "YES" ? estimate : 1 - estimate;
+  const price = direction === "YES" ? marketProb : 1 - marketProb;
+  const cost = price + feePerShare(fees, price);
+  const settlement = fees?.settlementCost && betAmount > 0 ? (pWin * fees.settlementCost * cost) / betAmount : 0;
+  return pWin - cost - settlement;
+}
+
+/**
+ * Net return per unit staked, scaled to a year of capital lock-up until the
+ * market closes. Simple (not compounded) so hours-long markets don't explode;
+ * lock-up is floored at an hour.
+ */
+export function annualizedReturn(edge: number, cost: number, closeTime: number, now = Date.now()): number {
+  const days = Math.max(closeTime - now, ONE_HOUR_MS) / (24 * ONE_HOUR_MS);
+  return (edge / cost) * (365 / days);
+}
+
+/**
+ * Whether an edge clears EDGE_THRESHOLD, measured as EDGE_THRESHOLD_MODE says.
+ * An EDGE_THRESHOLD_<CONFIDENCE> set for the estimate's confidence replaces it.
+ */
+export function clearsEdgeThreshold(config: Config, edge: number, annualized: number, confidence?: Confidence): boolean {
+  const threshold = (confidence && config.edgeThresholdByConfidence?.[confidence]) ?? config.edgeThreshold;
+  return (config.edgeMode === "annualized" ? annualized : edge) >= threshold;
+}
+
+/**
+ * The probability we trade on: Claude's estimate, blended with or replaced by
+ * an external price per ORACLE_MODE.
+ */
+function applyOracle(claude: number, oracle: OraclePrice, config: Config): number {
+  return config.oracleMode === "replace"
+    ? oracle.probability
+    : config.oracleWeight * oracle.probability + (1 - config.oracleWeight) * claude;
+}
+
+/**
+ * YES-probability limit for a resting order, or undefined for a market order.
+ * Manifold limits sit MANIFOLD_LIMIT_OFFSET inside our estimate; Polymarket
+ * GTC/GTD limits sit POLY_LIMIT_FRACTION of the way from mid to our estimate,
+ * and there is none once the mid has moved past the estimate. Both are rounded
+ * away from the estimate to a whole-cent tick.
+ */
+export function limitProbFor(market: Market, probability: number, direction: "YES" | "NO", config: Config): number | undefined {
+  let target: number;
+  // Paper accounts place the orders their live venue would
+  const venue = liveVenueName(market.venue);
+  if (venue === "manifold" && config.manifoldOrderType === "limit") {
+    target = direction === "YES" ? probability - config.manifoldLimitOffset : probability + config.manifoldLimitOffset;
+  } else if (venue === "polymarket" && config.polyOrderType !== "fok") {
+    const mid = market.midpoint ?? market.probability;
+    if (direction === "YES" ? probability <= mid : probability >= mid) return undefined;
+    target = mid + config.polyLimitFraction * (probability - mid);
+  } else {
+    return undefined;
+  }
+  const limit = direction === "YES"
+    ? Math.floor(target * 100 + 1e-9) / 100
+    : Math.ceil(target * 100 - 1e-9) / 100;
+  return Math.min(0.99, Math.max(0.01, limit));
+}
+
 /**
  * Determine bet direction.
  */
@@ -162,89 +266,80 @@ function sizeBet(
 }
 
 /**
- * Iteratively solve for optimal bet size accounting for AMM slippage.
- *
- * Slippage worsens our effective fill price, reducing edge and Kelly fraction.
- * We iterate: guess bet size → compute slippage-adjusted price → recompute Kelly
- * → re-size → converge in ~5 iterations.
+ * YES-probability equivalent of the average fill for spending `bet` on
+ * `direction`, fees included. Exact from the pool when we have it (cpmm.ts);
+ * otherwise approximated as moving the price ~bet / (4 * liquidity) against us.
+ */
+function effectiveFillProb(market: Market, direction: "YES" | "NO", bet: number): number {
+  let fillProb: number;
+  if (market.cpmm && bet > 0) {
+    const avgPrice = bet / cpmmBuy(market.cpmm, direction, bet).shares;
+    fillProb = direction === "YES" ? avgPrice : 1 - avgPrice;
+  } else {
+    const slippage = bet / (4 * market.liquidity);
+    fillProb = direction === "YES"
+      ? Math.min(0.99, market.probability + slippage)
+      : Math.max(0.01, market.probability - slippage);
+  }
+  return withFee(market.fees, direction, fillProb);
+}
+
+/**
+ * Solve for the bet size that's consistent with its own fill price.
  *
- * Price impact approximation for CPMM: buying amount A shifts the effective
- * average fill price by ~A / (4 * liquidity) against us.
+ * Slippage worsens our average fill, reducing edge and Kelly fraction, so the
+ * size Kelly recommends shrinks as the bet grows. We bisect between zero and
+ * the no-slippage size for the largest bet that Kelly, priced at that bet's
+ * average fill, still asks for.
  */
 function sizeBetWithSlippage(
   estimate: number,
-  marketProb: number,
+  market: Market,
   direction: "YES" | "NO",
   bankroll: number,
-  liquidity: number,
   config: Config
 ): { betAmount: number; kellyFrac: number; effectiveProb: number } {
-  let bet = 0;
-  let fKelly = 0;
-  let adjProb = marketProb;
-
-  for (let i = 0; i < 8; i++) {
-    // Adjust market prob for slippage: buying pushes price against us
-    const slippage = bet / (4 * liquidity);
-    if (direction === "YES") {
-      adjProb = Math.min(0.99, marketProb + slippage);
-    } else {
-      adjProb = Math.max(0.01, marketProb - slippage);
-    }
-
-    // Recompute Kelly at the slippage-adjusted price
-    fKelly = kellyFraction(estimate, adjProb, direction);
-    if (fKelly <= 0) return { betAmount: 0, kellyFrac: 0, effectiveProb: adjProb };
+  const recommended = (bet: number) => {
+    const effectiveProb = effectiveFillProb(market, direction, bet);
+    const kellyFrac = kellyFraction(estimate, effectiveProb, direction);
+    return { kellyFrac, effectiveProb, betAmount: kellyFrac > 0 ? sizeBet(kellyFrac, bankroll, config) : 0 };
+  };
 
-    // Size with standard constraints
-    const newBet = sizeBet(fKelly, bankroll, config);
-    if (Math.abs(newBet - bet) < 1) break; // converged
-    bet = newBet;
+  let lo = 0;
+  let hi = recommended(0).betAmount;
+  while (hi - lo > 0.01) {
+    const mid = (lo + hi) / 2;
+    if (recommended(mid).betAmount >= mid) lo = mid;
+    else hi = mid;
   }
 
-  return { betAmount: bet, kellyFrac: fKelly, effectiveProb: adjProb };
-}
-
-/**
- * Convert a Polymarket market to the ManifoldMarket shape for reuse in makeDecision/analyzer.
- */
-export function polyToManifoldLike(poly: PolymarketMarket): ManifoldMarket {
-  return {
-    id: poly.conditionId,
-    question: poly.question,
-    url: `https://polymarket.com/event/${poly.slug}`,
-    probability: poly.yesPrice,
-    totalLiquidity: poly.liquidity,
-    volume: poly.volume24hr,
-    closeTime: poly.endDate.getTime(),
-    createdTime: 0,
-    outcomeType: "BINARY",
-    mechanism: "clob",
-    isResolved: false,
-    creatorUsername: "polymarket",
-    uniqueBettorCount: 0,
-  };
+  const betAmount = Math.round(lo);
+  const atBet = recommended(betAmount);
+  return { betAmount, kellyFrac: atBet.kellyFrac, effectiveProb: atBet.effectiveProb };
 }
 
 /**
  * Analyze a market and produce a trade decision.
  */
 export function makeDecision(
-  market: ManifoldMarket,
+  market: Market,
   estimate: ClaudeEstimate,
   bankroll: number,
   config: Config,
-  options?: { venue?: "manifold" | "polymarket" }
+  options?: { maxBetAmount?: number; oracle?: OraclePrice }
 ): TradeDecision {
-  const venue = options?.venue ?? "manifold";
-  const edge = calculateEdge(estimate.probability, market.probability);
+  const oracle = config.oracleMode === "blend" || config.oracleMode === "replace" ? options?.oracle : undefined;
+  const probability = oracle ? applyOracle(estimate.probability, oracle, config) : estimate.probability;
+  // The same estimate from Claude's unrecalibrated probability, so stats can compare the two
+  const raw = estimate.rawProbability;
+  const rawEstimate = raw === undefined ? undefined : oracle ? applyOracle(raw, oracle, config) : raw;
+  const rawEdge = calculateEdge(probability, market.probability);
+  const direction = getDirection(probability, market.probability);
+  const sidePrice = direction === "YES" ? market.probability : 1 - market.probability;
+  const edge = netEdge(probability, market.probability, direction, market.fees);
+  const annualized = annualizedReturn(edge, sidePrice + feePerShare(market.fees, sidePrice), market.closeTime);
   const traceId = randomUUID();
 
-  // Extract text description for logging
-  let desc = "";
-  if (market.textDescription) desc = market.textDescription;
-  else if (typeof market.description === "string") desc = market.description;
-
   const base: Omit<TradeDecision, "action" | "direction" | "kellyFraction" | "effectiveProb" | "betAmount"> = {
     traceId,
     timestamp: new Date().toISOString(),
@@ -252,18 +347,26 @@ export function makeDecision(
     question: market.question,
     marketUrl: market.url,
     marketProb: market.probability,
-    estimate: estimate.probability,
+    estimate: probability,
     confidence: estimate.confidence,
-    reasoning: estimate.reasoning,
+    reasoning: oracle ? `${estimate.reasoning} [Oracle: ${oracle.detail}]` : estimate.reasoning,
     edge,
-    venue,
-    liquidity: market.totalLiquidity,
+    rawEdge,
+    annualizedReturn: annualized,
+    venue: market.venue,
+    eventId: market.eventId,
+    oracle: oracle?.source,
+    oracleProb: oracle?.probability,
+    claudeEstimate: oracle ? estimate.probability : undefined,
+    rawEstimate,
+    bankroll,
+    liquidity: market.liquidity,
     closeTime: new Date(market.closeTime).toISOString(),
     uniqueBettorCount: market.uniqueBettorCount ?? 0,
-    description: desc.slice(0, 2000),
+    description: market.description.slice(0, 2000),
   };
 
-  if (edge < config.edgeThreshold) {
+  if (edge <= 0 || !clearsEdgeThreshold(config, edge, annualized, estimate.confidence)) {
     return {
       ...base,
       direction: null,
@@ -274,8 +377,8 @@ export function makeDecision(
     };
   }
 
-  // Skip low-confidence bets unless we have a data tool for this category
-  if (estimate.confidence === "low") {
+  // Skip low-confidence bets unless we have a data tool or oracle for this market
+  if (estimate.confidence === "low" && !oracle) {
     const hasDataTool = isFinanceMarket(market.question) || isSportsMarket(market.question);
     if (!hasDataTool) {
       return {
@@ -289,27 +392,29 @@ export function makeDecision(
     }
   }
 
-  const direction = getDirection(estimate.probability, market.probability);
-
   let betAmount: number;
   let kellyFrac: number;
   let effectiveProb: number;
+  const limitProb = limitProbFor(market, probability, direction, config);
 
-  if (venue === "polymarket") {
-    // CLOB: no AMM slippage — plain Kelly sizing
-    kellyFrac = kellyFraction(estimate.probability, market.probability, direction);
-    effectiveProb = market.probability;
+  if (limitProb !== undefined) {
+    // Limit order: we never pay worse than the limit, so size at it
+    effectiveProb = withFee(market.fees, direction, limitProb);
+    kellyFrac = kellyFraction(probability, effectiveProb, direction);
+    betAmount = kellyFrac > 0 ? sizeBet(kellyFrac, bankroll, config) : 0;
+    base.limitProb = limitProb;
+  } else if (market.mechanism === "clob") {
+    // CLOB: no AMM slippage — plain Kelly sizing (fill price already depth-adjusted)
+    effectiveProb = withFee(market.fees, direction, market.probability);
+    kellyFrac = kellyFraction(probability, effectiveProb, direction);
     betAmount = kellyFrac > 0 ? sizeBet(kellyFrac, bankroll, config) : 0;
-    // Apply Polymarket-specific cap
-    betAmount = Math.min(betAmount, config.polyMaxBetAmount);
   } else {
     // AMM: iterative Kelly with slippage
     const result = sizeBetWithSlippage(
-      estimate.probability,
-      market.probability,
+      probability,
+      market,
       direction,
       bankroll,
-      market.totalLiquidity,
       config
     );
     betAmount = result.betAmount;
@@ -317,6 +422,11 @@ export function makeDecision(
     effectiveProb = result.effectiveProb;
   }
 
+  // Apply venue-specific cap
+  if (options?.maxBetAmount !== undefined) {
+    betAmount = Math.min(betAmount, options.maxBetAmount);
+  }
+
   if (kellyFrac <= 0) {
     return {
       ...base,
@@ -339,6 +449,24 @@ export function makeDecision(
     };
   }
 
+  // A flat settlement cost only bites once we know how many shares it's spread over
+  if (market.fees?.settlementCost) {
+    const sizedEdge = netEdge(probability, market.probability, direction, market.fees, betAmount);
+    if (sizedEdge <= 0) {
+      return {
+        ...base,
+        edge: sizedEdge,
+        direction,
+        kellyFraction: kellyFrac,
+        effectiveProb,
+        betAmount: 0,
+        action: "SKIP_LOW_EDGE",
+      };
+    }
+    base.edge = sizedEdge;
+    base.annualizedReturn = annualizedReturn(sizedEdge, sidePrice + feePerShare(market.fees, sidePrice), market.closeTime);
+  }
+
   return {
     ...base,
     direction,
@@ -348,3 +476,111 @@ export function makeDecision(
     action: "BET",
   };
 }
+
+/**
+ * Full Kelly stakes across mutually exclusive outcomes, exactly one of which
+ * pays 1 (Smoczynski & Tomkins). Outcomes are added in order of p / price
+ * while p / price beats the reserve rate R = (1 − Σp) / (1 − Σprice) of the
+ * outcomes already bet; each then gets p − price · R of the bankroll.
+ *
+ * Unlike sizing each outcome as its own binary bet, this accounts for the
+ * other outcomes we hold losing when one wins. With a single outcome it
+ * reduces to the binary YES fraction (p − price) / (1 − price).
+ */
+export function multiOutcomeKelly(probs: number[], prices: number[]): number[] {
+  const order = probs
+    .map((_, i) => i)
+    .filter((i) => prices[i]! > 0) // a zero price excludes the outcome
+    .sort((a, b) => probs[b]! / prices[b]! - probs[a]! / prices[a]!);
+
+  let reserve = 1;
+  let sumP = 0;
+  let sumPrice = 0;
+  const chosen: number[] = [];
+  for (const i of order) {
+    if (probs[i]! / prices[i]! <= reserve) break;
+    // Fees can push the prices of a full set past 1 — nothing left to hold back
+    if (sumPrice + prices[i]! >= 1) break;
+    sumP += probs[i]!;
+    sumPrice += prices[i]!;
+    chosen.push(i);
+    reserve = (1 - sumP) / (1 - sumPrice);
+  }
+
+  const fractions = probs.map(() => 0);
+  for (const i of chosen) fractions[i] = Math.max(0, probs[i]! - prices[i]! * reserve);
+  return fractions;
+}
+
+/**
+ * Trade decisions for every outcome of a multi-outcome market: YES on the
+ * outcomes multi-outcome Kelly picks, skips for the rest. Kelly only sees
+ * outcomes that clear the edge threshold, so the stakes are optimal for the
+ * bets we actually place rather than assuming small hedges. Outcomes that trade
+ * as their own binary market (Polymarket negRisk) carry that market's id and
+ * tokens; Manifold answers carry `answerId`.
+ */
+export function makeMultiDecisions(
+  market: Market,
+  estimate: DistributionEstimate,
+  bankroll: number,
+  config: Config,
+  options?: { maxBetAmount?: number }
+): TradeDecision[] {
+  const outcomes = market.outcomes ?? [];
+  const probs = outcomes.map((o) => estimate.probabilities[o.id] ?? 0);
+  const prices = outcomes.map((o) => withFee(market.fees, "YES", o.probability));
+  const edges = outcomes.map((o, i) => netEdge(probs[i]!, o.probability, "YES", market.fees));
+  const annualized = edges.map((edge, i) => annualizedReturn(edge, prices[i]!, market.closeTime));
+  const clears = edges.map((edge, i) => edge > 0 && clearsEdgeThreshold(config, edge, annualized[i]!, estimate.confidence));
+  const fractions = multiOutcomeKelly(probs, prices.map((price, i) => (clears[i] ? price : 0)));
+  const hasDataTool = isFinanceMarket(market.question) || isSportsMarket(market.question);
+
+  return outcomes.map((outcome, i) => {
+    const probability = probs[i]!;
+    const edge = edges[i]!;
+    const base = {
+      traceId: randomUUID(),
+      timestamp: new Date().toISOString(),
+      marketId: outcome.marketId ?? market.id,
+      question: `${market.question} — ${outcome.label}`,
+      marketUrl: market.url,
+      marketProb: outcome.probability,
+      estimate: probability,
+      confidence: estimate.confidence,
+      reasoning: estimate.reasoning,
+      edge,
+      rawEdge: calculateEdge(probability, outcome.probability),
+      annualizedReturn: annualized[i]!,
+      venue: market.venue,
+      // Outcomes of one market are one position for portfolio sizing
+      eventId: market.eventId ?? market.id,
+      answerId: outcome.marketId ? undefined : outcome.id,
+      outcome: outcome.label,
+      polyTokenId: outcome.tokenIds?.YES,
+      bankroll,
+      liquidity: market.liquidity,
+      closeTime: new Date(market.closeTime).toISOString(),
+      uniqueBettorCount: market.uniqueBettorCount ?? 0,
+      description: market.description.slice(0, 2000),
+      effectiveProb: prices[i]!,
+    };
+
+    if (!clears[i]) {
+      return { ...base, direction: null, kellyFraction: 0, betAmount: 0, action: "SKIP_LOW_EDGE" as const };
+    }
+    if (estimate.confidence === "low" && !hasDataTool) {
+      return { ...base, direction: null, kellyFraction: 0, betAmount: 0, action: "SKIP_LOW_CONFIDENCE" as const };
+    }
+    const kellyFrac = fractions[i]!;
+    if (kellyFrac <= 0) {
+      return { ...base, direction: "YES" as const, kellyFraction: kellyFrac, betAmount: 0, action: "SKIP_NEGATIVE_KELLY" as const };
+    }
+
+    let betAmount = sizeBet(kellyFrac, bankroll, config);
+    if (options?.maxBetAmount !== undefined) betAmount = Math.min(betAmount, options.maxBetAmount);
+    return betAmount < 1
+      ? { ...base, direction: "YES" as const, kellyFraction: kellyFrac, betAmount: 0, action: "SKIP_LOW_EDGE" as const }
+      : { ...base, direction: "YES" as const, kellyFraction: kellyFrac, betAmount, action: "BET" as const };
+  });
+}
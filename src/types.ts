@@ -1,13 +1,28 @@
+import type { ExitRule } from "./exit-rules.js";
+import type { RiskAction } from "./risk.js";
+import type { CpmmState } from "./cpmm.js";
+import type { OracleSource } from "./oracle.js";
+
 export interface Config {
   manifoldApiKey: string;
   anthropicApiKey: string;
   dryRun: boolean;
   edgeThreshold: number;
+  edgeMode: "raw" | "annualized"; // what edgeThreshold is compared against (see strategy.ts)
+  edgeThresholdByConfidence: Partial<Record<Confidence, number>>; // overrides edgeThreshold per estimate confidence
   kellyFraction: number;
   maxPositionPct: number;
   maxBetAmount: number;
   minLiquidity: number;
   maxMarketsPerRun: number;
+  portfolioMaxPct: number; // open + new bets as a share of bankroll (see portfolio.ts)
+  portfolioCorrelation: boolean; // size correlated markets as one position
+  oracleMode: "off" | "blend" | "replace"; // external prices for Manifold markets (see oracle.ts)
+  oracleWeight: number; // oracle's share of the blended estimate
+  multiOutcome: boolean; // also scan multiple-choice / negRisk markets
+  manifoldOrderType: "market" | "limit"; // limit = resting orders just inside our estimate (see orders.ts)
+  manifoldLimitOffset: number; // how far inside our estimate the limit sits
+  manifoldLimitExpiryHours: number;
   claudeModel: string;
   // Polymarket
   polyPrivateKey?: string;
@@ -17,14 +32,80 @@ export interface Config {
   polyMinLiquidity: number;
   polyMaxMarketsPerRun: number;
   polyMaxBetAmount: number;
+  polyBankrollReserve: number; // USDC held back from the sizing bankroll for gas and pending orders
+  polyRedeemGas: number; // USDC cost of redeeming a winning position, charged against edge
+  polyOrderType: "fok" | "gtc" | "gtd"; // fok = cross the spread; gtc/gtd = resting limit orders (see orders.ts)
+  polyLimitFraction: number; // resting limit sits this fraction of the way from mid to our estimate
+  polyGtdExpiryHours: number;
+  polyOrderMaxAgeHours: number; // resting orders older than this are cancelled, not repriced
+  // Kalshi
+  kalshiApiBase?: string;
+  kalshiApiKeyId?: string;
+  kalshiPrivateKeyPath?: string;
+  kalshiSeries: string[];
+  kalshiMinVolume24hr: number;
+  kalshiMaxMarketsPerRun: number;
+  kalshiMaxBetAmount: number;
+  kalshiTakerFee: number; // Kalshi taker fee coefficient: fee per contract = rate × P × (1 − P)
+  // Seller
+  exitRules: ExitRule[];
+  sellReevaluate: boolean; // re-estimate each sell candidate with Claude before selling
+  // Risk (see risk.ts)
+  risk: RiskLimits;
+  // Cross-venue arbitrage (see arb.ts)
+  arbMinSimilarity: number; // question word overlap (Jaccard) for a candidate pair
+  arbMaxCloseGapDays: number; // close dates further apart than this aren't the same question
+  arbMinGap: number; // min payout per share pair left after fees and slippage to trade
+  arbMaxMarkets: number; // markets listed per venue when looking for pairs
+  // Polymarket market making (see market-maker.ts)
+  mmHalfSpread: number; // quotes sit this far either side of our fair value
+  mmMaxSkew: number; // how far both quotes shift at full inventory, against the side we hold
+  mmQuoteSize: number; // USDC per quote
+  mmMaxInventory: number; // net YES − NO shares per market at which we stop adding to that side
+  mmPullHours: number; // quotes are pulled this close to the market's end date
+  mmPullMove: number; // quotes are pulled, and the market re-estimated, when the mid moves this far
+  mmIntervalSeconds: number;
+  mmMaxMarkets: number;
+  // Paper trading (see paper-venue.ts)
+  paperBankroll: number; // starting bankroll of each paper account, in its venue's currency
+  paperFills: "live" | "recorded"; // live = the book/pool at order time; recorded = the decision's modelled fill price
+  // Recalibration of Claude's estimates (see recalibration.ts)
+  recalibration: "off" | "platt" | "isotonic";
+  recalibrationBy: ("category" | "confidence")[]; // fit a separate curve per group, where it has enough samples
+  recalibrationMinSamples: number; // resolved estimates needed to fit a curve
+}
+
+/**
+ * Limits the risk manager enforces before every order. Amounts are in each
+ * venue's own currency; a venue missing from a map has no limit there.
+ */
+export interface RiskLimits {
+  tradingEnabled: boolean; // false = kill switch on
+  killSwitchFile: string; // kill switch is on while this file exists
+  maxDailyLoss: Partial<Record<VenueName, number>>; // rolling 24h realized + unrealized
+  maxOpenPositions: number; // across all live venues (paper accounts count separately), 0 = unlimited
+  maxVenueExposure: Partial<Record<VenueName, number>>; // open cost basis per venue
+  maxMarketExposure: Partial<Record<VenueName, number>>; // open cost basis per market
 }
 
+export type LiveVenueName = "manifold" | "polymarket" | "kalshi";
+
+/** Simulated account trading against a live venue's prices (see paper-venue.ts). */
+export type PaperVenueName = `paper-${LiveVenueName}`;
+
+export type VenueName = LiveVenueName | PaperVenueName;
+
 export interface ManifoldUser {
   id: string;
   username: string;
   balance: number;
 }
 
+export interface ManifoldPortfolio {
+  balance: number;
+  investmentValue: number; // open positions at current prices
+}
+
 export interface ManifoldMarket {
   id: string;
   question: string;
@@ -44,11 +125,84 @@ export interface ManifoldMarket {
   resolutionTime?: number;
   uniqueBettorCount?: number;
   creatorUsername: string;
+  pool?: { YES: number; NO: number }; // cpmm-1 share pool (full market only)
+  p?: number; // cpmm-1 weight
+  answers?: ManifoldAnswer[]; // MULTIPLE_CHOICE only
+  shouldAnswersSumToOne?: boolean;
+}
+
+export interface ManifoldAnswer {
+  id: string;
+  text: string;
+  probability: number;
+  resolution?: string; // "YES" | "NO" | "CANCEL" once this answer is resolved
+}
+
+/**
+ * Venue-neutral binary market. Each Venue adapter converts its native market
+ * shape into this so the analyzer and strategy never see venue specifics.
+ */
+export interface Market {
+  id: string;
+  venue: VenueName;
+  question: string;
+  description: string;
+  url: string;
+  probability: number; // YES price / probability
+  liquidity: number;
+  volume: number;
+  closeTime: number;
+  mechanism: "cpmm" | "clob"; // AMM pool vs orderbook — drives slippage-aware sizing
+  creator: string;
+  uniqueBettorCount: number;
+  isResolved: boolean;
+  tokenIds?: { YES: string; NO: string }; // per-outcome tokens for orderbook venues
+  eventId?: string; // venue's grouping of related markets (Polymarket event, Kalshi event ticker)
+  cpmm?: CpmmState; // pool state for AMM markets — exact fill prices (cpmm.ts)
+  fees?: MarketFees; // absent = no fees
+  midpoint?: number; // YES mid between best bid and ask, when the book was read
+  outcomes?: MarketOutcome[]; // multi-outcome markets only; `probability` is then the leading outcome's price
+}
+
+/**
+ * One answer of a multi-outcome market. Outcomes are mutually exclusive and
+ * exactly one resolves YES. We only ever buy YES on an outcome.
+ */
+export interface MarketOutcome {
+  id: string; // answer id (Manifold) or the outcome market's conditionId (Polymarket negRisk)
+  label: string;
+  probability: number; // YES price of this outcome
+  marketId?: string; // set when the outcome trades as its own binary market
+  tokenIds?: { YES: string; NO: string };
+}
+
+/**
+ * Trading costs on a market, set by the venue adapter. Taker fee per share
+ * at price P is `takerRate × P × (1 − P)` ("variance", Kalshi) or
+ * `takerRate × min(P, 1 − P)` ("min", Polymarket).
+ */
+export interface MarketFees {
+  takerRate: number;
+  curve: "variance" | "min";
+  settlementCost: number; // flat cost to collect a winning position, e.g. redemption gas
 }
 
+export type Confidence = "low" | "medium" | "high";
+
 export interface ClaudeEstimate {
   probability: number;
-  confidence: "low" | "medium" | "high";
+  confidence: Confidence;
+  reasoning: string;
+  rawProbability?: number; // Claude's probability before recalibration, when recalibrated (see recalibration.ts)
+}
+
+/**
+ * Claude's distribution over a multi-outcome market, keyed by outcome id.
+ * Probabilities sum to 1.
+ */
+export interface DistributionEstimate {
+  probabilities: Record<string, number>;
+  confidence: Confidence;
   reasoning: string;
 }
 
@@ -67,14 +221,39 @@ export interface TradeDecision {
   kellyFraction: number;
   effectiveProb: number;
   betAmount: number;
-  action: "BET" | "SKIP_LOW_EDGE" | "SKIP_NEGATIVE_KELLY" | "SKIP_LOW_CONFIDENCE" | "SKIP_ERROR";
-  venue: "manifold" | "polymarket";
+  // REEVAL_* are the seller's re-estimates of an open position (same traceId as the BET)
+  action:
+    | "BET"
+    | "SKIP_LOW_EDGE"
+    | "SKIP_NEGATIVE_KELLY"
+    | "SKIP_LOW_CONFIDENCE"
+    | "SKIP_ERROR"
+    | "SKIP_PORTFOLIO_CAP"
+    | "REEVAL_HOLD"
+    | "REEVAL_SELL"
+    | RiskAction;
+  venue: VenueName;
   polyTokenId?: string;
+  bankroll?: number; // bankroll the bet was sized against
+  groupId?: string; // shared by the legs of one cross-venue arbitrage
+  answerId?: string; // Manifold answer bought on a multiple-choice market
+  outcome?: string; // outcome label on multi-outcome markets
+  limitProb?: number; // YES-probability limit for a resting order; absent = market order
+  quoteSide?: "bid" | "ask"; // market-making quote (bid = buy YES, ask = buy NO), managed by market-maker.ts
+  oracle?: OracleSource; // external price that set or moved `estimate`
+  oracleProb?: number;
+  claudeEstimate?: number; // Claude's own estimate, when an oracle changed it
+  rawEstimate?: number; // what `estimate` would have been without recalibration, when recalibrated
+  rawEdge?: number; // |estimate - marketProb| before fees; `edge` is net of fees
+  annualizedReturn?: number; // net return per unit staked, per year of lock-up until close
+  portfolioScale?: number; // factor portfolio sizing applied to the single-market Kelly bet (see portfolio.ts)
+  eventId?: string;
   // Market context at decision time
   liquidity: number;
   closeTime: string;
   uniqueBettorCount: number;
   description: string;
+  schemaVersion?: number; // stamped by the ledger on write (see schema.ts)
 }
 
 export interface TradeExecution {
@@ -83,20 +262,65 @@ export interface TradeExecution {
   marketId: string;
   question: string;
   direction: "YES" | "NO";
-  amount: number;
+  amount: number; // cost basis — actual spend when the venue reports it, else the bet size
   marketProb: number;
   estimate: number;
   edge: number;
   dryRun: boolean;
-  venue: "manifold" | "polymarket";
+  venue: VenueName;
   polyTokenId?: string;
+  groupId?: string;
+  answerId?: string;
+  limitProb?: number; // set when the buy was a limit order; amount/shares grow as it fills
   shares?: number; // actual shares received (for fill-price calculation)
   action?: "SELL"; // present on sell records written after position is closed
+  // SELL records only
+  entryProb?: number;
+  sellProb?: number;
+  proceeds?: number;
+  realizedPnl?: number;
+  reason?: string;
+  exitRules?: string[]; // names of every exit rule that fired
+  reconciled?: string; // set when `reconcile --repair` amended this row
   result?: {
     betId?: string;
     orderId?: string;
     error?: string;
   };
+  schemaVersion?: number;
+}
+
+/**
+ * Journal entry written before an order goes out and cleared once its outcome
+ * is in the trade log. Entries left behind by a crash are reconciled on start.
+ */
+export interface PendingOrder {
+  key: string;
+  venue: VenueName;
+  createdAt: string;
+  decision: TradeDecision;
+}
+
+/**
+ * A resting limit order. Fills are booked as one trade row under the order's
+ * traceId, created at the first fill (`tradeTimestamp`) and amended as it grows.
+ */
+export interface OpenOrder {
+  orderId: string;
+  venue: VenueName;
+  createdAt: string;
+  expiresAt?: string;
+  decision: TradeDecision;
+  filledShares: number;
+  filledCost: number;
+  tradeTimestamp?: string;
+}
+
+/** A resting order's progress as the venue reports it. */
+export interface OrderStatus {
+  shares: number; // filled so far
+  cost: number;
+  open: boolean; // remainder still resting
 }
 
 export interface PositionSnapshot {
@@ -110,11 +334,64 @@ export interface PositionSnapshot {
   entryProb: number;
   currentProb: number;
   unrealizedPnl: number;
+  schemaVersion?: number;
+}
+
+/**
+ * A Manifold and a Polymarket market that look like the same question.
+ * Claude's verdict on whether they resolve identically is cached here so a
+ * pair is only checked once.
+ */
+export interface ArbPair {
+  manifoldId: string;
+  polymarketId: string;
+  manifoldQuestion: string;
+  polymarketQuestion: string;
+  similarity: number;
+  equivalent: boolean;
+  reasoning: string;
+  checkedAt: string;
+}
+
+export interface Position {
+  traceId: string;
+  venue: VenueName;
+  marketId: string;
+  question: string;
+  direction: "YES" | "NO";
+  amount: number;
+  shares?: number; // actual shares received — enables accurate fill-price P&L
+  entryProb: number; // fallback when shares not available
+  estimate: number;
+  edge: number;
+  polyTokenId?: string;
+  answerId?: string;
+}
+
+export interface ManifoldBet {
+  id: string;
+  contractId: string;
+  outcome: string;
+  amount: number;
+  shares: number;
+  probBefore: number;
+  probAfter: number;
+  createdTime: number;
+  isRedemption?: boolean;
+  isCancelled?: boolean;
+  answerId?: string;
+  // Limit orders only: `amount` and `shares` are what has filled so far
+  limitProb?: number;
+  orderAmount?: number;
+  isFilled?: boolean;
+  expiresAt?: number;
 }
 
 export interface BetResponse {
   betId: string;
   shares: number;
+  amount?: number; // filled so far, for limit orders
+  isFilled?: boolean; // false while a limit order's remainder rests
   // Manifold returns more fields; we track shares for fill-price calculation
 }
 
@@ -133,7 +410,10 @@ export interface Resolution {
   won: boolean;
   pnl: number;
   brierScore: number;
-  venue: "manifold" | "polymarket";
+  rawBrierScore?: number; // Brier score of the estimate without recalibration, when recalibrated
+  venue: VenueName;
+  oracle?: OracleSource; // set when the bet's estimate came from an oracle
+  schemaVersion?: number;
 }
 
 export interface CalibrationBucket {
@@ -156,4 +436,84 @@ export interface CalibrationReport {
     { count: number; winRate: number; avgBrier: number; roi: number }
   >;
   recentTrend: { winRate: number; avgBrier: number; roi: number };
+  bySource: Record<"claude" | "oracle", { count: number; winRate: number; avgBrier: number; roi: number }>;
+  recalibration: { count: number; avgBrier: number; avgRawBrier: number }; // over recalibrated bets only
+}
+
+// === Venues ===
+
+export type MarketResolution =
+  | { resolved: false }
+  | {
+      resolved: true;
+      outcome: "YES" | "NO" | "MKT" | "CANCEL";
+      resolutionProbability?: number;
+    };
+
+/** What a venue reports we actually hold, independent of our trade log. */
+export interface VenuePosition {
+  marketId: string;
+  answerId?: string;
+  outcome: "YES" | "NO";
+  shares: number;
+  avgPrice: number;
+  currentValue?: number;
+}
+
+export interface OrderFill {
+  betId?: string;
+  orderId?: string;
+  shares?: number; // 0 when the order was accepted but nothing matched (killed FOK)
+  cost?: number; // actual spend, when the venue reports it
+  resting?: boolean; // limit order with an unfilled remainder left on the book
+  expiresAt?: string; // when a resting remainder lapses
+}
+
+/** Outcome of exiting a position at market. */
+export interface SellFill {
+  betId?: string;
+  orderId?: string;
+  shares?: number;
+  proceeds: number; // what the venue paid out
+}
+
+/**
+ * A prediction-market exchange. The scan, sell, resolve and monitor pipelines
+ * only talk to venues through this interface; adding an exchange means writing
+ * one adapter and registering it in venue.ts.
+ */
+export interface Venue {
+  name: VenueName;
+  currency: string; // display prefix for amounts, e.g. "M$" or "$"
+  paper?: boolean; // simulated account: orders never reach the exchange, so DRY_RUN doesn't apply
+  maxBetAmount: number;
+  maxMarketsPerRun: number;
+  /** Open markets ready for analysis, best candidates first, excluding `exclude` ids. */
+  listMarkets(exclude: Set<string>): Promise<Market[]>;
+  /** A market, or with `answerId` that answer of a multiple-choice market as a binary market. */
+  fetchMarket(marketId: string, answerId?: string): Promise<Market>;
+  /** Average price per share of `direction` when spending `amount`, or null if it can't fill. */
+  quoteFillPrice(market: Market, direction: "YES" | "NO", amount: number): Promise<number | null>;
+  /** Place a BET decision. `idempotencyKey` is the same on every retry of one order. Throws on rejection. */
+  placeOrder(decision: TradeDecision, idempotencyKey: string): Promise<OrderFill>;
+  /**
+   * Find a fill for `decision` placed since `since` in the venue's own history,
+   * or null. Tells us whether an attempt that errored or was interrupted landed.
+   */
+  findFill(decision: TradeDecision, idempotencyKey: string, since: Date): Promise<OrderFill | null>;
+  /**
+   * Average price per share for selling the whole position now, or null if the
+   * book can't absorb it. Venues without this are valued at market probability.
+   */
+  quoteSellPrice?(position: Position, market: Market): Promise<number | null>;
+  /** Exit a position at market. Throws if nothing sold. Venues without early exits omit this. */
+  sell?(position: Position, market: Market): Promise<SellFill>;
+  /** Progress of a resting limit order. Venues without limit orders omit this. */
+  getOrder?(order: OpenOrder): Promise<OrderStatus>;
+  /** Cancel a resting order's unfilled remainder. */
+  cancelOrder?(order: OpenOrder): Promise<void>;
+  fetchPositions(): Promise<VenuePosition[]>;
+  checkResolution(marketId: string, answerId?: string): Promise<MarketResolution>;
+  /** Equity to size against: cash plus the value of open positions. */
+  getBankroll(): Promise<number>;
 }
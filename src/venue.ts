@@ -0,0 +1,40 @@
+/**
+ * Venue registry. Each exchange is an adapter implementing the `Venue`
+ * interface from types.ts; pipelines look venues up here by name. Every
+ * exchange also has a paper account trading on its prices (paper-venue.ts).
+ */
+
+import type { Config, LiveVenueName, PaperVenueName, Venue, VenueName } from "./types.js";
+import { createManifoldVenue } from "./manifold-venue.js";
+import { createPolyVenue } from "./poly-venue.js";
+import { createKalshiVenue } from "./kalshi-venue.js";
+import { createPaperVenue, isPaperVenue, liveVenueName, paperVenueName } from "./paper-venue.js";
+
+export const VENUE_NAMES: LiveVenueName[] = ["manifold", "polymarket", "kalshi"];
+export const PAPER_VENUE_NAMES: PaperVenueName[] = VENUE_NAMES.map(paperVenueName);
+
+/** The currency of each venue's amounts, for reports that don't construct adapters. */
+export const VENUE_CURRENCIES: Record<LiveVenueName, string> = { manifold: "M$", polymarket: "$", kalshi: "$" };
+
+export function createVenue(name: VenueName, config: Config): Venue {
+  if (isPaperVenue(name)) return createPaperVenue(createVenue(liveVenueName(name), config), config);
+  switch (name) {
+    case "manifold":
+      return createManifoldVenue(config);
+    case "polymarket":
+      return createPolyVenue(config);
+    case "kalshi":
+      return createKalshiVenue(config);
+  }
+}
+
+/** Every live venue and its paper account; paper accounts share the live adapter. */
+export function createVenues(config: Config): Map<VenueName, Venue> {
+  const venues = new Map<VenueName, Venue>();
+  for (const name of VENUE_NAMES) {
+    const venue = createVenue(name, config);
+    venues.set(name, venue);
+    venues.set(paperVenueName(name), createPaperVenue(venue, config));
+  }
+  return venues;
+}
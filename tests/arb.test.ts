@@ -0,0 +1,83 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import { testConfig, fakeVenue } from "./helpers.js";
+import { questionSimilarity, matchMarkets, quoteArb, arbDecisions } from "../src/arb.js";
+import type { Market, Venue } from "../src/types.js";
+
+// Cross-venue pair matching and gap quoting, against stub venues.
+// Run with: node --import tsx/esm --test tests/arb.test.ts
+
+const DAY = 86_400_000;
+const CLOSE = Date.parse("2026-11-04T00:00:00Z");
+const config = testConfig({ arbMinSimilarity: 0.5, arbMaxCloseGapDays: 7 });
+
+function market(id: string, venue: Market["venue"], question: string, probability: number, closeTime = CLOSE): Market {
+  return {
+    id,
+    venue,
+    question,
+    description: "",
+    url: `https://example.com/${id}`,
+    probability,
+    liquidity: 10_000,
+    volume: 0,
+    closeTime,
+    mechanism: venue === "manifold" ? "cpmm" : "clob",
+    creator: venue,
+    uniqueBettorCount: 0,
+    isResolved: false,
+    tokenIds: venue === "polymarket" ? { YES: `${id}-yes`, NO: `${id}-no` } : undefined,
+  };
+}
+
+// Fills at the quoted side price, no slippage
+function stubVenue(name: Market["venue"], maxBetAmount: number): Venue {
+  return fakeVenue({
+    name,
+    maxBetAmount,
+    async quoteFillPrice(m: Market, direction: "YES" | "NO") {
+      return direction === "YES" ? m.probability : 1 - m.probability;
+    },
+  });
+}
+
+test("question similarity ignores case, punctuation and filler words", () => {
+  assert.equal(questionSimilarity("Will Bitcoin hit $100k in 2026?", "bitcoin hit $100k 2026"), 1);
+  assert.ok(questionSimilarity("Will the Fed cut rates in December?", "Fed cuts rates in December?") >= 0.5);
+  assert.ok(questionSimilarity("Will the Fed cut rates in December?", "Will Bitcoin hit $100k?") < 0.2);
+});
+
+test("markets pair on question and close date, best match first", () => {
+  const manifold = [
+    market("m1", "manifold", "Will Bitcoin hit $100k in 2026?", 0.4),
+    market("m2", "manifold", "Will it snow in London on Christmas?", 0.2),
+  ];
+  const poly = [
+    market("p1", "polymarket", "Bitcoin hit $100k in 2026?", 0.5),
+    market("p2", "polymarket", "Will Bitcoin hit $100k in 2026 or 2027?", 0.5),
+    market("p3", "polymarket", "Will it snow in London on Christmas?", 0.3, CLOSE + 30 * DAY),
+  ];
+  const pairs = matchMarkets(manifold, poly, config);
+  assert.deepEqual(pairs.map((p) => [p.manifold.id, p.polymarket.id]), [["m1", "p1"]]);
+});
+
+test("the gap is what a YES+NO share pair costs below 1, after fees", async () => {
+  const m = market("m1", "manifold", "Q?", 0.4);
+  const p = { ...market("p1", "polymarket", "Q?", 0.5), fees: { takerRate: 0.02, curve: "min" as const, settlementCost: 0 } };
+  // YES on Manifold at 0.40 + NO on Polymarket at 0.50 (+0.01 fee) = 0.91
+  const opp = await quoteArb({ manifold: m, polymarket: p, similarity: 1 }, stubVenue("manifold", 40), stubVenue("polymarket", 25));
+  assert.ok(opp);
+  assert.equal(opp.manifoldDirection, "YES");
+  assert.ok(Math.abs(opp.gap - 0.09) < 1e-9);
+  // Polymarket's $25 at 0.50 caps the pair at 50 shares → M$20 on Manifold
+  assert.equal(opp.manifoldAmount, 20);
+  assert.equal(opp.polymarketAmount, 25);
+
+  const legs = arbDecisions(opp, "g1");
+  assert.equal(legs.manifold.groupId, "g1");
+  assert.equal(legs.polymarket.groupId, "g1");
+  assert.equal(legs.polymarket.direction, "NO");
+  assert.equal(legs.polymarket.polyTokenId, "p1-no");
+  // Order limit price for the NO leg comes from 1 − marketProb
+  assert.ok(Math.abs(1 - legs.polymarket.marketProb - 0.5) < 1e-9);
+});
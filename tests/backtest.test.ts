@@ -0,0 +1,115 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { testConfig } from "./helpers.js";
+import { replay, replayableDecisions, paramGrid, loadOutcomes } from "../src/backtest.js";
+import type { TradeDecision } from "../src/types.js";
+import type { KnownOutcome } from "../src/backtest.js";
+
+// Offline replay of logged decisions under alternative parameters.
+// Run with: node --import tsx/esm --test tests/backtest.test.ts
+
+const close = (a: number, b: number, eps = 1e-9) => assert.ok(Math.abs(a - b) < eps, `${a} ≉ ${b}`);
+
+const config = testConfig({
+  edgeThreshold: 0.1,
+  kellyFraction: 0.25,
+  maxPositionPct: 0.2,
+  maxBetAmount: 1000,
+  polyMaxBetAmount: 1000,
+  polyRedeemGas: 0,
+});
+
+const DAY = 86_400_000;
+const t0 = Date.parse("2026-01-01T00:00:00Z");
+
+function decision(marketId: string, day: number, estimate: number, overrides: Partial<TradeDecision> = {}): TradeDecision {
+  return {
+    traceId: `${marketId}-${day}`,
+    timestamp: new Date(t0 + day * DAY).toISOString(),
+    marketId,
+    question: `Market ${marketId}?`,
+    marketUrl: "",
+    marketProb: 0.5,
+    estimate,
+    confidence: "high",
+    reasoning: "",
+    edge: Math.abs(estimate - 0.5),
+    direction: null,
+    kellyFraction: 0,
+    effectiveProb: 0.5,
+    betAmount: 0,
+    action: "SKIP_LOW_EDGE",
+    venue: "polymarket",
+    liquidity: 100_000,
+    closeTime: new Date(t0 + 60 * DAY).toISOString(),
+    uniqueBettorCount: 0,
+    description: "",
+    ...overrides,
+  };
+}
+
+const decisions = [
+  decision("b", 0, 0.3), // NO at 0.5, resolves YES on day 1
+  decision("a", 2, 0.7), // YES at 0.5, resolves YES on day 5
+  decision("a", 3, 0.8), // still held — not bet again
+  decision("c", 4, 0.56), // 6% edge, resolves NO on day 6
+  decision("d", 9, 0.9), // made after its market resolved
+];
+const outcomes = new Map<string, KnownOutcome>([
+  ["a", { resolution: "YES", resolvedAt: t0 + 5 * DAY }],
+  ["b", { resolution: "YES", resolvedAt: t0 + 1 * DAY }],
+  ["c", { resolution: "NO", resolvedAt: t0 + 6 * DAY }],
+  ["d", { resolution: "YES", resolvedAt: t0 + 8 * DAY }],
+]);
+
+test("replay sizes from the running bankroll and settles in time order", () => {
+  const r = replay(decisions, outcomes, config, { edgeThreshold: 0.1, kellyFraction: 0.25, maxPositionPct: 0.2 }, 1000);
+  // b: 0.25 × 0.4 × 1000 = 100 lost; a: 0.25 × 0.4 × 900 = 90 won at 0.5
+  assert.equal(r.bets, 2);
+  assert.equal(r.wins, 1);
+  assert.equal(r.staked, 190);
+  close(r.pnl, -10);
+  close(r.roi, -10 / 190);
+  close(r.maxDrawdown, 0.1);
+  close(r.finalBankroll, 990);
+  close(r.brier, (0.49 + 0.09) / 2);
+
+  // A lower threshold also takes c, sized while a is still open: 0.25 × 0.12 × 900 = 27, lost
+  const loose = replay(decisions, outcomes, config, { edgeThreshold: 0.05, kellyFraction: 0.25, maxPositionPct: 0.2 }, 1000);
+  assert.equal(loose.bets, 3);
+  close(loose.pnl, -37);
+});
+
+test("only single-market estimates are replayed, oldest first", () => {
+  const kept = replayableDecisions([
+    decision("x", 2, 0.6),
+    decision("y", 1, 0.6),
+    decision("z", 0, 0.6, { action: "REEVAL_HOLD" }),
+    decision("arb", 0, 0.6, { groupId: "g" }),
+    decision("mm", 0, 0.6, { quoteSide: "bid" }),
+    decision("multi", 0, 0.6, { outcome: "Alice" }),
+  ]);
+  assert.deepEqual(kept.map((d) => d.marketId), ["y", "x"]);
+});
+
+test("the grid falls back to configured values", () => {
+  const grid = paramGrid(config, { edgeThreshold: [0.05, 0.1], kellyFraction: [0.1, 0.25] });
+  assert.equal(grid.length, 4);
+  assert.ok(grid.every((p) => p.maxPositionPct === 0.2));
+});
+
+test("outcomes come from the resolved-market corpus", () => {
+  const file = join(mkdtempSync(join(tmpdir(), "backtest-")), "resolved-markets.json");
+  writeFileSync(file, JSON.stringify([
+    { id: "m1", resolution: "YES", resolutionTime: 1000, closeTime: 900 },
+    { id: "m2", resolution: "NO", closeTime: 2000 },
+    { id: "m3", resolution: "CANCEL", closeTime: 3000 },
+  ]));
+  const loaded = loadOutcomes(file);
+  assert.deepEqual(loaded.get("m1"), { resolution: "YES", resolvedAt: 1000 });
+  assert.deepEqual(loaded.get("m2"), { resolution: "NO", resolvedAt: 2000 });
+  assert.equal(loaded.has("m3"), false);
+});
@@ -0,0 +1,81 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import { testConfig } from "./helpers.js";
+import { cpmmProbability, cpmmBuy, cpmmSell, type CpmmState } from "../src/cpmm.js";
+import { makeDecision } from "../src/strategy.js";
+import type { Market } from "../src/types.js";
+
+// Manifold CPMM pool math and the Kelly sizing built on it.
+// Run with: node --import tsx/esm --test tests/cpmm.test.ts
+
+const close = (a: number, b: number, eps = 1e-6) => assert.ok(Math.abs(a - b) < eps, `${a} ≉ ${b}`);
+
+const even: CpmmState = { pool: { YES: 100, NO: 100 }, p: 0.5 };
+// Same 50% price with a skewed weight
+const skewed: CpmmState = { pool: { YES: 200, NO: 50 }, p: 0.8 };
+
+test("probability follows the pool and weight", () => {
+  close(cpmmProbability(even), 0.5);
+  close(cpmmProbability(skewed), 0.5);
+  close(cpmmProbability({ pool: { YES: 50, NO: 150 }, p: 0.5 }), 0.75);
+});
+
+test("buying YES on an even pool", () => {
+  // k = 100; NO pool 200 → YES pool 10000 / 200 = 50 → 100 + 100 - 50 shares
+  const { shares, probAfter, after } = cpmmBuy(even, "YES", 100);
+  close(shares, 150);
+  close(probAfter, 0.8);
+  close(after.pool.YES, 50);
+  close(after.pool.NO, 200);
+});
+
+test("buys keep the invariant and move the price against the buyer", () => {
+  for (const state of [even, skewed]) {
+    const k = state.pool.YES ** state.p * state.pool.NO ** (1 - state.p);
+    for (const outcome of ["YES", "NO"] as const) {
+      const { shares, probAfter, after } = cpmmBuy(state, outcome, 25);
+      close(after.pool.YES ** after.p * after.pool.NO ** (1 - after.p), k, 1e-9 * k);
+      const avgPrice = 25 / shares;
+      if (outcome === "YES") assert.ok(avgPrice > 0.5 && probAfter > 0.5);
+      else assert.ok(avgPrice > 0.5 && probAfter < 0.5);
+    }
+  }
+});
+
+test("selling what was just bought returns the stake", () => {
+  for (const state of [even, skewed]) {
+    for (const outcome of ["YES", "NO"] as const) {
+      const { shares, after } = cpmmBuy(state, outcome, 40);
+      const { proceeds, probAfter } = cpmmSell(after, outcome, shares);
+      close(proceeds, 40, 1e-6);
+      close(probAfter, 0.5, 1e-6);
+    }
+  }
+});
+
+test("Kelly sizing settles on a bet consistent with its exact average fill", () => {
+  const config = testConfig({ kellyFraction: 1, maxPositionPct: 1, maxBetAmount: 1000, edgeThreshold: 0.05 });
+  const market: Market = {
+    id: "m1",
+    venue: "manifold",
+    question: "Will it happen?",
+    description: "",
+    url: "https://manifold.markets/x",
+    probability: 0.5,
+    liquidity: 100,
+    volume: 0,
+    closeTime: Date.now() + 86_400_000,
+    mechanism: "cpmm",
+    creator: "someone",
+    uniqueBettorCount: 5,
+    isResolved: false,
+    cpmm: even,
+  };
+  const d = makeDecision(market, { probability: 0.8, confidence: "high", reasoning: "" }, 1000, config);
+
+  assert.equal(d.action, "BET");
+  close(d.effectiveProb, d.betAmount / cpmmBuy(even, "YES", d.betAmount).shares);
+  // Full Kelly at that fill price asks for (about) the bet we settled on
+  const kelly = (0.8 - d.effectiveProb) / (1 - d.effectiveProb);
+  assert.ok(Math.abs(kelly * 1000 - d.betAmount) <= 2, `${kelly * 1000} vs ${d.betAmount}`);
+});
@@ -0,0 +1,85 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import { testConfig } from "./helpers.js";
+import { feePerShare, netEdge, annualizedReturn, makeDecision } from "../src/strategy.js";
+import type { Market, MarketFees } from "../src/types.js";
+
+// Fee-aware edge and the annualized-return threshold.
+// Run with: node --import tsx/esm --test tests/edge.test.ts
+
+const close = (a: number, b: number, eps = 1e-9) => assert.ok(Math.abs(a - b) < eps, `${a} ≉ ${b}`);
+
+const DAY = 86_400_000;
+const kalshiFees: MarketFees = { takerRate: 0.07, curve: "variance", settlementCost: 0 };
+
+function market(overrides: Partial<Market> = {}): Market {
+  return {
+    id: "m1",
+    venue: "kalshi",
+    question: "Will it happen?",
+    description: "",
+    url: "https://kalshi.com/markets/x",
+    probability: 0.5,
+    liquidity: 10_000,
+    volume: 0,
+    closeTime: Date.now() + 30 * DAY,
+    mechanism: "clob",
+    creator: "kalshi",
+    uniqueBettorCount: 0,
+    isResolved: false,
+    ...overrides,
+  };
+}
+
+const config = testConfig({ maxBetAmount: 100, edgeThreshold: 0.05 });
+const estimate = (probability: number) => ({ probability, confidence: "high" as const, reasoning: "" });
+
+test("fee curves", () => {
+  close(feePerShare(undefined, 0.5), 0);
+  close(feePerShare(kalshiFees, 0.5), 0.0175);
+  close(feePerShare(kalshiFees, 0.9), 0.0063);
+  close(feePerShare({ takerRate: 0.02, curve: "min", settlementCost: 0 }, 0.9), 0.002);
+});
+
+test("net edge pays the taker fee on the side we buy", () => {
+  close(netEdge(0.6, 0.5, "YES", undefined), 0.1);
+  close(netEdge(0.6, 0.5, "YES", kalshiFees), 0.1 - 0.0175);
+  // NO at 0.2 costs 0.2 + 0.07 × 0.2 × 0.8
+  close(netEdge(0.3, 0.8, "NO", kalshiFees), 0.7 - 0.2 - 0.0112);
+  // $0.10 of gas on a $10 bet at 0.5 (20 shares), paid if we win
+  const gas: MarketFees = { takerRate: 0, curve: "min", settlementCost: 0.1 };
+  close(netEdge(0.6, 0.5, "YES", gas, 10), 0.1 - (0.6 * 0.1) / 20);
+});
+
+test("annualized return scales by lock-up", () => {
+  const now = Date.now();
+  close(annualizedReturn(0.05, 0.5, now + 365 * DAY, now), 0.1);
+  close(annualizedReturn(0.05, 0.5, now + 36.5 * DAY, now), 1);
+  // Lock-up is floored at an hour
+  close(annualizedReturn(0.05, 0.5, now - DAY, now), 0.1 * 365 * 24);
+});
+
+test("fees can turn a raw edge into a skip", () => {
+  const d = makeDecision(market({ fees: kalshiFees }), estimate(0.56), 1000, config);
+  close(d.rawEdge!, 0.06);
+  close(d.edge, 0.06 - 0.0175);
+  assert.equal(d.action, "SKIP_LOW_EDGE");
+  assert.equal(makeDecision(market(), estimate(0.56), 1000, config).action, "BET");
+});
+
+test("annualized mode prefers the same edge on a sooner close", () => {
+  const annualized = testConfig({ ...config, edgeThreshold: 1, edgeMode: "annualized" });
+  const soon = makeDecision(market({ closeTime: Date.now() + 7 * DAY }), estimate(0.56), 1000, annualized);
+  const later = makeDecision(market({ closeTime: Date.now() + 180 * DAY }), estimate(0.56), 1000, annualized);
+  assert.equal(soon.action, "BET");
+  assert.equal(later.action, "SKIP_LOW_EDGE");
+  assert.ok(soon.annualizedReturn! > later.annualizedReturn!);
+});
+
+test("a per-confidence threshold replaces EDGE_THRESHOLD for that confidence", () => {
+  const perConfidence = testConfig({ ...config, edgeThresholdByConfidence: { medium: 0.08 } });
+  assert.equal(makeDecision(market(), estimate(0.56), 1000, perConfidence).action, "BET");
+  const medium = { probability: 0.56, confidence: "medium" as const, reasoning: "" };
+  assert.equal(makeDecision(market(), medium, 1000, perConfidence).action, "SKIP_LOW_EDGE");
+  assert.equal(makeDecision(market(), { ...medium, probability: 0.6 }, 1000, perConfidence).action, "BET");
+});
@@ -0,0 +1,126 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import { testConfig, fakeVenue } from "./helpers.js";
+import { executeBets, recoverPendingOrders, orderKey } from "../src/executor.js";
+import { loadTrades, loadPendingOrders } from "../src/data.js";
+import type { OrderFill, TradeDecision } from "../src/types.js";
+
+// Order placement against a scripted venue and an in-memory ledger.
+// Run with: node --import tsx/esm --test tests/executor.test.ts
+
+const config = testConfig();
+
+function decision(traceId: string): TradeDecision {
+  return {
+    traceId,
+    timestamp: "2026-01-01T00:00:00.000Z",
+    marketId: `m-${traceId}`,
+    question: "Will it happen?",
+    marketUrl: "https://example.com",
+    marketProb: 0.4,
+    estimate: 0.6,
+    confidence: "medium",
+    reasoning: "",
+    edge: 0.2,
+    direction: "YES",
+    kellyFraction: 0.1,
+    effectiveProb: 0.41,
+    betAmount: 10,
+    action: "BET",
+    venue: "manifold",
+    liquidity: 1000,
+    closeTime: "2026-02-01T00:00:00.000Z",
+    uniqueBettorCount: 10,
+    description: "",
+  };
+}
+
+/** A venue whose placeOrder/findFill follow a script, counting calls. */
+function scriptedVenue(script: {
+  place: (() => Promise<OrderFill>)[];
+  find?: () => Promise<OrderFill | null>;
+}) {
+  const calls = { place: 0, find: 0, keys: [] as string[] };
+  const venue = fakeVenue({
+    async placeOrder(_d: TradeDecision, key: string) {
+      calls.keys.push(key);
+      return script.place[calls.place++]!();
+    },
+    async findFill() {
+      calls.find++;
+      return script.find ? script.find() : null;
+    },
+  });
+  return { venue, calls };
+}
+
+const timeout = () => Promise.reject(new Error("Manifold API POST /bet: network error: timeout"));
+
+test("a timed-out order that landed is not placed again", async () => {
+  const { venue, calls } = scriptedVenue({
+    place: [timeout],
+    find: async () => ({ betId: "bet-1", shares: 24 }),
+  });
+  const [execution] = await executeBets([decision("landed")], venue, config);
+
+  assert.equal(calls.place, 1);
+  assert.equal(execution!.result?.betId, "bet-1");
+  assert.equal(execution!.shares, 24);
+  assert.deepEqual(loadPendingOrders(), []);
+});
+
+test("retries reuse the same idempotency key", async () => {
+  const { venue, calls } = scriptedVenue({
+    place: [timeout, async () => ({ betId: "bet-2", shares: 24 })],
+  });
+  const [execution] = await executeBets([decision("retry")], venue, config);
+
+  assert.equal(calls.place, 2);
+  assert.deepEqual(calls.keys, [orderKey("retry"), orderKey("retry")]);
+  assert.equal(execution!.result?.betId, "bet-2");
+});
+
+test("4xx rejections are recorded without retrying", async () => {
+  const { venue, calls } = scriptedVenue({
+    place: [() => Promise.reject(new Error("Manifold API POST /bet: 403 insufficient balance"))],
+  });
+  const [execution] = await executeBets([decision("rejected")], venue, config);
+
+  assert.equal(calls.place, 1);
+  assert.equal(calls.find, 0);
+  assert.match(execution!.result?.error ?? "", /403/);
+});
+
+test("unconfirmed orders stay journaled until recovery finds them", async () => {
+  const down = scriptedVenue({
+    place: [timeout],
+    find: () => Promise.reject(new Error("history unavailable")),
+  });
+  const executions = await executeBets([decision("crash")], down.venue, config);
+  assert.deepEqual(executions, []);
+  assert.deepEqual(loadPendingOrders().map((p) => p.key), [orderKey("crash")]);
+  assert.ok(!loadTrades().some((t) => t.traceId === "crash"));
+
+  const up = scriptedVenue({ place: [], find: async () => ({ betId: "bet-3", shares: 24 }) });
+  await recoverPendingOrders(new Map([["manifold", up.venue]]));
+  assert.deepEqual(loadPendingOrders(), []);
+  const recovered = loadTrades().find((t) => t.traceId === "crash");
+  assert.equal(recovered?.result?.betId, "bet-3");
+  assert.equal(up.calls.place, 0);
+});
+
+test("zero-fill orders are recorded as non-positions at true cost", async () => {
+  const { venue } = scriptedVenue({
+    place: [
+      async () => ({ orderId: "0xkilled", shares: 0 }),
+      async () => ({ orderId: "0xfilled", shares: 22.5, cost: 9.9 }),
+    ],
+  });
+  const [killed, filled] = await executeBets([decision("killed"), decision("filled")], venue, config);
+
+  assert.equal(killed!.result?.error, "Order not filled");
+  assert.equal(killed!.shares, 0);
+  assert.equal(filled!.result?.error, undefined);
+  assert.equal(filled!.shares, 22.5);
+  assert.equal(filled!.amount, 9.9);
+});
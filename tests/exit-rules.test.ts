@@ -0,0 +1,106 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import { readFileSync } from "node:fs";
+import {
+  evaluateExitRules,
+  parseExitRules,
+  DEFAULT_EXIT_RULES,
+  type ExitContext,
+  type ExitRule,
+} from "../src/exit-rules.js";
+import type { Market, Position } from "../src/types.js";
+
+// Exit rule evaluation and config parsing.
+// Run with: node --import tsx/esm --test tests/exit-rules.test.ts
+
+const NOW = Date.parse("2026-03-01T12:00:00Z");
+
+const position: Position = {
+  traceId: "t1",
+  venue: "polymarket",
+  marketId: "m1",
+  question: "Will the Lakers win?",
+  direction: "YES",
+  amount: 10,
+  shares: 25,
+  entryProb: 0.4,
+  estimate: 0.6,
+  edge: 0.2,
+};
+
+const market = { closeTime: NOW + 48 * 3_600_000 } as Market;
+
+function ctx(overrides: Partial<ExitContext> = {}): ExitContext {
+  return {
+    position,
+    market,
+    category: "Sports",
+    currentProb: 0.45,
+    unrealizedPnl: 1.25,
+    payoutRatio: 0.08,
+    now: NOW,
+    ...overrides,
+  };
+}
+
+test("default rules reproduce the original thresholds", () => {
+  assert.deepEqual(evaluateExitRules(DEFAULT_EXIT_RULES, ctx()), []);
+  const names = (c: Partial<ExitContext>) => evaluateExitRules(DEFAULT_EXIT_RULES, ctx(c)).map((f) => f.name);
+  assert.deepEqual(names({ payoutRatio: 0.75 }), ["TAKE_PROFIT"]);
+  assert.deepEqual(names({ unrealizedPnl: -6 }), ["STOP_LOSS"]);
+});
+
+test("every firing rule is reported, in priority order", () => {
+  // 3% YES: near-certain loss and stop-loss both fire; neither overwrites the other
+  const fired = evaluateExitRules(DEFAULT_EXIT_RULES, ctx({ currentProb: 0.03, unrealizedPnl: -9.25 }));
+  assert.deepEqual(fired.map((f) => f.name), ["NEAR_CERTAIN_LOSS", "STOP_LOSS"]);
+  assert.match(fired[0]!.reason, /^NEAR_CERTAIN_LOSS: market at 3\.0%, we're YES$/);
+});
+
+test("trailing stop fires after giving back part of the snapshot peak", () => {
+  const rules: ExitRule[] = [
+    { name: "TRAIL", type: "trailing_stop", priority: 1, activatePct: 0.3, giveBackPct: 0.5 },
+  ];
+  // Peak +5 (50% of wager) → now +2: gave back 60%
+  assert.equal(evaluateExitRules(rules, ctx({ peakUnrealizedPnl: 5, unrealizedPnl: 2 })).length, 1);
+  // Peak never reached activation
+  assert.equal(evaluateExitRules(rules, ctx({ peakUnrealizedPnl: 2, unrealizedPnl: 0.5 })).length, 0);
+});
+
+test("time-to-close and edge-exhausted rules", () => {
+  const rules: ExitRule[] = [
+    { name: "CLOSE", type: "time_to_close", priority: 1, hours: 24 },
+    { name: "EDGE", type: "edge_exhausted", priority: 2, minEdge: 0.01 },
+  ];
+  assert.deepEqual(evaluateExitRules(rules, ctx()), []);
+  const closing = { closeTime: NOW + 3 * 3_600_000 } as Market;
+  assert.deepEqual(
+    evaluateExitRules(rules, ctx({ market: closing, currentProb: 0.595 })).map((f) => f.name),
+    ["CLOSE", "EDGE"],
+  );
+});
+
+test("rules only apply within their venue and category scope", () => {
+  const rules: ExitRule[] = [
+    { name: "POLY_SPORTS", type: "take_profit", priority: 1, payoutRatio: 0, venues: ["polymarket"], categories: ["Sports"] },
+    { name: "MANIFOLD", type: "take_profit", priority: 2, payoutRatio: 0, venues: ["manifold"] },
+  ];
+  assert.deepEqual(evaluateExitRules(rules, ctx()).map((f) => f.name), ["POLY_SPORTS"]);
+  assert.deepEqual(evaluateExitRules(rules, ctx({ category: "Crypto & Web3" })), []);
+});
+
+test("parseExitRules accepts the example file and rejects bad rules", () => {
+  const example = JSON.parse(readFileSync(new URL("../exit-rules.example.json", import.meta.url), "utf-8"));
+  assert.equal(parseExitRules(example, "example").length, example.length);
+
+  assert.throws(() => parseExitRules({}, "f"), /JSON array/);
+  assert.throws(() => parseExitRules([{ name: "X", type: "moon", priority: 1 }], "f"), /unknown type moon/);
+  assert.throws(() => parseExitRules([{ name: "X", type: "stop_loss", priority: 1 }], "f"), /needs numeric lossPct/);
+  assert.throws(
+    () => parseExitRules([
+      { name: "X", type: "stop_loss", priority: 1, lossPct: 0.5 },
+      { name: "X", type: "stop_loss", priority: 2, lossPct: 0.6 },
+    ], "f"),
+    /duplicate name X/,
+  );
+});
@@ -0,0 +1,107 @@
+/**
+ * Shared test fixtures. Import this before anything from src/: it points the
+ * ledger at an in-memory database, and src/data.ts reads POLYEDGE_DB on load.
+ * It imports only types from src/ so nothing is evaluated ahead of that.
+ */
+
+import type { Config, Venue } from "../src/types.js";
+
+process.env.POLYEDGE_DB = ":memory:";
+
+/**
+ * A complete Config at the .env.example defaults, trading live with no risk
+ * limits, no exit rules and a kill-switch file that never exists.
+ */
+export function testConfig(overrides: Partial<Config> = {}): Config {
+  return {
+    manifoldApiKey: "",
+    anthropicApiKey: "test",
+    dryRun: false,
+    edgeThreshold: 0.1,
+    edgeMode: "raw",
+    edgeThresholdByConfidence: {},
+    kellyFraction: 0.25,
+    maxPositionPct: 0.2,
+    maxBetAmount: 50,
+    minLiquidity: 100,
+    maxMarketsPerRun: 20,
+    portfolioMaxPct: 0.5,
+    portfolioCorrelation: true,
+    oracleMode: "off",
+    oracleWeight: 0.7,
+    multiOutcome: false,
+    manifoldOrderType: "market",
+    manifoldLimitOffset: 0.02,
+    manifoldLimitExpiryHours: 24,
+    claudeModel: "claude-test",
+    polySignatureType: 0,
+    polyMinVolume24hr: 1000,
+    polyMinLiquidity: 5000,
+    polyMaxMarketsPerRun: 20,
+    polyMaxBetAmount: 25,
+    polyBankrollReserve: 5,
+    polyRedeemGas: 0.01,
+    polyOrderType: "fok",
+    polyLimitFraction: 0.25,
+    polyGtdExpiryHours: 24,
+    polyOrderMaxAgeHours: 12,
+    kalshiSeries: ["KXBTCD", "KXETHD", "KXFED"],
+    kalshiMinVolume24hr: 500,
+    kalshiMaxMarketsPerRun: 20,
+    kalshiMaxBetAmount: 25,
+    kalshiTakerFee: 0.07,
+    exitRules: [],
+    sellReevaluate: false,
+    risk: {
+      tradingEnabled: true,
+      killSwitchFile: "/nonexistent/KILL_SWITCH",
+      maxDailyLoss: {},
+      maxOpenPositions: 0,
+      maxVenueExposure: {},
+      maxMarketExposure: {},
+    },
+    arbMinSimilarity: 0.5,
+    arbMaxCloseGapDays: 7,
+    arbMinGap: 0.03,
+    arbMaxMarkets: 50,
+    mmHalfSpread: 0.02,
+    mmMaxSkew: 0.02,
+    mmQuoteSize: 10,
+    mmMaxInventory: 100,
+    mmPullHours: 24,
+    mmPullMove: 0.05,
+    mmIntervalSeconds: 60,
+    mmMaxMarkets: 5,
+    paperBankroll: 1000,
+    paperFills: "live",
+    recalibration: "off",
+    recalibrationBy: [],
+    recalibrationMinSamples: 50,
+    ...overrides,
+  };
+}
+
+/**
+ * A Manifold-named Venue whose methods fail unless `overrides` supplies them,
+ * so a test only stubs what the code under test should call.
+ */
+export function fakeVenue(overrides: Partial<Venue> = {}): Venue {
+  const unexpected = (method: string) => async (): Promise<never> => {
+    throw new Error(`fakeVenue: unexpected ${method}()`);
+  };
+  return {
+    name: "manifold",
+    currency: "M$",
+    maxBetAmount: 100,
+    maxMarketsPerRun: 5,
+    listMarkets: unexpected("listMarkets"),
+    fetchMarket: unexpected("fetchMarket"),
+    quoteFillPrice: unexpected("quoteFillPrice"),
+    placeOrder: unexpected("placeOrder"),
+    findFill: unexpected("findFill"),
+    fetchPositions: unexpected("fetchPositions"),
+    checkResolution: unexpected("checkResolution"),
+    getBankroll: unexpected("getBankroll"),
+    ...overrides,
+  };
+}
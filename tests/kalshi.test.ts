@@ -0,0 +1,208 @@
+import { strict as assert } from "node:assert";
+import { test, before, after } from "node:test";
+import { createServer } from "node:http";
+import type { Server, IncomingMessage } from "node:http";
+import type { AddressInfo } from "node:net";
+import { generateKeyPairSync, verify, constants } from "node:crypto";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+// Exercises the Kalshi client against a local stand-in for trade-api/v2.
+// Run with: node --import tsx/esm --test tests/kalshi.test.ts
+
+import { testConfig } from "./helpers.js";
+import {
+  fetchKalshiMarkets,
+  fetchKalshiMarket,
+  fetchKalshiOrderBook,
+  placeKalshiOrder,
+  findKalshiOrder,
+} from "../src/kalshi.js";
+import type { KalshiClient } from "../src/kalshi.js";
+import { createKalshiVenue } from "../src/kalshi-venue.js";
+import { effectiveBuyPrice } from "../src/polymarket.js";
+import type { TradeDecision } from "../src/types.js";
+
+const { publicKey, privateKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+
+function apiMarket(ticker: string, overrides: Record<string, unknown> = {}) {
+  return {
+    ticker,
+    event_ticker: "KXBTCD-26OCT20",
+    market_type: "binary",
+    title: "Bitcoin price on Oct 20?",
+    yes_sub_title: "$100,000 or above",
+    rules_primary: "Resolves YES if BTC >= $100,000.",
+    status: "active",
+    close_time: "2026-10-20T21:00:00Z",
+    yes_bid: 40,
+    yes_ask: 44,
+    last_price: 42,
+    volume_24h: 5000,
+    liquidity: 1_000_000,
+    open_interest: 100,
+    result: "",
+    ...overrides,
+  };
+}
+
+// Bids as [priceCents, count]; a YES bid at p is a NO offer at 100 - p
+const book: Record<"yes" | "no", [number, number][]> = { yes: [[40, 100]], no: [[56, 10], [50, 1000]] };
+
+/** What `count` contracts of `side` cost in cents, sweeping the book, plus the 7% taker fee rounded up. */
+function fillCents(side: "yes" | "no", count: number): { fill: number; fees: number } {
+  const asks = book[side === "yes" ? "no" : "yes"].map(([p, n]) => [100 - p, n] as const).sort((a, b) => a[0] - b[0]);
+  let fill = 0;
+  let remaining = count;
+  for (const [price, size] of asks) {
+    const take = Math.min(remaining, size);
+    fill += take * price;
+    remaining -= take;
+  }
+  const p = fill / count / 100;
+  return { fill, fees: Math.ceil(7 * count * p * (1 - p) - 1e-9) };
+}
+
+const orders: { body: Record<string, unknown>; signatureOk: boolean }[] = [];
+let server: Server;
+let client: KalshiClient;
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve) => {
+    let data = "";
+    req.on("data", (chunk) => (data += chunk));
+    req.on("end", () => resolve(data));
+  });
+}
+
+before(async () => {
+  server = createServer(async (req, res) => {
+    const url = new URL(req.url!, "http://localhost");
+    const json = (body: unknown) => {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+
+    if (url.pathname === "/trade-api/v2/markets") {
+      // Two pages; second page has a scalar market that must be dropped
+      if (!url.searchParams.get("cursor")) {
+        return json({ markets: [apiMarket("BTC-100K"), apiMarket("BTC-THIN", { volume_24h: 10 })], cursor: "p2" });
+      }
+      return json({ markets: [apiMarket("BTC-SCALAR", { market_type: "scalar" }), apiMarket("BTC-105K")], cursor: "" });
+    }
+    if (url.pathname === "/trade-api/v2/markets/BTC-100K") {
+      return json({ market: apiMarket("BTC-100K", { status: "settled", result: "yes" }) });
+    }
+    if (url.pathname === "/trade-api/v2/markets/BTC-100K/orderbook") {
+      return json({ orderbook: book });
+    }
+    if (url.pathname === "/trade-api/v2/portfolio/orders" && req.method === "POST") {
+      const timestamp = String(req.headers["kalshi-access-timestamp"]);
+      const signature = Buffer.from(String(req.headers["kalshi-access-signature"]), "base64");
+      const signatureOk = verify(
+        "sha256",
+        Buffer.from(timestamp + "POST" + url.pathname),
+        { key: publicKey, padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: constants.RSA_PSS_SALTLEN_DIGEST },
+        signature,
+      );
+      const body = JSON.parse(await readBody(req));
+      orders.push({ body, signatureOk });
+      const { fill, fees } = fillCents(body.side, body.count);
+      return json({
+        order: { order_id: "ord-1", status: "executed", fill_count: body.count, taker_fill_cost: fill, taker_fees: fees },
+      });
+    }
+    if (url.pathname === "/trade-api/v2/portfolio/orders" && req.method === "GET") {
+      if (url.searchParams.get("ticker") !== "BTC-100K" || !url.searchParams.get("min_ts")) return json({ orders: [] });
+      return json({
+        orders: [
+          { order_id: "ord-0", client_order_id: "other", status: "canceled", fill_count: 0 },
+          { order_id: "ord-1", client_order_id: "trace-123-buy", status: "executed", fill_count: 20, taker_fill_cost: 1100, taker_fees: 28 },
+        ],
+      });
+    }
+    res.writeHead(404);
+    res.end("not found");
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  client = {
+    baseUrl: `http://127.0.0.1:${port}/trade-api/v2`,
+    keyId: "test-key",
+    privateKeyPem: privateKey.export({ type: "pkcs8", format: "pem" }).toString(),
+  };
+});
+
+after(() => {
+  server.close();
+});
+
+test("fetchKalshiMarkets follows cursors and filters binary markets by volume", async () => {
+  const markets = await fetchKalshiMarkets(client, { minVolume24hr: 100 });
+  assert.deepEqual(markets.map((m) => m.ticker), ["BTC-100K", "BTC-105K"]);
+  assert.equal(markets[0]!.question, "Bitcoin price on Oct 20? — $100,000 or above");
+  assert.equal(markets[0]!.yesAsk, 0.44);
+});
+
+test("fetchKalshiMarket reports settlement result", async () => {
+  const market = await fetchKalshiMarket(client, "BTC-100K");
+  assert.equal(market.result, "YES");
+});
+
+test("orderbook bids convert to opposite-side asks for effectiveBuyPrice", async () => {
+  const book = await fetchKalshiOrderBook(client, "BTC-100K");
+  // NO bid at 56¢ is a YES offer at 44¢
+  assert.equal(book.yesAsks[0]!.price, "0.44");
+  // $4.40 fills entirely at the first 44¢ level
+  assert.ok(Math.abs(effectiveBuyPrice(book.yesAsks, 4.4)! - 0.44) < 1e-9);
+  // $10 sweeps 10 @ 0.44 then 11.2 @ 0.50 → 21.2 contracts
+  const avg = effectiveBuyPrice(book.yesAsks, 10)!;
+  assert.ok(Math.abs(avg - 10 / 21.2) < 1e-9);
+});
+
+test("placeKalshiOrder sends a signed FOK buy with client order id", async () => {
+  const result = await placeKalshiOrder(client, {
+    ticker: "BTC-100K",
+    side: "NO",
+    count: 20,
+    limitPrice: 0.601,
+    clientOrderId: "trace-123",
+  });
+  // 20 × 60¢ plus a 34¢ fee
+  assert.deepEqual(result, { orderId: "ord-1", status: "executed", filled: 20, cost: 12.34 });
+
+  const sent = orders.at(-1)!;
+  assert.equal(sent.signatureOk, true);
+  assert.equal(sent.body.side, "no");
+  assert.equal(sent.body.no_price, 61);
+  assert.equal(sent.body.time_in_force, "fill_or_kill");
+  assert.equal(sent.body.client_order_id, "trace-123");
+});
+
+test("findKalshiOrder matches on client order id", async () => {
+  const since = new Date("2026-10-19T00:00:00Z");
+  const found = await findKalshiOrder(client, { ticker: "BTC-100K", clientOrderId: "trace-123-buy", since });
+  assert.deepEqual(found, { orderId: "ord-1", status: "executed", filled: 20, cost: 11.28 });
+  assert.equal(await findKalshiOrder(client, { ticker: "BTC-100K", clientOrderId: "missing", since }), null);
+});
+
+test("Kalshi venue fills report what was spent, fees included", async () => {
+  const keyPath = join(mkdtempSync(join(tmpdir(), "kalshi-")), "key.pem");
+  writeFileSync(keyPath, client.privateKeyPem!);
+  const venue = createKalshiVenue(testConfig({
+    kalshiApiBase: client.baseUrl,
+    kalshiApiKeyId: client.keyId,
+    kalshiPrivateKeyPath: keyPath,
+  }));
+  const decision = { marketId: "BTC-100K", direction: "YES", betAmount: 10 } as TradeDecision;
+
+  // $10 would buy 21 contracts sweeping the 44¢ and 50¢ levels, but only 20 leave room for the fee
+  const fill = await venue.placeOrder(decision, "trace-456-buy");
+  assert.equal(fill.shares, 20);
+  assert.equal(fill.cost, 9.75);
+  assert.ok(fill.cost <= decision.betAmount);
+
+  const found = await venue.findFill(decision, "trace-123-buy", new Date("2026-10-19T00:00:00Z"));
+  assert.deepEqual(found, { orderId: "ord-1", shares: 20, cost: 11.28 });
+});
@@ -0,0 +1,106 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import "./helpers.js";
+import {
+  insertTrade,
+  insertResolution,
+  insertSnapshot,
+  loadOpenTrades,
+  loadHeldMarketIds,
+  latestSnapshot,
+  transaction,
+} from "../src/data.js";
+import type { TradeExecution, Resolution, PositionSnapshot } from "../src/types.js";
+
+// Ledger queries against an in-memory SQLite database.
+// Run with: node --import tsx/esm --test tests/ledger.test.ts
+
+function trade(traceId: string, overrides: Partial<TradeExecution> = {}): TradeExecution {
+  return {
+    traceId,
+    timestamp: "2026-01-01T00:00:00.000Z",
+    marketId: `m-${traceId}`,
+    question: "Will it happen?",
+    direction: "YES",
+    amount: 10,
+    marketProb: 0.4,
+    estimate: 0.6,
+    edge: 0.2,
+    dryRun: false,
+    venue: "manifold",
+    result: { betId: `bet-${traceId}` },
+    ...overrides,
+  };
+}
+
+function resolution(traceId: string): Resolution {
+  return {
+    traceId,
+    resolvedAt: "2026-01-02T00:00:00.000Z",
+    marketId: `m-${traceId}`,
+    question: "Will it happen?",
+    resolution: "YES",
+    direction: "YES",
+    estimate: 0.6,
+    marketProbAtBet: 0.4,
+    edge: 0.2,
+    confidence: "medium",
+    amount: 10,
+    won: true,
+    pnl: 15,
+    brierScore: 0.16,
+    venue: "manifold",
+  };
+}
+
+test("loadOpenTrades excludes resolved, sold, dry-run and errored trades", () => {
+  insertTrade(trade("open"));
+  insertTrade(trade("resolved"));
+  insertResolution(resolution("resolved"));
+  insertTrade(trade("sold"));
+  insertTrade(trade("sold", { action: "SELL", timestamp: "2026-01-03T00:00:00.000Z", result: undefined }));
+  insertTrade(trade("dry", { dryRun: true, result: { betId: "dry-run" } }));
+  insertTrade(trade("failed", { result: { error: "402 insufficient balance" } }));
+  insertTrade(trade("poly", { venue: "polymarket", result: { orderId: "0xabc" } }));
+
+  assert.deepEqual(loadOpenTrades().map((t) => t.traceId), ["open", "poly"]);
+  assert.deepEqual(loadOpenTrades("polymarket").map((t) => t.traceId), ["poly"]);
+});
+
+test("loadHeldMarketIds is scoped to one venue and ignores errored trades", () => {
+  const held = loadHeldMarketIds("manifold");
+  assert.ok(held.has("m-open"));
+  assert.ok(held.has("m-sold"));
+  assert.ok(!held.has("m-failed"));
+  assert.ok(!held.has("m-resolved"));
+  assert.ok(!held.has("m-poly"));
+});
+
+test("latestSnapshot returns the most recent snapshot for a position", () => {
+  const snap = (timestamp: string, currentProb: number): PositionSnapshot => ({
+    timestamp,
+    traceId: "open",
+    marketId: "m-open",
+    question: "Will it happen?",
+    direction: "YES",
+    amount: 10,
+    estimate: 0.6,
+    entryProb: 0.4,
+    currentProb,
+    unrealizedPnl: 0,
+  });
+  insertSnapshot(snap("2026-01-01T02:00:00.000Z", 0.5));
+  insertSnapshot(snap("2026-01-01T01:00:00.000Z", 0.45));
+  assert.equal(latestSnapshot("open")?.currentProb, 0.5);
+  assert.equal(latestSnapshot("missing"), undefined);
+});
+
+test("transaction rolls back every write when one fails", () => {
+  assert.throws(() =>
+    transaction(() => {
+      insertTrade(trade("tx-1"));
+      insertResolution(resolution("resolved")); // duplicate traceId violates UNIQUE
+    })
+  );
+  assert.ok(!loadOpenTrades().some((t) => t.traceId === "tx-1"));
+});
@@ -0,0 +1,199 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import { testConfig, fakeVenue } from "./helpers.js";
+import { makeDecision } from "../src/strategy.js";
+import { executeBets } from "../src/executor.js";
+import { syncOpenOrders, refreshOpenOrders } from "../src/orders.js";
+import { loadTrades, loadOpenOrders, loadHeldMarketIds } from "../src/data.js";
+import { betPositions } from "../src/manifold-venue.js";
+import type { ManifoldBet, Market, OrderStatus, TradeDecision } from "../src/types.js";
+
+// Limit pricing, and resting orders through the executor, order sync and refresher.
+// Run with: node --import tsx/esm --test tests/limit-orders.test.ts
+
+const config = testConfig({
+  maxBetAmount: 100,
+  edgeThreshold: 0.05,
+  manifoldOrderType: "limit",
+  manifoldLimitOffset: 0.02,
+});
+
+const market: Market = {
+  id: "m1",
+  venue: "manifold",
+  question: "Will it happen?",
+  description: "",
+  url: "https://manifold.markets/x",
+  probability: 0.4,
+  liquidity: 100,
+  volume: 0,
+  closeTime: Date.now() + 30 * 86_400_000,
+  mechanism: "cpmm",
+  creator: "someone",
+  uniqueBettorCount: 5,
+  isResolved: false,
+  cpmm: { pool: { YES: 100, NO: 100 }, p: 0.4 },
+};
+
+test("limit orders are sized at the limit, just inside the estimate", () => {
+  const estimate = { probability: 0.6, confidence: "high" as const, reasoning: "" };
+  const d = makeDecision(market, estimate, 1000, config);
+  assert.equal(d.limitProb, 0.58);
+  assert.equal(d.effectiveProb, 0.58);
+  // Full Kelly for YES at 0.58 with p = 0.6 is 0.02 / 0.42
+  assert.equal(d.betAmount, Math.round((0.02 / 0.42) * 0.25 * 1000));
+
+  const no = makeDecision(market, { ...estimate, probability: 0.2 }, 1000, config);
+  assert.equal(no.limitProb, 0.22);
+  assert.equal(makeDecision(market, estimate, 1000, { ...config, manifoldOrderType: "market" }).limitProb, undefined);
+  // Paper accounts place the live venue's order type
+  assert.equal(makeDecision({ ...market, venue: "paper-manifold" }, estimate, 1000, config).limitProb, 0.58);
+});
+
+/** A venue whose order fills as `statuses` says, one status per check. */
+function restingVenue(statuses: OrderStatus[]) {
+  const calls = { cancel: 0 };
+  const venue = fakeVenue({
+    async placeOrder() {
+      return { betId: "order-1", shares: 0, cost: 0, resting: true };
+    },
+    async findFill() {
+      return null;
+    },
+    async getOrder() {
+      return statuses.shift()!;
+    },
+    async cancelOrder() {
+      calls.cancel++;
+    },
+  });
+  return { venue, calls };
+}
+
+function decision(traceId: string): TradeDecision {
+  return {
+    ...makeDecision(market, { probability: 0.6, confidence: "high", reasoning: "" }, 1000, config),
+    traceId,
+    marketId: `m-${traceId}`,
+  };
+}
+
+test("a resting order books partial fills as one trade and cancels the remainder", async () => {
+  const { venue, calls } = restingVenue([
+    { shares: 10, cost: 5, open: true },
+    { shares: 20, cost: 10.5, open: true },
+    { shares: 24, cost: 12.8, open: false },
+  ]);
+  const executions = await executeBets([decision("rest")], venue, config);
+  assert.equal(executions.length, 0);
+  assert.equal(loadOpenOrders().length, 1);
+  assert.ok(loadHeldMarketIds("manifold").has("m-rest"));
+  assert.equal(loadTrades().length, 0);
+
+  const venues = new Map([["manifold" as const, venue]]);
+  await syncOpenOrders(venues, { cancelRemainders: false });
+  let [trade] = loadTrades();
+  assert.equal(trade!.shares, 10);
+  assert.equal(trade!.amount, 5);
+  assert.equal(trade!.limitProb, 0.58);
+
+  // Next scan: one more fill, then the remainder is cancelled and the last fills booked
+  await syncOpenOrders(venues, { cancelRemainders: true });
+  assert.equal(calls.cancel, 1);
+  const trades = loadTrades();
+  assert.equal(trades.length, 1);
+  [trade] = trades;
+  assert.equal(trade!.shares, 24);
+  assert.equal(trade!.amount, 12.8);
+  assert.equal(trade!.result?.betId, "order-1");
+  assert.equal(loadOpenOrders().length, 0);
+});
+
+const polyMarket: Market = {
+  ...market,
+  id: "p1",
+  venue: "polymarket",
+  mechanism: "clob",
+  probability: 0.42, // ask
+  midpoint: 0.4,
+  cpmm: undefined,
+  tokenIds: { YES: "p1-yes", NO: "p1-no" },
+};
+const polyConfig = testConfig({ ...config, polyOrderType: "gtc", polyLimitFraction: 0.25, polyOrderMaxAgeHours: 12 });
+
+test("venue positions keep what a cancelled limit order filled", () => {
+  const bet = (id: string, overrides: Partial<ManifoldBet>): ManifoldBet => ({
+    id,
+    contractId: "m1",
+    outcome: "YES",
+    amount: 10,
+    shares: 20,
+    probBefore: 0.4,
+    probAfter: 0.45,
+    createdTime: 0,
+    ...overrides,
+  });
+  const positions = betPositions([
+    bet("market", {}),
+    // Limit order for 50 that filled 12 for 25 shares before its remainder was cancelled
+    bet("limit", { amount: 12, shares: 25, limitProb: 0.5, orderAmount: 50, isCancelled: true }),
+    // Cancelled before anything filled
+    bet("empty", { amount: 0, shares: 0, limitProb: 0.5, orderAmount: 50, isCancelled: true }),
+    // A cancelled market bet never counted
+    bet("void", { isCancelled: true }),
+  ]);
+  assert.deepEqual(positions, [{ marketId: "m1", answerId: undefined, outcome: "YES", shares: 45, avgPrice: 22 / 45 }]);
+});
+
+test("Polymarket limits sit between mid and our estimate", () => {
+  const d = makeDecision(polyMarket, { probability: 0.6, confidence: "high", reasoning: "" }, 1000, polyConfig);
+  // 0.40 + 0.25 × (0.60 − 0.40)
+  assert.equal(d.limitProb, 0.45);
+  assert.equal(makeDecision(polyMarket, { probability: 0.6, confidence: "high", reasoning: "" }, 1000, { ...polyConfig, polyOrderType: "fok" }).limitProb, undefined);
+});
+
+test("the refresher reprices a resting order whose target moved", async () => {
+  let mid = 0.4;
+  const placed: TradeDecision[] = [];
+  const calls = { cancel: 0 };
+  const venue = fakeVenue({
+    name: "polymarket",
+    currency: "$",
+    async placeOrder(d: TradeDecision) {
+      placed.push(d);
+      return { orderId: `o-${placed.length}`, shares: 0, cost: 0, resting: true };
+    },
+    async findFill() {
+      return null;
+    },
+    async getOrder() {
+      // 10 shares at 0.45 filled before the reprice
+      return { shares: 10, cost: 4.5, open: calls.cancel < placed.length };
+    },
+    async cancelOrder() {
+      calls.cancel++;
+    },
+    async fetchMarket() {
+      return { ...polyMarket, midpoint: undefined, probability: mid };
+    },
+  });
+
+  const d = { ...makeDecision(polyMarket, { probability: 0.6, confidence: "high", reasoning: "" }, 1000, polyConfig), traceId: "poly", marketId: "p-poly" };
+  await executeBets([d], venue, polyConfig);
+
+  // Unmoved: left alone, fills booked
+  await refreshOpenOrders(venue, polyConfig);
+  assert.equal(calls.cancel, 0);
+
+  // Mid up to 0.48: target 0.48 + 0.25 × 0.12 = 0.51 → cancel and re-place the rest
+  mid = 0.48;
+  await refreshOpenOrders(venue, polyConfig);
+  assert.equal(calls.cancel, 1);
+  assert.equal(placed.length, 2);
+  assert.equal(placed[1]!.limitProb, 0.51);
+  assert.equal(placed[1]!.betAmount, Math.floor(d.betAmount - 4.5));
+  assert.notEqual(placed[1]!.traceId, d.traceId);
+  const orders = loadOpenOrders("polymarket");
+  assert.deepEqual(orders.map((o) => o.orderId), ["o-2"]);
+  assert.equal(loadTrades().find((t) => t.traceId === "poly")!.shares, 10);
+});
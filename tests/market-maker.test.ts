@@ -0,0 +1,170 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import { testConfig } from "./helpers.js";
+import { computeQuotes, pullReason, runMakerCycle } from "../src/market-maker.js";
+import { makeDecision } from "../src/strategy.js";
+import { createPolyVenue } from "../src/poly-venue.js";
+import { loadOpenOrders, loadOpenTrades } from "../src/data.js";
+import type { ClobClient } from "@polymarket/clob-client";
+import type { Market } from "../src/types.js";
+import type { MakerBook } from "../src/market-maker.js";
+
+// Quote pricing, pull rules, and quoting cycles against a mocked CLOB.
+// Run with: node --import tsx/esm --test tests/market-maker.test.ts
+
+const config = testConfig({
+  polyOrderType: "gtc",
+  mmHalfSpread: 0.02,
+  mmMaxSkew: 0.02,
+  mmQuoteSize: 10,
+  mmMaxInventory: 100,
+  mmPullHours: 24,
+  mmPullMove: 0.05,
+});
+
+const market: Market = {
+  id: "mm1",
+  venue: "polymarket",
+  question: "Will it happen?",
+  description: "",
+  url: "https://polymarket.com/event/x",
+  probability: 0.51,
+  liquidity: 10_000,
+  volume: 0,
+  closeTime: Date.now() + 30 * 86_400_000,
+  mechanism: "clob",
+  creator: "polymarket",
+  uniqueBettorCount: 0,
+  isResolved: false,
+  tokenIds: { YES: "yes-token", NO: "no-token" },
+};
+
+const book = (overrides: Partial<MakerBook> = {}): MakerBook => ({
+  market,
+  fair: 0.5,
+  confidence: "high",
+  reasoning: "",
+  state: "quoting",
+  ...overrides,
+});
+
+test("quotes straddle fair value and skew against inventory", () => {
+  assert.deepEqual(computeQuotes(0.5, 0, config), { bid: 0.48, ask: 0.52 });
+  // Half the max inventory long YES moves both quotes down a cent
+  assert.deepEqual(computeQuotes(0.5, 50, config), { bid: 0.47, ask: 0.51 });
+  // At the limit the bid stops quoting; the ask is skewed fully
+  assert.deepEqual(computeQuotes(0.5, 100, config), { bid: undefined, ask: 0.5 });
+  assert.deepEqual(computeQuotes(0.5, -100, config), { bid: 0.5, ask: undefined });
+  // Quotes stay on the book's price range
+  assert.equal(computeQuotes(0.02, 0, config).bid, undefined);
+});
+
+test("quotes are pulled near the end date and on big moves", () => {
+  const now = Date.now();
+  assert.equal(pullReason(book(), 0.51, config, now), null);
+  assert.equal(pullReason(book({ market: { ...market, closeTime: now + 3_600_000 } }), 0.5, config, now)?.state, "closed");
+  assert.equal(pullReason(book({ quotedMid: 0.5 }), 0.54, config, now), null);
+  assert.equal(pullReason(book({ quotedMid: 0.5 }), 0.44, config, now)?.state, "stale");
+  assert.equal(pullReason(book({ fair: 0.6, quotedMid: 0.52 }), 0.54, config, now)?.state, "stale");
+});
+
+/** A CLOB with one resting book at `mid` ± 1¢ whose orders fill only when told to. */
+function mockClob() {
+  const state = {
+    mid: 0.5,
+    orders: new Map<string, { token: string; price: number; size: number; matched: number; status: string; createdAt: number }>(),
+    cancelled: [] as string[],
+  };
+  const clob = {
+    async getOrderBook() {
+      return {
+        bids: [{ price: (state.mid - 0.01).toFixed(2), size: "500" }],
+        asks: [{ price: (state.mid + 0.01).toFixed(2), size: "500" }],
+      };
+    },
+    async createAndPostOrder(order: { tokenID: string; price: number; size: number }) {
+      const id = `o${state.orders.size + 1}`;
+      state.orders.set(id, {
+        token: order.tokenID,
+        price: order.price,
+        size: order.size,
+        matched: 0,
+        status: "LIVE",
+        createdAt: Math.floor(Date.now() / 1000),
+      });
+      return { orderID: id };
+    },
+    async getOrder(id: string) {
+      const o = state.orders.get(id)!;
+      return { id, price: String(o.price), size_matched: String(o.matched), status: o.status, associate_trades: [] };
+    },
+    async getOpenOrders(params?: { asset_id?: string }) {
+      return [...state.orders]
+        .filter(([, o]) => o.status === "LIVE" && (!params?.asset_id || o.token === params.asset_id))
+        .map(([id, o]) => ({ id, side: "BUY", asset_id: o.token, price: String(o.price), original_size: String(o.size), created_at: o.createdAt }));
+    },
+    async getTrades() {
+      return [];
+    },
+    async cancelOrder({ orderID }: { orderID: string }) {
+      state.cancelled.push(orderID);
+      state.orders.get(orderID)!.status = "CANCELED";
+      return { canceled: [orderID] };
+    },
+  };
+  const fill = (id: string) => {
+    const o = state.orders.get(id)!;
+    o.matched = o.size;
+    o.status = "MATCHED";
+  };
+  return { clob: clob as unknown as ClobClient, state, fill };
+}
+
+test("a quoting cycle places, keeps, skews and pulls quotes", async () => {
+  const { clob, state, fill } = mockClob();
+  const venue = createPolyVenue(config, clob);
+  const books = [book()];
+
+  await runMakerCycle(books, venue, clob, config);
+  const quoted = () => [...state.orders.values()].filter((o) => o.status === "LIVE").map((o) => [o.token, o.price]);
+  // Bid buys YES at 48¢; ask buys NO at 1 − 52¢
+  assert.deepEqual(quoted(), [["yes-token", 0.48], ["no-token", 0.48]]);
+  assert.equal(loadOpenOrders("polymarket").length, 2);
+
+  // Nothing changed: both quotes keep their place
+  await runMakerCycle(books, venue, clob, config);
+  assert.equal(state.orders.size, 2);
+  assert.equal(state.cancelled.length, 0);
+
+  // The bid fills: we're long YES, so the bid re-quotes lower
+  fill("o1");
+  await runMakerCycle(books, venue, clob, config);
+  const [trade] = loadOpenTrades("polymarket");
+  assert.equal(trade!.direction, "YES");
+  assert.equal(trade!.shares, 20.83);
+  assert.deepEqual(quoted(), [["no-token", 0.48], ["yes-token", 0.47]]);
+
+  // The mid jumps 6¢: everything comes off and the market awaits a fresh estimate
+  state.mid = 0.56;
+  await runMakerCycle(books, venue, clob, config);
+  assert.deepEqual(quoted(), []);
+  assert.deepEqual(state.cancelled.sort(), ["o2", "o3"]);
+  assert.equal(books[0]!.state, "stale");
+  assert.equal(loadOpenOrders("polymarket").length, 0);
+});
+
+test("a scan limit order being checked after an error doesn't claim a maker quote", async () => {
+  const { clob } = mockClob();
+  const venue = createPolyVenue(config, clob);
+  const since = new Date(Date.now() - 60_000);
+  await runMakerCycle([book()], venue, clob, config);
+
+  // A YES limit at 55¢ on the token the maker bids 48¢ on
+  const estimate = { probability: 0.7, confidence: "high" as const, reasoning: "" };
+  const d = { ...makeDecision({ ...market, midpoint: 0.5 }, estimate, 1000, config), polyTokenId: "yes-token" };
+  assert.equal(d.limitProb, 0.55);
+  assert.equal(await venue.findFill(d, "scan-key", since), null);
+
+  const placed = await venue.placeOrder(d, "scan-key");
+  assert.deepEqual(await venue.findFill(d, "scan-key", since), { orderId: placed.orderId, shares: 0, cost: 0, resting: true });
+});
@@ -5,6 +5,7 @@ import { test } from "node:test";
 // Run with: node --import tsx/esm --test tests/math.test.ts
 
 import { computeWon, computeRealizedPnl, computeUnrealizedPnl, computeMaxPayout } from "../src/pnl.js";
+import { cpmmSell } from "../src/cpmm.js";
 
 test("computeWon YES/NO binary", () => {
   assert.equal(computeWon("YES", "YES", 1), true);
@@ -50,6 +51,15 @@ test("computeUnrealizedPnl with shares", () => {
   assert.equal(pnl, 20);
 });
 
+test("computeUnrealizedPnl values CPMM positions at their exit proceeds", () => {
+  // 100 YES shares bought for M$50, pool now 100/100 at 50%: selling them back
+  // moves the price, so they're worth less than the M$50 the marginal price implies
+  const pool = { pool: { YES: 100, NO: 100 }, p: 0.5 };
+  const pnl = computeUnrealizedPnl("YES", 50, 0.5, 0.5, 100, pool);
+  assert.ok(Math.abs(pnl - (cpmmSell(pool, "YES", 100).proceeds - 50)) < 1e-9);
+  assert.ok(pnl < computeUnrealizedPnl("YES", 50, 0.5, 0.5, 100));
+});
+
 test("computeMaxPayout with shares", () => {
   // 100 shares at cost $50. Max = 100 - 50 = 50
   const max = computeMaxPayout("YES", 50, 0.5, 100);
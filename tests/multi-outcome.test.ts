@@ -0,0 +1,103 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import { testConfig } from "./helpers.js";
+import { multiOutcomeKelly, makeMultiDecisions, filterMarkets } from "../src/strategy.js";
+import { parseDistribution } from "../src/analyzer.js";
+import type { ManifoldMarket, Market } from "../src/types.js";
+
+// Multi-outcome Kelly, per-outcome decisions and distribution parsing.
+// Run with: node --import tsx/esm --test tests/multi-outcome.test.ts
+
+const close = (a: number, b: number, eps = 1e-9) => assert.ok(Math.abs(a - b) < eps, `${a} ≉ ${b}`);
+
+const config = testConfig({ maxBetAmount: 100, edgeThreshold: 0.05, multiOutcome: true });
+
+const market: Market = {
+  id: "m1",
+  venue: "manifold",
+  question: "Who will win the election?",
+  description: "",
+  url: "https://manifold.markets/x",
+  probability: 0.5,
+  liquidity: 1_000,
+  volume: 0,
+  closeTime: Date.now() + 30 * 86_400_000,
+  mechanism: "cpmm",
+  creator: "someone",
+  uniqueBettorCount: 5,
+  isResolved: false,
+  outcomes: [
+    { id: "a", label: "Alice", probability: 0.5 },
+    { id: "b", label: "Bob", probability: 0.3 },
+    { id: "c", label: "Carol", probability: 0.2 },
+  ],
+};
+
+test("one outcome reduces to binary Kelly", () => {
+  const [f] = multiOutcomeKelly([0.6], [0.5]);
+  close(f!, (0.6 - 0.5) / (1 - 0.5));
+});
+
+test("Kelly holds back for the outcomes it doesn't buy", () => {
+  // Bob first (R = 0.55 / 0.7), then Alice as a small hedge (R = 0.15 / 0.2)
+  const f = multiOutcomeKelly([0.4, 0.45, 0.15], [0.5, 0.3, 0.2]);
+  close(f[0]!, 0.4 - 0.5 * 0.75);
+  close(f[1]!, 0.45 - 0.3 * 0.75);
+  close(f[2]!, 0);
+  // Excluding Alice: f = 0.45 − 0.3 × (1 − 0.45) / (1 − 0.3)
+  close(multiOutcomeKelly([0.4, 0.45, 0.15], [0, 0.3, 0.2])[1]!, 0.45 - 0.3 * (0.55 / 0.7));
+  // Fairly priced outcomes get nothing
+  assert.deepEqual(multiOutcomeKelly([0.5, 0.3, 0.2], [0.5, 0.3, 0.2]), [0, 0, 0]);
+});
+
+test("decisions buy YES on the underpriced answer only", () => {
+  const estimate = { probabilities: { a: 0.4, b: 0.45, c: 0.15 }, confidence: "high" as const, reasoning: "" };
+  const [alice, bob, carol] = makeMultiDecisions(market, estimate, 1000, config);
+  assert.equal(alice!.action, "SKIP_LOW_EDGE");
+  assert.equal(carol!.action, "SKIP_LOW_EDGE");
+  assert.equal(bob!.action, "BET");
+  assert.equal(bob!.direction, "YES");
+  assert.equal(bob!.answerId, "b");
+  assert.equal(bob!.outcome, "Bob");
+  assert.equal(bob!.marketId, "m1");
+  assert.equal(bob!.question, "Who will win the election? — Bob");
+  assert.equal(bob!.betAmount, Math.round(0.25 * (0.45 - 0.3 * (0.55 / 0.7)) * 1000));
+});
+
+test("negRisk outcomes trade as their own market and token", () => {
+  const poly: Market = {
+    ...market,
+    venue: "polymarket",
+    mechanism: "clob",
+    outcomes: market.outcomes!.map((o) => ({ ...o, marketId: `cond-${o.id}`, tokenIds: { YES: `${o.id}-yes`, NO: `${o.id}-no` } })),
+  };
+  const estimate = { probabilities: { a: 0.4, b: 0.45, c: 0.15 }, confidence: "high" as const, reasoning: "" };
+  const bob = makeMultiDecisions(poly, estimate, 1000, config)[1]!;
+  assert.equal(bob.marketId, "cond-b");
+  assert.equal(bob.polyTokenId, "b-yes");
+  assert.equal(bob.answerId, undefined);
+  assert.equal(bob.eventId, "m1");
+});
+
+test("distributions are parsed by outcome number and renormalized", () => {
+  const d = parseDistribution('{"probabilities": {"1": 0.5, "2": 0.3, "3": 0.4}, "confidence": "medium", "reasoning": "x"}', ["a", "b", "c"]);
+  close(d.probabilities.a!, 0.5 / 1.2);
+  close(d.probabilities.c!, 0.4 / 1.2);
+  assert.throws(() => parseDistribution('{"probabilities": {}, "confidence": "medium"}', ["a", "b"]));
+});
+
+test("multiple choice passes the filter only when enabled and summing to one", () => {
+  const lite = (overrides: Partial<ManifoldMarket>) => ({
+    id: "x",
+    question: "Q?",
+    outcomeType: "MULTIPLE_CHOICE",
+    isResolved: false,
+    totalLiquidity: 1_000,
+    closeTime: Date.now() + 86_400_000,
+    uniqueBettorCount: 3,
+    ...overrides,
+  }) as ManifoldMarket;
+  assert.equal(filterMarkets([lite({})], config).length, 1);
+  assert.equal(filterMarkets([lite({})], { ...config, multiOutcome: false }).length, 0);
+  assert.equal(filterMarkets([lite({ shouldAnswersSumToOne: false })], config).length, 0);
+});
@@ -0,0 +1,134 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import { testConfig } from "./helpers.js";
+import { searchGrid, walkForwardFolds, bestParams, envLines, envDiff, summarize } from "../src/optimize.js";
+import type { TradeDecision } from "../src/types.js";
+import { paramGrid } from "../src/backtest.js";
+import type { BacktestResult, KnownOutcome } from "../src/backtest.js";
+
+// Walk-forward splits, grid search and the .env diff.
+// Run with: node --import tsx/esm --test tests/optimize.test.ts
+
+const config = testConfig({
+  edgeThreshold: 0.1,
+  kellyFraction: 0.25,
+  maxPositionPct: 0.2,
+  maxBetAmount: 1000,
+  polyMaxBetAmount: 1000,
+  polyRedeemGas: 0,
+});
+
+const DAY = 86_400_000;
+const t0 = Date.parse("2026-01-01T00:00:00Z");
+
+function decision(marketId: string, day: number, estimate: number, confidence = "high"): TradeDecision {
+  return {
+    traceId: `${marketId}-${day}`,
+    timestamp: new Date(t0 + day * DAY).toISOString(),
+    marketId,
+    question: `Market ${marketId}?`,
+    marketUrl: "",
+    marketProb: 0.5,
+    estimate,
+    confidence,
+    reasoning: "",
+    edge: Math.abs(estimate - 0.5),
+    direction: null,
+    kellyFraction: 0,
+    effectiveProb: 0.5,
+    betAmount: 0,
+    action: "SKIP_LOW_EDGE",
+    venue: "polymarket",
+    liquidity: 100_000,
+    closeTime: new Date(t0 + 60 * DAY).toISOString(),
+    uniqueBettorCount: 0,
+    description: "",
+  };
+}
+
+test("the grid crosses every value, with null meaning no override", () => {
+  const grid = searchGrid({
+    edgeThreshold: [0.05, 0.1],
+    kellyFraction: [0.25],
+    maxPositionPct: [0.1, 0.2],
+    edgeThresholdByConfidence: { medium: [null, 0.15] },
+  });
+  assert.equal(grid.length, 8);
+  assert.deepEqual(grid[0]!.edgeThresholdByConfidence, {});
+  assert.deepEqual(grid[1]!.edgeThresholdByConfidence, { medium: 0.15 });
+});
+
+test("folds train only on markets resolved before the test chunk starts", () => {
+  const decisions = [0, 1, 2, 3, 4, 5].map((day) => decision(`m${day}`, day, 0.7));
+  const outcomes = new Map<string, KnownOutcome>(
+    // m1 resolves late, after both test chunks start
+    decisions.map((d, i) => [d.marketId, { resolution: "YES", resolvedAt: t0 + (i === 1 ? 30 : i + 0.5) * DAY }])
+  );
+  const folds = walkForwardFolds(decisions, outcomes, 2);
+  assert.equal(folds.length, 2);
+  assert.deepEqual(folds[0]!.train.map((d) => d.marketId), ["m0"]);
+  assert.deepEqual(folds[0]!.test.map((d) => d.marketId), ["m2", "m3"]);
+  assert.deepEqual(folds[1]!.train.map((d) => d.marketId), ["m0", "m2", "m3"]);
+  assert.deepEqual(folds[1]!.test.map((d) => d.marketId), ["m4", "m5"]);
+});
+
+test("the search picks the best P&L with enough bets", () => {
+  // Medium-confidence calls lose, high-confidence calls win
+  const decisions = [
+    decision("a", 0, 0.7, "high"),
+    decision("b", 1, 0.7, "medium"),
+    decision("c", 2, 0.3, "high"),
+    decision("d", 3, 0.3, "medium"),
+  ];
+  const outcomes = new Map<string, KnownOutcome>([
+    ["a", { resolution: "YES", resolvedAt: t0 + 10 * DAY }],
+    ["b", { resolution: "NO", resolvedAt: t0 + 10 * DAY }],
+    ["c", { resolution: "NO", resolvedAt: t0 + 10 * DAY }],
+    ["d", { resolution: "YES", resolvedAt: t0 + 10 * DAY }],
+  ]);
+  const grid = searchGrid({
+    edgeThreshold: [0.1],
+    kellyFraction: [0.25],
+    maxPositionPct: [0.2],
+    edgeThresholdByConfidence: { medium: [null, 0.5] },
+  });
+  const best = bestParams(grid, decisions, outcomes, config, 1000, 2);
+  assert.deepEqual(best!.params.edgeThresholdByConfidence, { medium: 0.5 });
+  assert.equal(best!.result.bets, 2);
+  assert.ok(best!.result.pnl > 0);
+  assert.equal(bestParams(grid, decisions, outcomes, config, 1000, 5), undefined);
+});
+
+test("out-of-sample totals weight Brier by bets and keep the worst drawdown", () => {
+  const params = paramGrid(testConfig(), {})[0]!;
+  const result = (bets: number, pnl: number, brier: number, maxDrawdown: number): BacktestResult => ({
+    params,
+    bets,
+    wins: 0,
+    staked: bets * 10,
+    pnl,
+    roi: 0,
+    brier,
+    maxDrawdown,
+    finalBankroll: 0,
+  });
+  const s = summarize([result(1, 5, 0.1, 0.05), result(3, -2, 0.3, 0.2)]);
+  assert.equal(s.bets, 4);
+  assert.equal(s.pnl, 3);
+  assert.equal(s.roi, 3 / 40);
+  assert.ok(Math.abs(s.brier - 0.25) < 1e-12);
+  assert.equal(s.maxDrawdown, 0.2);
+});
+
+test("the diff shows changed, added and removed keys only", () => {
+  const env = envLines({ edgeThreshold: 0.08, kellyFraction: 0.25, maxPositionPct: 0.2, edgeThresholdByConfidence: { high: 0.05 } });
+  assert.equal(env.EDGE_THRESHOLD_MEDIUM, undefined);
+  const diff = envDiff({ EDGE_THRESHOLD: "0.10", KELLY_FRACTION: "0.25", EDGE_THRESHOLD_MEDIUM: "0.12" }, env);
+  assert.deepEqual(diff, [
+    "- EDGE_THRESHOLD=0.10",
+    "+ EDGE_THRESHOLD=0.08",
+    "+ MAX_POSITION_PCT=0.2",
+    "- EDGE_THRESHOLD_MEDIUM=0.12",
+    "+ EDGE_THRESHOLD_HIGH=0.05",
+  ]);
+});
@@ -0,0 +1,74 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import { testConfig } from "./helpers.js";
+import { makeDecision } from "../src/strategy.js";
+import { computeCalibration } from "../src/calibration.js";
+import type { OraclePrice } from "../src/oracle.js";
+import type { Market, Resolution } from "../src/types.js";
+
+// External price oracles in makeDecision, and the calibration split they feed.
+// Run with: node --import tsx/esm --test tests/oracle.test.ts
+
+const market: Market = {
+  id: "m1",
+  venue: "manifold",
+  question: "Will the Lakers beat the Celtics?",
+  description: "",
+  url: "https://manifold.markets/x",
+  probability: 0.5,
+  liquidity: 1_000,
+  volume: 0,
+  closeTime: Date.now() + 86_400_000,
+  mechanism: "cpmm",
+  creator: "someone",
+  uniqueBettorCount: 5,
+  isResolved: false,
+};
+
+const config = testConfig({ maxBetAmount: 100, edgeThreshold: 0.05, oracleMode: "blend", oracleWeight: 0.75 });
+const claude = { probability: 0.5, confidence: "low" as const, reasoning: "Coin flip." };
+const oracle: OraclePrice = { source: "espn", probability: 0.7, detail: "ESPN BET moneyline: Los Angeles Lakers 70.0% (no vig)" };
+
+test("blend mixes the oracle into Claude's estimate and records both", () => {
+  const d = makeDecision(market, claude, 1000, config, { oracle });
+  assert.ok(Math.abs(d.estimate - 0.65) < 1e-9);
+  assert.equal(d.claudeEstimate, 0.5);
+  assert.equal(d.oracle, "espn");
+  assert.equal(d.oracleProb, 0.7);
+  // A low-confidence Claude estimate doesn't block an oracle-priced bet
+  assert.equal(d.action, "BET");
+  assert.equal(d.direction, "YES");
+});
+
+test("replace trades on the oracle price; off ignores it", () => {
+  assert.equal(makeDecision(market, claude, 1000, { ...config, oracleMode: "replace" }, { oracle }).estimate, 0.7);
+
+  const off = makeDecision(market, claude, 1000, { ...config, oracleMode: "off" }, { oracle });
+  assert.equal(off.estimate, 0.5);
+  assert.equal(off.oracle, undefined);
+  assert.equal(off.claudeEstimate, undefined);
+});
+
+test("calibration splits oracle-driven from Claude-driven bets", () => {
+  const resolution = (won: boolean, source?: "espn"): Resolution => ({
+    traceId: `t-${Math.random()}`,
+    resolvedAt: "2026-01-01T00:00:00.000Z",
+    marketId: "m",
+    question: "Q?",
+    resolution: won ? "YES" : "NO",
+    direction: "YES",
+    estimate: 0.7,
+    marketProbAtBet: 0.5,
+    edge: 0.2,
+    confidence: "medium",
+    amount: 10,
+    won,
+    pnl: won ? 10 : -10,
+    brierScore: won ? 0.09 : 0.49,
+    venue: "manifold",
+    oracle: source,
+  });
+  const report = computeCalibration([resolution(true, "espn"), resolution(true, "espn"), resolution(false)]);
+  assert.deepEqual(report.bySource.oracle, { count: 2, winRate: 1, avgBrier: 0.09, roi: 1 });
+  assert.deepEqual(report.bySource.claude, { count: 1, winRate: 0, avgBrier: 0.49, roi: -1 });
+});
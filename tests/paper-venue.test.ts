@@ -0,0 +1,172 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import { testConfig, fakeVenue } from "./helpers.js";
+import { createPaperVenue, paperBalance } from "../src/paper-venue.js";
+import { executeBets } from "../src/executor.js";
+import { runResolve } from "../src/resolver.js";
+import { syncOpenOrders } from "../src/orders.js";
+import { loadOpenOrders, loadOpenTrades, loadResolutions } from "../src/data.js";
+import type { Market, MarketResolution, Position, TradeDecision, Venue } from "../src/types.js";
+
+// Paper account: simulated fills on a live venue's prices, settled through the ledger.
+// Run with: node --import tsx/esm --test tests/paper-venue.test.ts
+
+const close = (a: number, b: number, eps = 1e-9) => assert.ok(Math.abs(a - b) < eps, `${a} ≉ ${b}`);
+
+const config = testConfig({ dryRun: true });
+
+const market: Market = {
+  id: "p1",
+  venue: "polymarket",
+  question: "Will it happen?",
+  description: "",
+  url: "https://polymarket.com/event/x",
+  probability: 0.4,
+  liquidity: 10_000,
+  volume: 0,
+  closeTime: Date.now() + 30 * 86_400_000,
+  mechanism: "clob",
+  creator: "polymarket",
+  uniqueBettorCount: 0,
+  isResolved: false,
+  tokenIds: { YES: "yes-token", NO: "no-token" },
+  fees: { takerRate: 0.05, curve: "min", settlementCost: 0 },
+};
+
+/** A live venue that quotes from `state` and fails if asked to trade. */
+function liveVenue(state: { ask: number | null; bid: number | null; resolution: MarketResolution }, exits = true): Venue {
+  const venue = fakeVenue({
+    name: "polymarket",
+    currency: "$",
+    listMarkets: async () => [market],
+    fetchMarket: async (marketId) => ({ ...market, id: marketId }),
+    quoteFillPrice: async () => state.ask,
+    checkResolution: async () => state.resolution,
+  });
+  if (exits) {
+    venue.quoteSellPrice = async () => state.bid;
+    venue.sell = async () => {
+      throw new Error("live venue traded");
+    };
+  }
+  return venue;
+}
+
+function decision(marketId: string, overrides: Partial<TradeDecision> = {}): TradeDecision {
+  return {
+    traceId: `t-${marketId}`,
+    timestamp: new Date().toISOString(),
+    marketId,
+    question: `Market ${marketId}?`,
+    marketUrl: "",
+    marketProb: 0.4,
+    estimate: 0.6,
+    confidence: "high",
+    reasoning: "",
+    edge: 0.2,
+    direction: "YES",
+    kellyFraction: 0.1,
+    effectiveProb: 0.42,
+    betAmount: 42,
+    action: "BET",
+    venue: "paper-polymarket",
+    liquidity: 10_000,
+    closeTime: new Date(market.closeTime).toISOString(),
+    uniqueBettorCount: 0,
+    description: "",
+    ...overrides,
+  };
+}
+
+test("a paper bet fills at the live ask plus fees, in a dry run, and settles through resolve", async () => {
+  const state = { ask: 0.4, bid: 0.45, resolution: { resolved: false } as MarketResolution };
+  const paper = createPaperVenue(liveVenue(state), config);
+  assert.equal(paper.name, "paper-polymarket");
+  assert.equal((await paper.listMarkets(new Set()))[0]!.venue, "paper-polymarket");
+
+  // 40¢ ask + 5% × 40¢ fee = 42¢ a share
+  await executeBets([decision("p1")], paper, config);
+  const [trade] = loadOpenTrades("paper-polymarket");
+  assert.equal(trade!.dryRun, false);
+  close(trade!.shares!, 100);
+  assert.equal(loadOpenTrades("polymarket").length, 0);
+  assert.deepEqual(paperBalance("paper-polymarket", 1000), { cash: 958, openCost: 42 });
+
+  state.resolution = { resolved: true, outcome: "YES" };
+  await runResolve(new Map([[paper.name, paper]]));
+  const [resolution] = loadResolutions();
+  assert.equal(resolution!.venue, "paper-polymarket");
+  close(resolution!.pnl, 58);
+  assert.deepEqual(paperBalance("paper-polymarket", 1000), { cash: 1058, openCost: 0 });
+});
+
+test("recorded fills use the decision's price, and bets can't exceed free cash", async () => {
+  const state = { ask: null, bid: null, resolution: { resolved: false } as MarketResolution };
+  const recorded = createPaperVenue(liveVenue(state), { ...config, paperFills: "recorded" });
+  const fill = await recorded.placeOrder(decision("p2", { direction: "NO", effectiveProb: 0.3, betAmount: 70 }), "k2");
+  close(fill.shares!, 100);
+
+  // The live book can't fill it
+  const live = createPaperVenue(liveVenue(state), config);
+  await assert.rejects(live.placeOrder(decision("p3"), "k3"), /depth/);
+
+  await assert.rejects(live.placeOrder(decision("p4", { betAmount: 2000 }), "k4"), /Paper balance/);
+});
+
+test("paper limit orders rest until the live ask reaches the limit, then fill at it", async () => {
+  const state = { ask: 0.5, bid: 0.45, resolution: { resolved: false } as MarketResolution };
+  const paper = createPaperVenue(liveVenue(state), config);
+  const venues = new Map([[paper.name, paper]]);
+  const held = () => loadOpenTrades("paper-polymarket").filter((t) => t.marketId.startsWith("lim-"));
+
+  await executeBets([decision("lim-1", { limitProb: 0.45, effectiveProb: 0.45, betAmount: 45 })], paper, config);
+  assert.equal(held().length, 0);
+  assert.equal(loadOpenOrders("paper-polymarket").length, 1);
+
+  // Still above the limit: keeps resting
+  await syncOpenOrders(venues, { cancelRemainders: false });
+  assert.equal(loadOpenOrders("paper-polymarket").length, 1);
+
+  state.ask = 0.44;
+  await syncOpenOrders(venues, { cancelRemainders: false });
+  assert.equal(loadOpenOrders("paper-polymarket").length, 0);
+  close(held()[0]!.shares!, 100);
+  assert.equal(held()[0]!.amount, 45);
+
+  // A limit the ask already crosses fills at once, at the ask plus fees
+  state.ask = 0.4;
+  await executeBets([decision("lim-2", { limitProb: 0.45, effectiveProb: 0.45 })], paper, config);
+  close(held().find((t) => t.marketId === "lim-2")!.shares!, 100);
+
+  // Cancelled before the ask gets there: nothing fills
+  state.ask = 0.5;
+  await executeBets([decision("lim-3", { limitProb: 0.45, effectiveProb: 0.45 })], paper, config);
+  await syncOpenOrders(venues, { cancelRemainders: true });
+  state.ask = 0.4;
+  await syncOpenOrders(venues, { cancelRemainders: false });
+  assert.equal(loadOpenOrders("paper-polymarket").length, 0);
+  assert.equal(held().some((t) => t.marketId === "lim-3"), false);
+});
+
+test("paper exits sell at the live bid, only where the live venue has exits", async () => {
+  const state = { ask: 0.4, bid: 0.45, resolution: { resolved: false } as MarketResolution };
+  const paper = createPaperVenue(liveVenue(state), config);
+  const position: Position = {
+    traceId: "t-x",
+    venue: "paper-polymarket",
+    marketId: "x",
+    question: "",
+    direction: "YES",
+    amount: 42,
+    shares: 100,
+    entryProb: 0.4,
+    estimate: 0.6,
+    edge: 0.2,
+  };
+  const sold = await paper.sell!(position, market);
+  close(sold.proceeds, 45);
+
+  const noExits = createPaperVenue(liveVenue(state, false), config);
+  assert.equal(noExits.sell, undefined);
+  assert.equal(noExits.quoteSellPrice, undefined);
+});
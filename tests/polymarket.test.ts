@@ -0,0 +1,57 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import { sweepBids, tradesFill, takerFill } from "../src/polymarket.js";
+import type { Trade } from "@polymarket/clob-client";
+
+// Orderbook math for Polymarket exits, and order fills from CLOB trades.
+// Run with: node --import tsx/esm --test tests/polymarket.test.ts
+
+const bids = [
+  { price: "0.50", size: "100" },
+  { price: "0.58", size: "40" },
+  { price: "0.55", size: "60" },
+];
+
+test("sweepBids fills from the best bid down", () => {
+  // 40 @ 0.58 + 60 @ 0.55 + 20 @ 0.50 = 66.2 for 120 shares
+  const sweep = sweepBids(bids, 120)!;
+  assert.ok(Math.abs(sweep.avgPrice - 66.2 / 120) < 1e-9);
+  assert.equal(sweep.worstPrice, 0.5);
+});
+
+test("sweepBids stays on the top level when it has enough size", () => {
+  assert.deepEqual(sweepBids(bids, 10), { avgPrice: 0.58, worstPrice: 0.58 });
+});
+
+test("sweepBids returns null when the bids can't absorb the position", () => {
+  assert.equal(sweepBids(bids, 500), null);
+  assert.equal(sweepBids([], 1), null);
+});
+
+test("tradesFill counts only our maker order's matched amount, not the taker's size", () => {
+  const maker = (order_id: string, matched_amount: string, price: string) => ({ order_id, matched_amount, price });
+  const trade = (taker_order_id: string, size: string, price: string, makers: ReturnType<typeof maker>[]) =>
+    ({ taker_order_id, size, price, maker_orders: makers }) as unknown as Trade;
+
+  // Our resting bid at 0.45 is partly matched: 30 shares by a 500-share taker, 20 by a 200-share one
+  const trades = [
+    trade("taker-1", "500", "0.46", [maker("other", "470", "0.46"), maker("ours", "30", "0.45")]),
+    trade("taker-2", "200", "0.45", [maker("ours", "20", "0.45"), maker("other", "180", "0.45")]),
+  ];
+  const fill = tradesFill("ours", trades);
+  assert.equal(fill.shares, 50);
+  assert.ok(Math.abs(fill.usdc - 22.5) < 1e-9);
+
+  // As the taker, the whole trade is ours
+  assert.deepEqual(tradesFill("taker-1", trades), { shares: 500, usdc: 230 });
+});
+
+test("takerFill skips taker trades on the token whose size isn't our order's", () => {
+  const trade = (taker_order_id: string, size: string, price: string) =>
+    ({ taker_order_id, trader_side: "TAKER", side: "BUY", size, price, maker_orders: [] }) as unknown as Trade;
+
+  // A manual $4 buy lands first; our $10 order is the second taker, matched across two makers
+  const trades = [trade("manual", "10", "0.40"), trade("ours", "15", "0.40"), trade("ours", "8", "0.50")];
+  assert.deepEqual(takerFill(trades, "BUY", 10), { orderId: "ours", shares: 23, usdc: 10 });
+  assert.equal(takerFill(trades, "BUY", 25), null);
+});
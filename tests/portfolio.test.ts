@@ -0,0 +1,85 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import { testConfig } from "./helpers.js";
+import { sizePortfolio, correlationKeys, type OpenExposure } from "../src/portfolio.js";
+import type { TradeDecision } from "../src/types.js";
+
+// Joint sizing of a scan's bets.
+// Run with: node --import tsx/esm --test tests/portfolio.test.ts
+
+const config = testConfig({ maxPositionPct: 0.2, portfolioMaxPct: 0.5, portfolioCorrelation: true });
+
+function bet(traceId: string, question: string, betAmount: number, eventId?: string): TradeDecision {
+  return {
+    traceId,
+    timestamp: "2026-01-01T00:00:00.000Z",
+    marketId: `m-${traceId}`,
+    question,
+    marketUrl: "https://example.com",
+    marketProb: 0.4,
+    estimate: 0.6,
+    confidence: "medium",
+    reasoning: "",
+    edge: 0.2,
+    direction: "YES",
+    kellyFraction: 0.1,
+    effectiveProb: 0.4,
+    betAmount,
+    action: "BET",
+    venue: "polymarket",
+    eventId,
+    liquidity: 10_000,
+    closeTime: "2026-02-01T00:00:00.000Z",
+    uniqueBettorCount: 0,
+    description: "",
+  };
+}
+
+const amounts = (ds: TradeDecision[]) => ds.map((d) => d.betAmount);
+
+test("correlation keys come from event, team, ticker and crypto asset", () => {
+  assert.deepEqual(correlationKeys("Will the Lakers beat the Celtics?"), [
+    "team:Los Angeles Lakers",
+    "team:Boston Celtics",
+  ]);
+  assert.deepEqual(correlationKeys("Bitcoin above $100k on Friday?", "KXBTCD-26"), ["event:KXBTCD-26", "crypto:BTC"]);
+  assert.deepEqual(correlationKeys("Will NVDA close higher today?"), ["ticker:NVDA"]);
+  assert.deepEqual(correlationKeys("Will it rain in Paris?"), []);
+});
+
+test("uncorrelated bets within the portfolio cap are left alone", () => {
+  const ds = [bet("a", "Will it rain in Paris?", 10), bet("b", "Will NVDA close higher today?", 10)];
+  assert.deepEqual(sizePortfolio(ds, [], 100, config), ds);
+});
+
+test("correlated bets share one position cap with what we hold", () => {
+  const open: OpenExposure[] = [{ marketId: "m-x", question: "Lakers win the title?", amount: 8 }];
+  const ds = [
+    bet("a", "Will the Lakers beat the Suns?", 12),
+    bet("b", "Suns over 110.5 points?", 12),
+    bet("c", "Will it rain in Paris?", 12),
+  ];
+  // Lakers–Suns cluster: 8 held + 24 wanted vs a 20 cap → new bets scaled by 12/24
+  const sized = sizePortfolio(ds, open, 100, config);
+  assert.deepEqual(amounts(sized), [6, 6, 12]);
+  assert.equal(sized[0]!.portfolioScale, 0.5);
+  assert.equal(sized[2]!.portfolioScale, undefined);
+
+  assert.deepEqual(amounts(sizePortfolio(ds, open, 100, { ...config, portfolioCorrelation: false })), [12, 12, 12]);
+});
+
+test("the whole book is held to the portfolio cap", () => {
+  const ds = Array.from({ length: 15 }, (_, i) => bet(`b${i}`, `Independent question ${i}?`, 10));
+  const open: OpenExposure[] = [{ marketId: "m-old", question: "Old question?", amount: 20 }];
+  // 50 cap - 20 held = 30 room for 150 wanted → each bet × 0.2
+  const sized = sizePortfolio(ds, open, 100, config);
+  assert.ok(sized.every((d) => d.betAmount === 2 && d.action === "BET"));
+});
+
+test("bets scaled below one unit are skipped", () => {
+  const ds = [bet("a", "Q1?", 10), bet("b", "Q2?", 10)];
+  const open: OpenExposure[] = [{ marketId: "m-old", question: "Old?", amount: 49.5 }];
+  const sized = sizePortfolio([...ds, { ...bet("c", "Q3?", 0), action: "SKIP_LOW_EDGE" }], open, 100, config);
+  assert.deepEqual(sized.map((d) => d.action), ["SKIP_PORTFOLIO_CAP", "SKIP_PORTFOLIO_CAP", "SKIP_LOW_EDGE"]);
+  assert.deepEqual(amounts(sized), [0, 0, 0]);
+});
@@ -0,0 +1,116 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import { testConfig } from "./helpers.js";
+import { fitPlatt, fitIsotonic, applyCurve, fitRecalibrator, recalibrate, recalibrationSamples } from "../src/recalibration.js";
+import { makeDecision } from "../src/strategy.js";
+import { computeCalibration } from "../src/calibration.js";
+import type { Market, Resolution, TradeDecision } from "../src/types.js";
+import type { KnownOutcome } from "../src/backtest.js";
+import type { RecalibrationSample } from "../src/recalibration.js";
+
+// Platt and isotonic recalibration of Claude's estimates.
+// Run with: node --import tsx/esm --test tests/recalibration.test.ts
+
+const close = (a: number, b: number, eps = 1e-9) => assert.ok(Math.abs(a - b) < eps, `${a} ≉ ${b}`);
+
+function samples(probability: number, yes: number, no: number, confidence: "low" | "medium" | "high" = "high"): RecalibrationSample[] {
+  const s = (outcome: 0 | 1): RecalibrationSample => ({ probability, outcome, category: "Other", confidence });
+  return [...Array(yes).fill(s(1)), ...Array(no).fill(s(0))];
+}
+
+test("Platt scaling pulls an overconfident forecaster in", () => {
+  // Says 90% when it's 70%, and 10% when it's 30%
+  const curve = fitPlatt([...samples(0.9, 70, 30), ...samples(0.1, 30, 70)]);
+  close(applyCurve(curve, 0.9), 0.7, 0.01);
+  close(applyCurve(curve, 0.1), 0.3, 0.01);
+  close(applyCurve(curve, 0.5), 0.5, 1e-6);
+
+  // One distinct estimate: only the offset moves
+  close(applyCurve(fitPlatt(samples(0.6, 40, 60)), 0.6), 0.4, 0.01);
+});
+
+test("isotonic regression pools violators and interpolates between steps", () => {
+  const curve = fitIsotonic([
+    { probability: 0.1, outcome: 0, category: "", confidence: "high" },
+    { probability: 0.2, outcome: 1, category: "", confidence: "high" },
+    { probability: 0.3, outcome: 0, category: "", confidence: "high" },
+    { probability: 0.4, outcome: 1, category: "", confidence: "high" },
+  ]);
+  assert.deepEqual(curve, { method: "isotonic", x: [0.1, 0.25, 0.4], y: [0, 0.5, 1] });
+  close(applyCurve(curve, 0.325), 0.75);
+  // Kept off the extremes
+  close(applyCurve(curve, 0.05), 0.01);
+  close(applyCurve(curve, 0.9), 0.99);
+});
+
+test("groups with enough samples get their own curve; the rest use the pooled one", () => {
+  const history = [...samples(0.8, 60, 0, "high"), ...samples(0.8, 5, 5, "low")];
+  assert.equal(fitRecalibrator(history, "platt", ["confidence"], 100), undefined);
+
+  const r = fitRecalibrator(history, "isotonic", ["confidence"], 50)!;
+  assert.deepEqual([...r.groups.keys()], ["high"]);
+  const estimate = { probability: 0.8, confidence: "high" as const, reasoning: "" };
+  const high = recalibrate(r, estimate, "Will it happen?");
+  close(high.probability, 0.99);
+  assert.equal(high.rawProbability, 0.8);
+  close(recalibrate(r, { ...estimate, confidence: "low" }, "Will it happen?").probability, 65 / 70);
+  assert.equal(recalibrate(undefined, estimate, "Will it happen?"), estimate);
+});
+
+test("samples are each market's first raw Claude estimate before it resolved", () => {
+  const t0 = Date.parse("2026-01-01T00:00:00Z");
+  const decision = (marketId: string, day: number, overrides: Partial<TradeDecision> = {}) => ({
+    traceId: `${marketId}-${day}`,
+    timestamp: new Date(t0 + day * 86_400_000).toISOString(),
+    marketId,
+    question: `Market ${marketId}?`,
+    estimate: 0.7,
+    confidence: "medium",
+    action: "SKIP_LOW_EDGE",
+    ...overrides,
+  }) as TradeDecision;
+  const outcomes = new Map<string, KnownOutcome>([
+    ["a", { resolution: "YES", resolvedAt: t0 + 5 * 86_400_000 }],
+    ["b", { resolution: "NO", resolvedAt: t0 + 5 * 86_400_000 }],
+    ["c", { resolution: "NO", resolvedAt: t0 + 1 * 86_400_000 }],
+    ["d", { resolution: "NO", resolvedAt: t0 + 5 * 86_400_000 }],
+  ]);
+  const got = recalibrationSamples([
+    decision("a", 2, { estimate: 0.9 }),
+    decision("a", 1),
+    decision("b", 1, { oracle: "polymarket" }),
+    decision("c", 2),
+    decision("d", 1, { estimate: 0.5, rawEstimate: 0.6 }),
+  ], outcomes);
+  assert.deepEqual(got.map((s) => [s.probability, s.outcome]), [[0.7, 1], [0.6, 0]]);
+});
+
+test("decisions keep the raw estimate and stats compare the Brier scores", () => {
+  const market = {
+    id: "m1",
+    venue: "polymarket",
+    question: "Will it happen?",
+    description: "",
+    url: "",
+    probability: 0.5,
+    liquidity: 10_000,
+    volume: 0,
+    closeTime: Date.now() + 30 * 86_400_000,
+    mechanism: "clob",
+    creator: "",
+    uniqueBettorCount: 0,
+    isResolved: false,
+  } as Market;
+  const config = testConfig({ maxBetAmount: 100, edgeThreshold: 0.05 });
+  const d = makeDecision(market, { probability: 0.6, rawProbability: 0.7, confidence: "high", reasoning: "" }, 1000, config);
+  assert.equal(d.estimate, 0.6);
+  assert.equal(d.rawEstimate, 0.7);
+  assert.equal(makeDecision(market, { probability: 0.6, confidence: "high", reasoning: "" }, 1000, config).rawEstimate, undefined);
+
+  const resolution = (brierScore: number, rawBrierScore?: number) =>
+    ({ resolution: "YES", won: true, amount: 10, pnl: 5, confidence: "high", brierScore, rawBrierScore }) as Resolution;
+  const report = computeCalibration([resolution(0.16, 0.09), resolution(0.04, 0.01), resolution(0.25)]);
+  assert.equal(report.recalibration.count, 2);
+  close(report.recalibration.avgBrier, 0.1);
+  close(report.recalibration.avgRawBrier, 0.05);
+});
@@ -0,0 +1,85 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import { fakeVenue } from "./helpers.js";
+import { diffPositions, runReconcile } from "../src/reconcile.js";
+import { insertTrade, loadOpenTrades } from "../src/data.js";
+import type { TradeExecution, VenuePosition } from "../src/types.js";
+
+// Ledger vs venue position diffing.
+// Run with: node --import tsx/esm --test tests/reconcile.test.ts
+
+function trade(marketId: string, overrides: Partial<TradeExecution> = {}): TradeExecution {
+  return {
+    traceId: `t-${marketId}`,
+    timestamp: "2026-01-01T00:00:00.000Z",
+    marketId,
+    question: "Will it happen?",
+    direction: "YES",
+    amount: 10,
+    marketProb: 0.4,
+    estimate: 0.6,
+    edge: 0.2,
+    dryRun: false,
+    venue: "manifold",
+    shares: 24,
+    result: { betId: `bet-${marketId}` },
+    ...overrides,
+  };
+}
+
+const pos = (marketId: string, shares: number, outcome: "YES" | "NO" = "YES") =>
+  ({ marketId, outcome, shares, avgPrice: 0.42 });
+
+test("matching positions produce no issues", () => {
+  assert.deepEqual(diffPositions("manifold", [trade("a")], [], new Set(), [pos("a", 24.1)]), []);
+});
+
+test("classifies missing fills, manual trades, phantoms and share mismatches", () => {
+  const failed = trade("lost", { result: { error: "network error: timeout" } });
+  const issues = diffPositions(
+    "manifold",
+    [trade("held"), trade("gone")],
+    [failed],
+    new Set(),
+    [pos("held", 30), pos("lost", 24), pos("manual", 5, "NO")],
+  );
+
+  const byKind = Object.fromEntries(issues.map((i) => [i.kind, i]));
+  assert.deepEqual(issues.map((i) => i.kind).sort(), ["MANUAL_TRADE", "MISSING_FILL", "PHANTOM", "SHARE_MISMATCH"]);
+  assert.equal(byKind.SHARE_MISMATCH!.localShares, 24);
+  assert.equal(byKind.SHARE_MISMATCH!.remoteShares, 30);
+  assert.equal(byKind.MISSING_FILL!.trades[0], failed);
+  assert.equal(byKind.MANUAL_TRADE!.direction, "NO");
+  assert.equal(byKind.PHANTOM!.marketId, "gone");
+});
+
+test("venue positions on markets closed in the ledger are ignored", () => {
+  assert.deepEqual(diffPositions("manifold", [], [], new Set(["done"]), [pos("done", 24)]), []);
+});
+
+test("share counts are not compared when a fill didn't record them", () => {
+  const noShares = trade("poly", { venue: "polymarket", shares: undefined });
+  assert.deepEqual(diffPositions("polymarket", [noShares], [], new Set(), [pos("poly", 99)]), []);
+});
+
+test("phantoms are repaired only with repairPhantoms, and never against an empty venue list", async () => {
+  insertTrade(trade("phantom"));
+  insertTrade(trade("held"));
+  let remote: VenuePosition[] = [];
+  const venue = fakeVenue({
+    fetchPositions: async () => remote,
+    checkResolution: async () => ({ resolved: false }),
+  });
+  const venues = new Map([["manifold" as const, venue]]);
+  const open = () => loadOpenTrades("manifold").map((t) => t.marketId).sort();
+
+  await runReconcile(venues, { repair: true, repairPhantoms: true });
+  assert.deepEqual(open(), ["held", "phantom"]);
+
+  remote = [pos("held", 24)];
+  await runReconcile(venues, { repair: true, repairPhantoms: false });
+  assert.deepEqual(open(), ["held", "phantom"]);
+
+  await runReconcile(venues, { repair: true, repairPhantoms: true });
+  assert.deepEqual(open(), ["held"]);
+});
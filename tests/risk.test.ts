@@ -0,0 +1,176 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import { mkdtempSync, writeFileSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { testConfig, fakeVenue } from "./helpers.js";
+import { checkRisk, loadRiskState, rollingDayPnl } from "../src/risk.js";
+import { executeBets } from "../src/executor.js";
+import { insertTrade, insertSnapshot, insertResolution, loadDecisions } from "../src/data.js";
+import type { RiskLimits, TradeDecision, TradeExecution } from "../src/types.js";
+
+// Risk limits against an in-memory ledger.
+// Run with: node --import tsx/esm --test tests/risk.test.ts
+
+const NOW = Date.parse("2026-03-02T12:00:00Z");
+const hoursAgo = (h: number) => new Date(NOW - h * 3_600_000).toISOString();
+
+const noLimits: RiskLimits = {
+  tradingEnabled: true,
+  killSwitchFile: "/nonexistent/KILL_SWITCH",
+  maxDailyLoss: {},
+  maxOpenPositions: 0,
+  maxVenueExposure: {},
+  maxMarketExposure: {},
+};
+
+function buy(traceId: string, timestamp: string, amount = 10): TradeExecution {
+  return {
+    traceId,
+    timestamp,
+    marketId: `m-${traceId}`,
+    question: "Will it happen?",
+    direction: "YES",
+    amount,
+    marketProb: 0.4,
+    estimate: 0.6,
+    edge: 0.2,
+    dryRun: false,
+    venue: "polymarket",
+    shares: amount / 0.4,
+    result: { orderId: `o-${traceId}` },
+  };
+}
+
+function snapshot(traceId: string, timestamp: string, unrealizedPnl: number) {
+  insertSnapshot({
+    timestamp,
+    traceId,
+    marketId: `m-${traceId}`,
+    question: "Will it happen?",
+    direction: "YES",
+    amount: 10,
+    estimate: 0.6,
+    entryProb: 0.4,
+    currentProb: 0.4,
+    unrealizedPnl,
+  });
+}
+
+function decision(traceId: string, marketId = `m-${traceId}`, betAmount = 10): TradeDecision {
+  return {
+    traceId,
+    timestamp: hoursAgo(0),
+    marketId,
+    question: "Will it happen?",
+    marketUrl: "https://example.com",
+    marketProb: 0.4,
+    estimate: 0.6,
+    confidence: "medium",
+    reasoning: "",
+    edge: 0.2,
+    direction: "YES",
+    kellyFraction: 0.1,
+    effectiveProb: 0.4,
+    betAmount,
+    action: "BET",
+    venue: "polymarket",
+    liquidity: 10_000,
+    closeTime: "2026-04-01T00:00:00.000Z",
+    uniqueBettorCount: 10,
+    description: "",
+  };
+}
+
+// Ledger shared by the tests below:
+//   old  — opened 2 days ago, marked +1 before the window, now -3  → -4 in window
+//   new  — opened 2h ago, now -2                                  → -2 in window
+//   gone — opened 2 days ago, marked -1 before the window, resolved at -10 → -9
+insertTrade(buy("old", hoursAgo(48)));
+snapshot("old", hoursAgo(30), 1);
+snapshot("old", hoursAgo(1), -3);
+insertTrade(buy("new", hoursAgo(2), 5));
+snapshot("new", hoursAgo(1), -2);
+insertTrade(buy("gone", hoursAgo(48)));
+snapshot("gone", hoursAgo(30), -1);
+insertResolution({
+  traceId: "gone",
+  resolvedAt: hoursAgo(3),
+  marketId: "m-gone",
+  question: "Will it happen?",
+  resolution: "NO",
+  direction: "YES",
+  estimate: 0.6,
+  marketProbAtBet: 0.4,
+  edge: 0.2,
+  confidence: "medium",
+  amount: 10,
+  won: false,
+  pnl: -10,
+  brierScore: 0.36,
+  venue: "polymarket",
+});
+
+test("rolling 24h P&L nets out marks from before the window", () => {
+  assert.equal(rollingDayPnl("polymarket", NOW), -15);
+  assert.equal(rollingDayPnl("kalshi", NOW), 0);
+});
+
+test("risk state counts open cost basis per venue and market", () => {
+  const state = loadRiskState("polymarket", NOW);
+  assert.equal(state.openPositions, 2);
+  assert.equal(state.venueExposure, 15);
+  assert.equal(state.marketExposure.get("m-new"), 5);
+});
+
+test("each limit blocks with its own action", () => {
+  const state = loadRiskState("polymarket", NOW);
+  const block = (limits: Partial<RiskLimits>, d = decision("x")) =>
+    checkRisk({ ...noLimits, ...limits }, state, d)?.action ?? null;
+
+  assert.equal(block({}), null);
+  assert.equal(block({ tradingEnabled: false }), "SKIP_RISK_KILL_SWITCH");
+  assert.equal(block({ maxDailyLoss: { polymarket: 15 } }), "SKIP_RISK_DAILY_LOSS");
+  assert.equal(block({ maxDailyLoss: { polymarket: 20, kalshi: 1 } }), null);
+  assert.equal(block({ maxOpenPositions: 2 }), "SKIP_RISK_MAX_POSITIONS");
+  assert.equal(block({ maxVenueExposure: { polymarket: 24 } }), "SKIP_RISK_VENUE_EXPOSURE");
+  assert.equal(block({ maxMarketExposure: { polymarket: 12 } }, decision("y", "m-new")), "SKIP_RISK_MARKET_EXPOSURE");
+  assert.equal(block({ maxMarketExposure: { polymarket: 12 } }), null);
+});
+
+test("the kill switch file blocks orders while it exists", () => {
+  const dir = mkdtempSync(join(tmpdir(), "polyedge-risk-"));
+  const file = join(dir, "KILL_SWITCH");
+  const state = loadRiskState("polymarket", NOW);
+  try {
+    assert.equal(checkRisk({ ...noLimits, killSwitchFile: file }, state, decision("x")), null);
+    writeFileSync(file, "");
+    assert.equal(checkRisk({ ...noLimits, killSwitchFile: file }, state, decision("x"))?.action, "SKIP_RISK_KILL_SWITCH");
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("executeBets logs blocked orders as SKIP_RISK decisions and counts fills", async () => {
+  const placed: string[] = [];
+  const venue = fakeVenue({
+    name: "polymarket",
+    currency: "$",
+    async placeOrder(d: TradeDecision) {
+      placed.push(d.traceId);
+      return { orderId: `o-${d.traceId}`, shares: 25, cost: 10 };
+    },
+    async findFill() {
+      return null;
+    },
+  });
+  const config = testConfig({ risk: { ...noLimits, maxVenueExposure: { polymarket: 30 } } });
+
+  // 15 open + 10 fits; the second 10 would make 35
+  const executions = await executeBets([decision("first"), decision("second")], venue, config);
+
+  assert.deepEqual(placed, ["first"]);
+  assert.equal(executions.length, 1);
+  const skipped = loadDecisions().filter((d) => d.traceId === "second");
+  assert.deepEqual(skipped.map((d) => d.action), ["SKIP_RISK_VENUE_EXPOSURE"]);
+});
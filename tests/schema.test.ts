@@ -0,0 +1,69 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import { migrateRecord, parseRecord, SchemaError, SCHEMA_VERSION } from "../src/schema.js";
+
+// Record migration and validation — pure functions, no ledger.
+// Run with: node --import tsx/esm --test tests/schema.test.ts
+
+const v1Buy = {
+  traceId: "t1",
+  timestamp: "2025-06-01T00:00:00.000Z",
+  marketId: "m1",
+  question: "Will it happen?",
+  direction: "YES",
+  amount: 10,
+  marketProb: 0.4,
+  estimate: 0.6,
+  edge: 0.2,
+  dryRun: false,
+  result: { betId: "b1" },
+};
+
+const v1Sell = {
+  traceId: "t1",
+  timestamp: "2025-06-02T00:00:00.000Z",
+  marketId: "m1",
+  question: "Will it happen?",
+  direction: "YES",
+  amount: 10,
+  action: "SELL",
+  entryProb: 0.4,
+  sellProb: 0.7,
+  proceeds: 17,
+  realizedPnl: 7,
+  reason: "TAKE_PROFIT",
+};
+
+test("v1 trades are upgraded with venue and a schema version", () => {
+  const trade = parseRecord("trade", v1Buy);
+  assert.equal(trade.venue, "manifold");
+  assert.equal(trade.schemaVersion, SCHEMA_VERSION);
+});
+
+test("v1 SELL records borrow estimate and edge from their BUY", () => {
+  const sell = migrateRecord("trade", v1Sell, v1Buy);
+  assert.equal(sell.estimate, 0.6);
+  assert.equal(sell.edge, 0.2);
+  assert.equal(sell.marketProb, 0.4);
+  assert.equal(sell.dryRun, false);
+  assert.equal(parseRecord("trade", sell).realizedPnl, 7);
+});
+
+test("current-version records are not re-migrated", () => {
+  const kalshi = { ...v1Buy, venue: "kalshi", schemaVersion: SCHEMA_VERSION };
+  assert.equal(parseRecord("trade", kalshi).venue, "kalshi");
+});
+
+test("invalid records are rejected with the offending field", () => {
+  assert.throws(() => parseRecord("trade", { ...v1Buy, amount: "10" }), /amount should be number/);
+  assert.throws(() => parseRecord("trade", { ...v1Buy, direction: "MAYBE" }), SchemaError);
+  assert.throws(() => parseRecord("trade", { ...v1Sell, proceeds: undefined }), /missing proceeds/);
+  assert.throws(() => parseRecord("snapshot", [1, 2]), /not an object/);
+});
+
+test("records from a newer schema version are refused", () => {
+  assert.throws(
+    () => parseRecord("trade", { ...v1Buy, schemaVersion: SCHEMA_VERSION + 1 }),
+    /newer than supported/
+  );
+});